@@ -0,0 +1,262 @@
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { ShortcutArgValue } from "./types.js";
+
+const AUDIT_DIR = join(homedir(), ".mori", "ssh", "audit");
+const CURRENT_FILE = "audit.jsonl";
+/** 当前文件超过这么大就轮转成 audit-<时间>.jsonl */
+const ROTATE_BYTES = 5 * 1024 * 1024;
+/** 轮转出来的旧文件最多留几个 */
+const MAX_ROTATED_FILES = 10;
+/** 记录里的命令 / 路径过长时截断（stdin 从不记录，只记长度） */
+const MAX_TEXT_CHARS = 4000;
+/** 比这短的 secret 不做替换：太短的值（"1"、"on"）会把正常内容也打码 */
+const MIN_SECRET_CHARS = 4;
+export const AUDIT_QUERY_LIMIT = 50;
+
+export type AuditKind =
+  | "command"
+  | "shortcut"
+  | "detach"
+  | "write"
+  | "upload"
+  | "download"
+  | "sync"
+  | "transfer"
+  | "mkdir"
+  | "remove"
+  | "rename"
+  | "chmod";
+
+/**
+ * 一条审计记录（JSONL 一行）。只记「做了什么、结果如何」，不记输出内容。
+ */
+export interface AuditEntry {
+  /** ISO 时间（命令开始的时刻） */
+  ts: string;
+  /** MCP session id；stdio 模式没有 session id，记 stdio-<pid> */
+  session: string;
+  tool: "ssh" | "sftp";
+  kind: AuditKind;
+  server: string;
+  /** exec / pty / detach；fan-out 的每台各记一条，带 fanOut: true */
+  mode?: "exec" | "pty" | "detach";
+  fanOut?: boolean;
+  /** 以 sudo:true 执行（密码由服务端喂，不记） */
+  sudo?: boolean;
+  command?: string;
+  cwd?: string;
+  /** 喂给命令的 stdin 字节数（内容不记） */
+  stdinBytes?: number;
+  shortcut?: string;
+  args?: Record<string, ShortcutArgValue>;
+  path?: string;
+  localPath?: string;
+  remotePath?: string;
+  /** 服务器之间 transfer 的源（server / path 记的是目标）；hub 中转时是 node/server */
+  fromServer?: string;
+  fromPath?: string;
+  /** rename 的新路径 */
+  newPath?: string;
+  /** chmod / mkdir 的权限位 */
+  fileMode?: number;
+  /** remove 带了 recursive / 目录递归 upload、download */
+  recursive?: boolean;
+  /** sync 的方向 */
+  direction?: "up" | "down";
+  /** 目录传输 / sync 实际传了几个文件 */
+  files?: number;
+  bytes?: number;
+  exitCode?: number | null;
+  signal?: string;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  /** 连接失败 / 执行抛错时的错误信息 */
+  error?: string;
+  /** 成功 = exit 0 且没超时没出错（detach 是「起成功了」，pty 拿不到 exitCode 时看是否完成） */
+  ok: boolean;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  server?: string;
+  /** 只要这个时刻之后的（含） */
+  since?: Date;
+  /** 只要这个时刻之前的（含） */
+  until?: Date;
+  /** "ok" / "failed" 或具体的退出码 */
+  exitStatus?: "ok" | "failed" | number;
+  session?: string;
+  /** 最多返回几条（最新的在前），默认 50 */
+  limit?: number;
+}
+
+/**
+ * 把 "30m" / "2h" / "7d" 这样的相对时长或 ISO / 日期字符串解析成时刻
+ */
+export function parseAuditTime(raw: string, now: number = Date.now()): Date {
+  const m = /^(\d+)\s*([smhd])$/i.exec(raw.trim());
+  if (m) {
+    const unit = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 }[m[2].toLowerCase() as "s" | "m" | "h" | "d"];
+    return new Date(now - Number(m[1]) * unit);
+  }
+  const t = Date.parse(raw);
+  if (Number.isNaN(t)) {
+    throw new Error(`无法识别的时间: ${raw}（用 ISO 时间如 2026-10-01T08:00、日期 2026-10-01，或相对时长 30m / 2h / 7d）`);
+  }
+  return new Date(t);
+}
+
+/**
+ * 把一条审计记录格式化成一行（ssh history / CLI audit 共用）
+ */
+export function formatAuditEntry(e: AuditEntry): string {
+  const when = e.ts.replace("T", " ").replace(/\.\d+Z$/, "Z");
+  const status = e.error
+    ? "error"
+    : e.timedOut ? "timeout"
+    : e.cancelled ? "cancelled"
+    : typeof e.exitCode === "number" ? `exit ${e.exitCode}`
+    : e.signal ? `signal ${e.signal}`
+    : e.ok ? "ok" : "failed";
+  const what = e.kind === "shortcut"
+    ? `shortcut ${e.shortcut}${e.args && Object.keys(e.args).length ? ` ${JSON.stringify(e.args)}` : ""}`
+    : e.kind === "write" ? `write ${e.path}${e.bytes !== undefined ? ` (${e.bytes}B)` : ""}`
+    : e.kind === "upload" ? `upload${e.recursive ? " -r" : ""} ${e.localPath} → ${e.remotePath}${e.files !== undefined ? ` (${e.files} 个文件)` : ""}`
+    : e.kind === "download" ? `download${e.recursive ? " -r" : ""} ${e.remotePath} → ${e.localPath}${e.files !== undefined ? ` (${e.files} 个文件)` : ""}`
+    : e.kind === "sync" ? `sync ${e.direction === "up" ? `${e.localPath} → ${e.remotePath}` : `${e.remotePath} → ${e.localPath}`}${e.files !== undefined ? ` (${e.files} 个文件${e.bytes !== undefined ? `, ${e.bytes}B` : ""})` : ""}`
+    : e.kind === "transfer" ? `transfer ${e.fromServer}:${e.fromPath} → ${e.path}${e.bytes !== undefined ? ` (${e.bytes}B)` : ""}`
+    : e.kind === "mkdir" ? `mkdir ${e.path}`
+    : e.kind === "remove" ? `remove${e.recursive ? " -r" : ""} ${e.path}`
+    : e.kind === "rename" ? `rename ${e.path} → ${e.newPath}`
+    : e.kind === "chmod" ? `chmod ${e.fileMode?.toString(8).padStart(4, "0")} ${e.path}`
+    : `${e.mode && e.mode !== "exec" ? `[${e.mode}] ` : ""}${e.fanOut ? "[fan-out] " : ""}${e.sudo ? "[sudo] " : ""}${e.command ?? ""}`;
+  const secs = `${(e.durationMs / 1000).toFixed(1)}s`;
+  const err = e.error ? `  # ${e.error.split("\n")[0]}` : "";
+  return `${when}  ${e.server}  ${status}  ${secs}  ${what}${err}`;
+}
+
+function clip(text: string | undefined): string | undefined {
+  if (text === undefined || text.length <= MAX_TEXT_CHARS) return text;
+  return `${text.slice(0, MAX_TEXT_CHARS)}…[共 ${text.length} 字符]`;
+}
+
+function matches(e: AuditEntry, q: AuditQuery): boolean {
+  if (q.server && e.server !== q.server) return false;
+  if (q.session && e.session !== q.session) return false;
+  const t = Date.parse(e.ts);
+  if (q.since && t < q.since.getTime()) return false;
+  if (q.until && t > q.until.getTime()) return false;
+  if (q.exitStatus === "ok" && !e.ok) return false;
+  if (q.exitStatus === "failed" && e.ok) return false;
+  if (typeof q.exitStatus === "number" && e.exitCode !== q.exitStatus) return false;
+  return true;
+}
+
+/**
+ * 命令审计日志：~/.mori/ssh/audit/audit.jsonl，只追加；超过 5MB 轮转为 audit-<时间>.jsonl，最多留 10 个。
+ * 写失败（磁盘满、没权限）只打 stderr，不影响命令本身。
+ */
+export class AuditLog {
+  private dir: string;
+
+  constructor(dir?: string) {
+    this.dir = dir || AUDIT_DIR;
+  }
+
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * 追加一条记录。secrets 里的值（密码、shortcut secret 等）在命令 / 参数里出现时替换成 ***
+   */
+  record(entry: AuditEntry, secrets: string[] = []): void {
+    const redact = (text: string): string =>
+      secrets
+        .filter((s) => s.length >= MIN_SECRET_CHARS)
+        .reduce((acc, s) => acc.split(s).join("***"), text);
+    const safe: AuditEntry = {
+      ...entry,
+      command: clip(entry.command === undefined ? undefined : redact(entry.command)),
+      args: entry.args
+        ? Object.fromEntries(
+            Object.entries(entry.args).map(([k, v]) => [
+              k,
+              Array.isArray(v) ? v.map((item) => clip(redact(item))!)
+                : typeof v === "string" ? clip(redact(v))!
+                : v,
+            ])
+          )
+        : undefined,
+      error: clip(entry.error === undefined ? undefined : redact(entry.error)),
+    };
+    try {
+      if (!existsSync(this.dir)) mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+      this.rotateIfNeeded();
+      appendFileSync(join(this.dir, CURRENT_FILE), JSON.stringify(safe) + "\n", { encoding: "utf-8", mode: 0o600 });
+    } catch (e) {
+      console.error(`[mcp-ssh-pty] 写审计日志失败: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /**
+   * 按条件查记录，最新的在前。从当前文件往旧文件倒着翻，够 limit 条就停。
+   * 记录在结束时追加、ts 却是开始时间，文件里并不按 ts 排序（跑了一小时的 transfer 排在它期间的命令后面），
+   * 所以早于 since 的行只跳过，整个文件都早于 since 才不再往更旧的文件翻
+   */
+  query(q: AuditQuery = {}): AuditEntry[] {
+    const limit = q.limit ?? AUDIT_QUERY_LIMIT;
+    const out: AuditEntry[] = [];
+    for (const file of this.filesNewestFirst()) {
+      let lines: string[];
+      try {
+        lines = readFileSync(join(this.dir, file), "utf-8").split("\n");
+      } catch {
+        continue;
+      }
+      let entries = 0;
+      let older = 0;
+      for (let i = lines.length - 1; i >= 0; i--) {
+        if (!lines[i]) continue;
+        let e: AuditEntry;
+        try {
+          e = JSON.parse(lines[i]);
+        } catch {
+          continue; // 写到一半被截断的行
+        }
+        entries++;
+        if (q.since && Date.parse(e.ts) < q.since.getTime()) {
+          older++;
+          continue;
+        }
+        if (!matches(e, q)) continue;
+        out.push(e);
+        if (out.length >= limit) return out;
+      }
+      if (entries > 0 && older === entries) return out;
+    }
+    return out;
+  }
+
+  private filesNewestFirst(): string[] {
+    if (!existsSync(this.dir)) return [];
+    const rotated = readdirSync(this.dir)
+      .filter((f) => /^audit-.+\.jsonl$/.test(f))
+      .sort()
+      .reverse();
+    return existsSync(join(this.dir, CURRENT_FILE)) ? [CURRENT_FILE, ...rotated] : rotated;
+  }
+
+  private rotateIfNeeded(): void {
+    const current = join(this.dir, CURRENT_FILE);
+    if (!existsSync(current) || statSync(current).size < ROTATE_BYTES) return;
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+    renameSync(current, join(this.dir, `audit-${stamp}.jsonl`));
+    const rotated = readdirSync(this.dir).filter((f) => /^audit-.+\.jsonl$/.test(f)).sort();
+    for (const f of rotated.slice(0, Math.max(0, rotated.length - MAX_ROTATED_FILES))) {
+      try { unlinkSync(join(this.dir, f)); } catch { /* ignore */ }
+    }
+  }
+}
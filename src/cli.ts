@@ -6,8 +6,14 @@ import { readFileSync } from "fs";
 import { fileURLToPath } from "url";
 import { dirname, join } from "path";
 import { ConfigManager, ConfigScope } from "./config.js";
-import { SSHManager, LOCAL_SERVER } from "./ssh-manager.js";
-import { ServerConfig, ProxyConfig, ProxyJumpConfig } from "./types.js";
+import { SSHManager } from "./ssh-manager.js";
+import { LOCAL_SERVER } from "./ssh-connection.js";
+import { ServerConfig, ProxyConfig, ProxyJumpConfig, ProxyJumpHop } from "./types.js";
+import { KnownHostsStore } from "./known-hosts.js";
+import { SshConfigParser } from "./ssh-config.js";
+import { serversWithTags } from "./server-selector.js";
+import { AuditLog, AuditQuery, AUDIT_QUERY_LIMIT, formatAuditEntry, parseAuditTime } from "./audit-log.js";
+import { SecretVault, DEFAULT_KEYFILE_PATH, VAULT_PASSPHRASE_ENV } from "./secret-vault.js";
 
 const PKG_VERSION: string = (() => {
   try {
@@ -26,14 +32,45 @@ function getConfigManager(scope?: ConfigScope): ConfigManager {
   return new ConfigManager(undefined, scope);
 }
 
+/**
+ * 格式化跳板链：内联跳板显示 user@host:port，引用显示服务器名
+ */
+function formatJumpChain(proxyJump: ProxyJumpHop | ProxyJumpHop[]): string {
+  const hops = Array.isArray(proxyJump) ? proxyJump : [proxyJump];
+  return hops
+    .map((h) => (typeof h === "string" ? h : `${h.username}@${h.host}:${h.port || 22}`))
+    .join(" → ");
+}
+
 /**
  * 格式化服务器信息显示（隐藏敏感信息）
  */
 function formatServer(server: ServerConfig): string {
-  const auth = server.privateKeyPath ? `key:${server.privateKeyPath}` : "password";
+  const auth = server.privateKeyPath
+    ? `key:${server.privateKeyPath}`
+    : server.agent ? `agent${typeof server.agent === "string" ? `:${server.agent}` : ""}` : "password";
+  const fwd = server.forwardAgent ? " [forward-agent]" : "";
   const proxy = server.proxy ? ` [proxy:${server.proxy.host}:${server.proxy.port}]` : "";
-  const jump = server.proxyJump ? ` [jump:${server.proxyJump.username}@${server.proxyJump.host}:${server.proxyJump.port || 22}]` : "";
-  return `${server.name} (${server.username}@${server.host}:${server.port || 22}) [${auth}]${proxy}${jump}`;
+  const jump = server.proxyJump ? ` [jump:${formatJumpChain(server.proxyJump)}]`
+    : server.proxyCommand ? " [proxyCommand]" : "";
+  const tags = server.tags?.length ? ` [tags:${server.tags.join(",")}]` : "";
+  const readOnly = server.readOnly ? " [read-only]" : "";
+  return `${server.name} (${server.username}@${server.host}:${server.port || 22}) [${auth}]${fwd}${proxy}${jump}${tags}${readOnly}`;
+}
+
+/**
+ * list --tag 过滤："prod+web" = 同时带两个标签；不给 tag 原样返回
+ */
+function filterByTag(servers: ServerConfig[], tag?: string): ServerConfig[] {
+  const tags = tag?.split("+").map((t) => t.trim()).filter(Boolean) ?? [];
+  return tags.length > 0 ? serversWithTags(servers, tags) : servers;
+}
+
+/**
+ * sshConfigInclude 并入的条目在列表里标出来（它们改 ~/.ssh/config 才生效，remove 删不掉）
+ */
+function sshConfigTag(configManager: ConfigManager, server: ServerConfig): string {
+  return configManager.isFromSshConfig(server.name) ? " (~/.ssh/config)" : "";
 }
 
 /**
@@ -46,10 +83,12 @@ function formatScope(scope: ConfigScope): string {
 /**
  * list 命令
  */
-async function listServers(options: { local?: boolean; global?: boolean; all?: boolean }): Promise<void> {
-  // 先显示内置服务器
-  console.log("=== 内置服务器 ===");
-  console.log(`  • local (本地 shell)\n`);
+async function listServers(options: { local?: boolean; global?: boolean; all?: boolean; tag?: string }): Promise<void> {
+  // 先显示内置服务器（local 没有标签，按 tag 过滤时不列）
+  if (!options.tag) {
+    console.log("=== 内置服务器 ===");
+    console.log(`  • local (本地 shell)\n`);
+  }
 
   if (options.all) {
     // 显示两个级别的配置
@@ -57,11 +96,11 @@ async function listServers(options: { local?: boolean; global?: boolean; all?: b
     console.log(`路径: ${ConfigManager.getLocalPath()}`);
     if (ConfigManager.localConfigExists()) {
       const localManager = new ConfigManager(undefined, "local");
-      const localServers = localManager.listServers();
+      const localServers = filterByTag(localManager.listServers(), options.tag);
       if (localServers.length === 0) {
         console.log("(空)\n");
       } else {
-        localServers.forEach((s, i) => console.log(`  ${i + 1}. ${formatServer(s)}`));
+        localServers.forEach((s, i) => console.log(`  ${i + 1}. ${formatServer(s)}${sshConfigTag(localManager, s)}`));
         console.log("");
       }
     } else {
@@ -72,11 +111,11 @@ async function listServers(options: { local?: boolean; global?: boolean; all?: b
     console.log(`路径: ${ConfigManager.getGlobalPath()}`);
     if (ConfigManager.globalConfigExists()) {
       const globalManager = new ConfigManager(undefined, "global");
-      const globalServers = globalManager.listServers();
+      const globalServers = filterByTag(globalManager.listServers(), options.tag);
       if (globalServers.length === 0) {
         console.log("(空)");
       } else {
-        globalServers.forEach((s, i) => console.log(`  ${i + 1}. ${formatServer(s)}`));
+        globalServers.forEach((s, i) => console.log(`  ${i + 1}. ${formatServer(s)}${sshConfigTag(globalManager, s)}`));
       }
     } else {
       console.log("(不存在)");
@@ -86,19 +125,23 @@ async function listServers(options: { local?: boolean; global?: boolean; all?: b
 
   const scope: ConfigScope | undefined = options.local ? "local" : options.global ? "global" : undefined;
   const configManager = getConfigManager(scope);
-  const servers = configManager.listServers();
+  const servers = filterByTag(configManager.listServers(), options.tag);
 
   console.log(`=== ${formatScope(configManager.getScope())} ===`);
   console.log(`路径: ${configManager.getConfigPath()}\n`);
 
   if (servers.length === 0) {
+    if (options.tag) {
+      console.log(`(没有带标签 ${options.tag} 的服务器)`);
+      return;
+    }
     console.log("(空)");
     console.log("\n使用 'mcp-ssh-pty add' 添加服务器");
     return;
   }
 
   servers.forEach((server, index) => {
-    console.log(`  ${index + 1}. ${formatServer(server)}`);
+    console.log(`  ${index + 1}. ${formatServer(server)}${sshConfigTag(configManager, server)}`);
   });
 }
 
@@ -112,6 +155,10 @@ async function addServer(name?: string, options?: {
   password?: string;
   key?: string;
   passphrase?: string;
+  agent?: string | boolean;
+  forwardAgent?: boolean;
+  tag?: string;
+  readOnly?: boolean;
   local?: boolean;
   global?: boolean;
   proxyHost?: string;
@@ -122,6 +169,7 @@ async function addServer(name?: string, options?: {
   jumpUser?: string;
   jumpKey?: string;
   jumpPassword?: string;
+  jumpAgent?: string | boolean;
 }): Promise<void> {
   // 确定配置级别
   let scope: ConfigScope | undefined;
@@ -149,6 +197,7 @@ async function addServer(name?: string, options?: {
   let authPassword = options?.password;
   let privateKeyPath = options?.key;
   let passphrase = options?.passphrase;
+  let agent = options?.agent;
 
   // 交互式获取缺失的参数
   if (!serverName) {
@@ -181,16 +230,22 @@ async function addServer(name?: string, options?: {
   }
 
   // 认证方式
-  if (!authPassword && !privateKeyPath) {
+  if (!authPassword && !privateKeyPath && !agent) {
     const authType = await select({
       message: "认证方式:",
       choices: [
         { name: "私钥", value: "key" },
+        { name: "ssh-agent", value: "agent" },
         { name: "密码", value: "password" },
       ],
     });
 
-    if (authType === "key") {
+    if (authType === "agent") {
+      const sock = await input({
+        message: "agent socket 路径（留空用 SSH_AUTH_SOCK）:",
+      });
+      agent = sock.trim() || true;
+    } else if (authType === "key") {
       privateKeyPath = await input({
         message: "私钥路径:",
         default: "~/.ssh/id_rsa",
@@ -228,6 +283,21 @@ async function addServer(name?: string, options?: {
   } else if (authPassword) {
     server.password = authPassword;
   }
+  if (agent) {
+    server.agent = agent;
+  }
+  if (options?.forwardAgent) {
+    if (!agent) {
+      console.log("✗ --forward-agent 需要同时使用 agent 认证（--agent）");
+      return;
+    }
+    server.forwardAgent = true;
+  }
+  if (options?.tag) {
+    const tags = options.tag.split(",").map((t) => t.trim()).filter(Boolean);
+    if (tags.length > 0) server.tags = tags;
+  }
+  if (options?.readOnly) server.readOnly = true;
 
   // 代理配置
   const hasProxyOptions = !!(options?.proxyHost || options?.proxyPort);
@@ -326,16 +396,24 @@ async function addServer(name?: string, options?: {
         jumpConfig.privateKeyPath = options.jumpKey;
       } else if (options?.jumpPassword) {
         jumpConfig.password = options.jumpPassword;
+      } else if (options?.jumpAgent) {
+        jumpConfig.agent = options.jumpAgent;
       } else {
         const jumpAuthType = await select({
           message: "跳板机认证方式:",
           choices: [
             { name: "私钥", value: "key" },
+            { name: "ssh-agent", value: "agent" },
             { name: "密码", value: "password" },
           ],
         });
 
-        if (jumpAuthType === "key") {
+        if (jumpAuthType === "agent") {
+          const sock = await input({
+            message: "agent socket 路径（留空用 SSH_AUTH_SOCK）:",
+          });
+          jumpConfig.agent = sock.trim() || true;
+        } else if (jumpAuthType === "key") {
           jumpConfig.privateKeyPath = await input({
             message: "跳板机私钥路径:",
             default: "~/.ssh/id_rsa",
@@ -402,6 +480,10 @@ async function removeServer(name?: string, options?: { local?: boolean; global?:
     console.log(`服务器 '${serverName}' 不存在`);
     return;
   }
+  if (configManager.isFromSshConfig(serverName)) {
+    console.log(`'${serverName}' 来自 sshConfigInclude，请在 ssh config 里删除对应的 Host 块`);
+    return;
+  }
 
   const confirmed = await confirm({
     message: `确定要删除服务器 '${serverName}' 吗?`,
@@ -463,11 +545,11 @@ async function testServer(name?: string, options?: { local?: boolean; global?: b
   const sshManager = new SSHManager();
 
   try {
-    await sshManager.connect(server);
+    const connection = await sshManager.connect(await configManager.resolveForConnect(server));
     console.log("✓ 连接成功!");
 
     // 执行简单命令测试
-    const shellManager = sshManager.getShellManager();
+    const shellManager = connection.getShellManager();
     const result = await shellManager.send("echo 'SSH connection test successful'");
 
     if (result.complete) {
@@ -483,6 +565,277 @@ async function testServer(name?: string, options?: { local?: boolean; global?: b
   }
 }
 
+/**
+ * import-ssh-config 命令 - 把 ~/.ssh/config 的 Host 导入为服务器条目（一次性固化）
+ */
+async function importSshConfig(file?: string, options?: {
+  local?: boolean;
+  global?: boolean;
+  overwrite?: boolean;
+  dryRun?: boolean;
+  yes?: boolean;
+}): Promise<void> {
+  const scope: ConfigScope | undefined = options?.local ? "local" : options?.global ? "global" : undefined;
+  const configManager = getConfigManager(scope);
+  const parser = new SshConfigParser(file);
+
+  let result;
+  try {
+    result = parser.load();
+  } catch (error) {
+    console.log(`✗ ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  console.log(`来源: ${parser.getPath()}`);
+  console.log(`配置级别: ${formatScope(configManager.getScope())}\n`);
+  for (const w of result.warnings) {
+    console.log(`⚠️ ${w}`);
+  }
+  if (result.servers.length === 0) {
+    console.log("没有找到可导入的 Host（带通配符的 Host 块只作为公共选项）");
+    return;
+  }
+
+  const toWrite: ServerConfig[] = [];
+  for (const server of result.servers) {
+    const exists = !!configManager.getServer(server.name) && !configManager.isFromSshConfig(server.name);
+    const mark = !exists ? "+ 新增" : options?.overwrite ? "~ 覆盖" : "= 跳过（已存在）";
+    console.log(`  ${mark}  ${formatServer(server)}`);
+    if (!exists || options?.overwrite) toWrite.push(server);
+  }
+
+  if (options?.dryRun || toWrite.length === 0) {
+    if (toWrite.length === 0) console.log("\n没有需要写入的条目（已存在的用 --overwrite 覆盖）");
+    return;
+  }
+
+  if (!options?.yes) {
+    const ok = await confirm({ message: `写入 ${toWrite.length} 台服务器到 ${configManager.getConfigPath()}?`, default: true });
+    if (!ok) {
+      console.log("已取消");
+      return;
+    }
+  }
+
+  for (const server of toWrite) {
+    configManager.addServer(server);
+  }
+  console.log(`\n✓ 已导入 ${toWrite.length} 台服务器`);
+}
+
+/**
+ * trust 命令 - 重新钉住服务器（及其跳板机）的 host key
+ * 先删旧 key，再以 accept-new 连一次把当前 key 钉上；strict 的服务器首次使用前也靠它。
+ */
+async function trustServer(name?: string, options?: { local?: boolean; global?: boolean; yes?: boolean }): Promise<void> {
+  const scope: ConfigScope | undefined = options?.local ? "local" : options?.global ? "global" : undefined;
+  const configManager = getConfigManager(scope);
+  const servers = configManager.listServers();
+
+  let serverName = name;
+  if (!serverName) {
+    if (servers.length === 0) {
+      console.log("没有配置任何服务器");
+      return;
+    }
+    serverName = await select({
+      message: "选择要信任的服务器:",
+      choices: servers.map((s) => ({ name: formatServer(s), value: s.name })),
+    });
+  }
+
+  const server = configManager.getServer(serverName);
+  if (!server) {
+    console.log(`服务器 '${serverName}' 不存在`);
+    return;
+  }
+
+  const knownHosts = new KnownHostsStore();
+  const previous = knownHosts.listFor(serverName);
+  if (Object.keys(previous).length > 0 && !options?.yes) {
+    console.log("当前钉住的 host key:");
+    for (const [k, v] of Object.entries(previous)) {
+      console.log(`  ${k}: ${v.keyType} ${v.fingerprint} (${v.host}:${v.port})`);
+    }
+    const ok = await confirm({ message: "替换为服务器当前提供的 key?", default: false });
+    if (!ok) {
+      console.log("已取消");
+      return;
+    }
+  }
+  knownHosts.forget(serverName);
+
+  // 临时按 accept-new 连一次：校验器在认证之前就把 key 钉上，所以即使认证失败 key 也已记录
+  const sshManager = new SSHManager(knownHosts);
+  try {
+    const resolved = await configManager.resolveForConnect(server);
+    const hops = resolved.proxyJump as ProxyJumpConfig[] | undefined;
+    const trustConfig: ServerConfig = {
+      ...resolved,
+      hostKeyCheck: "accept-new",
+      proxyJump: hops?.map((hop) => ({ ...hop, hostKeyCheck: "accept-new" as const })),
+    };
+    await sshManager.connect(trustConfig);
+    await sshManager.disconnect();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`⚠️ 连接未完成: ${message}`);
+  }
+
+  const pinned = knownHosts.listFor(serverName);
+  if (Object.keys(pinned).length === 0) {
+    console.log(`✗ 没能拿到 '${serverName}' 的 host key`);
+    process.exit(1);
+  }
+  console.log(`\n✓ 已钉住 '${serverName}' 的 host key:`);
+  for (const [k, v] of Object.entries(pinned)) {
+    console.log(`  ${k}: ${v.keyType} ${v.fingerprint} (${v.host}:${v.port})`);
+  }
+  console.log(`  存储: ${knownHosts.getPath()}`);
+}
+
+/**
+ * forget 命令 - 删除服务器（及其跳板机）钉住的 host key
+ */
+async function forgetServer(name: string): Promise<void> {
+  const knownHosts = new KnownHostsStore();
+  const removed = knownHosts.forget(name);
+  if (removed.length === 0) {
+    console.log(`'${name}' 没有钉住的 host key`);
+    return;
+  }
+  console.log(`✓ 已删除 ${removed.join(", ")} 的 host key，下次连接会重新钉住（strict 模式需再 trust）`);
+}
+
+/**
+ * audit 命令 - 查审计日志（最新在前）
+ */
+async function showAudit(options: {
+  server?: string;
+  since?: string;
+  until?: string;
+  status?: string;
+  session?: string;
+  limit?: string;
+  json?: boolean;
+}): Promise<void> {
+  const auditLog = new AuditLog();
+  let query: AuditQuery;
+  try {
+    let exitStatus: AuditQuery["exitStatus"];
+    if (options.status === "ok" || options.status === "failed") {
+      exitStatus = options.status;
+    } else if (options.status !== undefined) {
+      exitStatus = parseInt(options.status, 10);
+      if (Number.isNaN(exitStatus)) throw new Error(`--status 只能是 ok、failed 或退出码: ${options.status}`);
+    }
+    query = {
+      server: options.server,
+      since: options.since ? parseAuditTime(options.since) : undefined,
+      until: options.until ? parseAuditTime(options.until) : undefined,
+      exitStatus,
+      session: options.session,
+      limit: options.limit ? parseInt(options.limit, 10) || AUDIT_QUERY_LIMIT : AUDIT_QUERY_LIMIT,
+    };
+  } catch (e) {
+    console.error(`✗ ${e instanceof Error ? e.message : String(e)}`);
+    process.exit(1);
+  }
+
+  const entries = auditLog.query(query);
+  if (options.json) {
+    entries.forEach((e) => console.log(JSON.stringify(e)));
+    return;
+  }
+  if (entries.length === 0) {
+    console.log(`(没有符合条件的记录，日志目录: ${auditLog.getDir()})`);
+    return;
+  }
+  entries.forEach((e) => console.log(`${formatAuditEntry(e)}  [${e.session}]`));
+}
+
+/**
+ * 打开 vault：环境变量 / 默认 keyfile 都没有时交互输入口令；
+ * 首次 set（vault 还不存在）时问用 keyfile 还是口令保护
+ */
+async function openVault(creating: boolean): Promise<SecretVault> {
+  if (SecretVault.defaultKeySource()) return new SecretVault();
+  if (!creating || new SecretVault().exists()) {
+    const passphrase = await password({ message: "vault 口令:" });
+    return new SecretVault(undefined, { passphrase });
+  }
+
+  const how = await select({
+    message: "首次创建 vault，用什么保护?",
+    choices: [
+      { name: `随机 keyfile（${DEFAULT_KEYFILE_PATH}，daemon 自动读取）`, value: "keyfile" },
+      { name: `口令（daemon 要设置环境变量 ${VAULT_PASSPHRASE_ENV} 才能解锁）`, value: "passphrase" },
+    ],
+  });
+  if (how === "keyfile") {
+    SecretVault.generateKeyfile();
+    console.log(`✓ 已生成 keyfile: ${DEFAULT_KEYFILE_PATH}（丢了它 vault 就解不开，注意备份）`);
+    return new SecretVault();
+  }
+  const first = await password({ message: "设置 vault 口令:" });
+  const second = await password({ message: "再输一次:" });
+  if (!first || first !== second) {
+    console.error("✗ 口令为空或两次输入不一致");
+    process.exit(1);
+  }
+  console.log(`提示: 启动 MCP server 时设置 ${VAULT_PASSPHRASE_ENV}，否则 secret: 引用解析不了`);
+  return new SecretVault(undefined, { passphrase: first });
+}
+
+/**
+ * secret 命令 - 管理本地加密 vault（配置里用 "secret:<name>" 引用）
+ */
+async function secretCommand(op: string, name: string | undefined, value: string | undefined, options: { show?: boolean }): Promise<void> {
+  try {
+    switch (op) {
+      case "list": {
+        const vault = new SecretVault();
+        const entries = vault.list();
+        if (entries.length === 0) {
+          console.log(`(vault 里没有 secret，路径: ${vault.getPath()})`);
+          return;
+        }
+        entries.forEach((e) => console.log(`${e.name}  (更新于 ${e.updatedAt})`));
+        return;
+      }
+      case "set": {
+        if (!name) throw new Error("用法: mcp-ssh-pty secret set <name> [value]");
+        SecretVault.validateName(name);
+        const vault = await openVault(true);
+        const secret = value ?? await password({ message: `${name} 的值:` });
+        if (!secret) throw new Error("值不能为空");
+        vault.set(name, secret);
+        console.log(`✓ 已保存 secret '${name}'，配置里写 "secret:${name}" 引用它`);
+        return;
+      }
+      case "get": {
+        if (!name) throw new Error("用法: mcp-ssh-pty secret get <name> [--show]");
+        const vault = await openVault(false);
+        const secret = vault.get(name);
+        console.log(options.show ? secret : `✓ '${name}' 可以解锁（${secret.length} 个字符，--show 显示明文）`);
+        return;
+      }
+      case "rm": {
+        if (!name) throw new Error("用法: mcp-ssh-pty secret rm <name>");
+        if (!new SecretVault().remove(name)) throw new Error(`vault 里没有 secret '${name}'`);
+        console.log(`✓ 已删除 secret '${name}'`);
+        return;
+      }
+      default:
+        throw new Error(`未知操作 '${op}'，可用: set / get / list / rm`);
+    }
+  } catch (e) {
+    console.error(`✗ ${e instanceof Error ? e.message : String(e)}`);
+    process.exit(1);
+  }
+}
+
 /**
  * config 命令 - 交互式配置
  */
@@ -561,12 +914,12 @@ async function interactiveConfig(): Promise<void> {
           console.log(`  主机: ${server.host}`);
           console.log(`  端口: ${server.port || 22}`);
           console.log(`  用户: ${server.username}`);
-          console.log(`  认证: ${server.privateKeyPath ? `私钥(${server.privateKeyPath})` : "密码"}`);
+          console.log(`  认证: ${server.privateKeyPath ? `私钥(${server.privateKeyPath})` : server.agent ? "ssh-agent" : "密码"}`);
           if (server.proxy) {
             console.log(`  代理: ${server.proxy.host}:${server.proxy.port} (SOCKS${server.proxy.type || 5})`);
           }
           if (server.proxyJump) {
-            console.log(`  跳板机: ${server.proxyJump.username}@${server.proxyJump.host}:${server.proxyJump.port || 22}`);
+            console.log(`  跳板机: ${formatJumpChain(server.proxyJump)}`);
           }
           console.log("\n重新输入新配置:\n");
 
@@ -627,7 +980,7 @@ async function interactiveConfig(): Promise<void> {
           }
           const sshManager = new SSHManager();
           try {
-            await sshManager.connect(server);
+            await sshManager.connect(await configManager.resolveForConnect(server));
             console.log("✓ 连接成功!");
             await sshManager.disconnect();
             console.log("✓ 已断开连接");
@@ -687,6 +1040,7 @@ async function addServerToManager(configManager: ConfigManager, existingName?: s
     message: "认证方式:",
     choices: [
       { name: "私钥", value: "key" },
+      { name: "ssh-agent", value: "agent" },
       { name: "密码", value: "password" },
     ],
   });
@@ -698,7 +1052,16 @@ async function addServerToManager(configManager: ConfigManager, existingName?: s
     username,
   };
 
-  if (authType === "key") {
+  if (authType === "agent") {
+    const sock = await input({
+      message: "agent socket 路径（留空用 SSH_AUTH_SOCK）:",
+    });
+    server.agent = sock.trim() || true;
+    server.forwardAgent = await confirm({
+      message: "是否把 agent 转发到远端（远端 git pull 等可用本机 key）?",
+      default: false,
+    });
+  } else if (authType === "key") {
     server.privateKeyPath = await input({
       message: "私钥路径:",
       default: "~/.ssh/id_rsa",
@@ -795,6 +1158,7 @@ async function addServerToManager(configManager: ConfigManager, existingName?: s
         message: "跳板机认证方式:",
         choices: [
           { name: "私钥", value: "key" },
+          { name: "ssh-agent", value: "agent" },
           { name: "密码", value: "password" },
         ],
       });
@@ -805,7 +1169,12 @@ async function addServerToManager(configManager: ConfigManager, existingName?: s
         username: jumpUser,
       };
 
-      if (jumpAuthType === "key") {
+      if (jumpAuthType === "agent") {
+        const sock = await input({
+          message: "agent socket 路径（留空用 SSH_AUTH_SOCK）:",
+        });
+        jumpConfig.agent = sock.trim() || true;
+      } else if (jumpAuthType === "key") {
         jumpConfig.privateKeyPath = await input({
           message: "跳板机私钥路径:",
           default: "~/.ssh/id_rsa",
@@ -841,6 +1210,7 @@ export function createCLI(): Command {
     .option("-l, --local", "只显示项目级别配置")
     .option("-g, --global", "只显示用户级别配置")
     .option("-a, --all", "显示所有级别配置")
+    .option("-t, --tag <tag>", "只显示带该标签的服务器（prod+web = 同时带两个）")
     .action(listServers);
 
   program
@@ -854,6 +1224,10 @@ export function createCLI(): Command {
     .option("-p, --password <password>", "密码（⚠️ 会出现在进程列表中，建议使用交互式输入）")
     .option("-k, --key <path>", "私钥路径")
     .option("--passphrase <passphrase>", "私钥密码")
+    .option("--agent [socket]", "用 ssh-agent 认证（不给路径则用 SSH_AUTH_SOCK）")
+    .option("--forward-agent", "把 agent 转发到远端（需同时 --agent）")
+    .option("-t, --tag <tags>", "标签，逗号分隔（如 prod,web）")
+    .option("--read-only", "只读服务器：只能跑只读命令 / readOnly shortcut，不能 pty、detach、sftp 写入上传")
     .option("--proxy-host <host>", "代理地址")
     .option("--proxy-port <port>", "代理端口")
     .option("--proxy-type <type>", "代理类型 (4 或 5)")
@@ -862,6 +1236,7 @@ export function createCLI(): Command {
     .option("--jump-user <user>", "ProxyJump 跳板机用户名")
     .option("--jump-key <path>", "ProxyJump 跳板机私钥路径")
     .option("--jump-password <password>", "ProxyJump 跳板机密码")
+    .option("--jump-agent [socket]", "ProxyJump 跳板机用 ssh-agent 认证（不给路径则用 SSH_AUTH_SOCK）")
     .action(addServer);
 
   program
@@ -879,6 +1254,47 @@ export function createCLI(): Command {
     .option("-g, --global", "使用用户级别配置")
     .action(testServer);
 
+  program
+    .command("trust [name]")
+    .description("钉住（或替换）服务器及其跳板机的 host key")
+    .option("-l, --local", "使用项目级别配置")
+    .option("-g, --global", "使用用户级别配置")
+    .option("-y, --yes", "已有钉住的 key 时不再确认，直接替换")
+    .action(trustServer);
+
+  program
+    .command("forget <name>")
+    .description("删除服务器及其跳板机钉住的 host key")
+    .action(forgetServer);
+
+  program
+    .command("import-ssh-config [file]")
+    .description("从 ~/.ssh/config（或指定文件）导入 Host 为服务器条目")
+    .option("-l, --local", "保存到项目级别")
+    .option("-g, --global", "保存到用户级别")
+    .option("--overwrite", "覆盖同名的已有条目（默认跳过）")
+    .option("--dry-run", "只显示将导入的条目，不写入")
+    .option("-y, --yes", "不再确认，直接写入")
+    .action(importSshConfig);
+
+  program
+    .command("audit")
+    .description("查看命令审计日志（ssh 命令 / shortcut / sftp 写入与传输），最新的在前")
+    .option("-s, --server <name>", "只看这台服务器")
+    .option("--since <time>", "起始时间：ISO 时间 / 日期，或相对时长 30m、2h、7d")
+    .option("--until <time>", "截止时间，格式同 --since")
+    .option("--status <status>", "ok、failed 或具体退出码")
+    .option("--session <id>", "只看某个 MCP session")
+    .option("-n, --limit <n>", `最多显示几条（默认 ${AUDIT_QUERY_LIMIT}）`)
+    .option("--json", "按 JSONL 原样输出")
+    .action(showAudit);
+
+  program
+    .command("secret <op> [name] [value]")
+    .description("管理本地加密 vault：set（不给 value 则交互输入）、get、list、rm；配置里用 \"secret:<name>\" 引用")
+    .option("--show", "get 时输出明文（默认只验证能否解锁）")
+    .action(secretCommand);
+
   program
     .command("config")
     .description("交互式配置管理")
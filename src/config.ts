@@ -1,15 +1,21 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
 import { homedir } from "os";
 import { join, dirname } from "path";
-import { ServersConfig, ServerConfig, ShortcutConfig } from "./types.js";
+import { ServersConfig, ServerConfig, ShortcutConfig, ProxyJumpConfig } from "./types.js";
 import { validateShortcut } from "./shortcut-renderer.js";
+import { validatePolicy, PolicyLayer } from "./policy.js";
+import { SshConfigParser } from "./ssh-config.js";
+import { SecretResolver, isSecretRef } from "./secret-ref.js";
 
 export type ConfigScope = "local" | "global";
 
 export class ConfigManager {
   private config: ServersConfig | null = null;
+  /** sshConfigInclude 实时并入的服务器（只读，不参与 save） */
+  private sshConfigServers: ServerConfig[] = [];
   private configPath: string;
   private scope: ConfigScope;
+  private secretResolver = new SecretResolver();
 
   constructor(configPath?: string, scope?: ConfigScope) {
     if (configPath) {
@@ -79,6 +85,8 @@ export class ConfigManager {
       const content = readFileSync(this.configPath, "utf-8");
       this.config = JSON.parse(content);
       this.validateShortcuts();
+      this.validatePolicies();
+      this.loadSshConfigInclude();
       return this.config!;
     } catch (error) {
       if (error instanceof SyntaxError) {
@@ -88,6 +96,25 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * sshConfigInclude：解析 ~/.ssh/config（或指定路径）并入服务器列表，本文件里已有的同名条目优先。
+   * ssh config 读不了只打警告——不能因为它让整个 MCP 起不来。
+   */
+  private loadSshConfigInclude(): void {
+    this.sshConfigServers = [];
+    const include = this.config?.sshConfigInclude;
+    if (!include) return;
+    try {
+      const parser = new SshConfigParser(typeof include === "string" ? include : undefined);
+      const { servers, warnings } = parser.load();
+      for (const w of warnings) console.error(`[mcp-ssh-pty] ssh config: ${w}`);
+      const own = new Set(this.config!.servers.map((s) => s.name));
+      this.sshConfigServers = servers.filter((s) => !own.has(s.name));
+    } catch (e) {
+      console.error(`[mcp-ssh-pty] sshConfigInclude 已忽略: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
   private validateShortcuts(): void {
     if (!this.config) return;
     if (this.config.shortcuts) {
@@ -100,6 +127,11 @@ export class ConfigManager {
         validateShortcut("<local>", name, cfg);
       }
     }
+    for (const [tag, shortcuts] of Object.entries(this.config.tagShortcuts ?? {})) {
+      for (const [name, cfg] of Object.entries(shortcuts)) {
+        validateShortcut(`<tag:${tag}>`, name, cfg);
+      }
+    }
     for (const server of this.config.servers) {
       if (!server.shortcuts) continue;
       for (const [name, cfg] of Object.entries(server.shortcuts)) {
@@ -108,9 +140,38 @@ export class ConfigManager {
     }
   }
 
+  private validatePolicies(): void {
+    if (!this.config) return;
+    validatePolicy("<global>", this.config.policy);
+    for (const server of this.config.servers) {
+      validatePolicy(server.name, server.policy);
+    }
+  }
+
+  /**
+   * 配置里追加的只读白名单（readOnlyCommands）
+   */
+  getReadOnlyCommands(): string[] {
+    if (!this.config) this.load();
+    return this.config!.readOnlyCommands ?? [];
+  }
+
+  /**
+   * 某台服务器要过的策略层：全局 policy 在前，服务器自己的 policy 在后（local 只有全局）
+   */
+  getPolicyLayers(serverName: string): PolicyLayer[] {
+    if (!this.config) this.load();
+    const layers: PolicyLayer[] = [{ source: "global", policy: this.config!.policy }];
+    if (serverName !== "local") {
+      layers.push({ source: "server", policy: this.getServer(serverName)?.policy });
+    }
+    return layers;
+  }
+
   /**
    * 返回某台服务器最终生效的 shortcut 字典：
-   * 全局 shortcuts ∪ 该服务器自己的 shortcuts，同名时服务器级覆盖全局。
+   * 全局 shortcuts ∪ 它各个 tag 的 tagShortcuts ∪ 该服务器自己的 shortcuts，
+   * 同名时 tag 覆盖全局、服务器级覆盖 tag（多个 tag 同名按 tags 数组顺序，后者胜）。
    */
   getEffectiveShortcuts(serverName: string): Record<string, ShortcutConfig> {
     if (!this.config) this.load();
@@ -119,27 +180,60 @@ export class ConfigManager {
       const own = this.config!.localShortcuts ?? {};
       return { ...global, ...own };
     }
-    const server = this.config!.servers.find((s) => s.name === serverName);
+    const server = this.getServer(serverName);
     const own = server?.shortcuts ?? {};
-    return { ...global, ...own };
+    return { ...global, ...this.tagShortcutsFor(server), ...own };
   }
 
   /**
-   * 判断某条 shortcut 来自全局还是服务器级（用于 summarize 的 source 字段）
+   * 判断某条 shortcut 来自全局、tag 还是服务器级（用于 summarize 的 source 字段）
    */
-  getShortcutSource(serverName: string, shortcutName: string): "global" | "server" | null {
+  getShortcutSource(serverName: string, shortcutName: string): "global" | "tag" | "server" | null {
     if (!this.config) this.load();
     if (serverName === "local") {
       if (this.config!.localShortcuts && shortcutName in this.config!.localShortcuts) return "server";
       if (this.config!.shortcuts && shortcutName in this.config!.shortcuts) return "global";
       return null;
     }
-    const server = this.config!.servers.find((s) => s.name === serverName);
+    const server = this.getServer(serverName);
     if (server?.shortcuts && shortcutName in server.shortcuts) return "server";
+    if (shortcutName in this.tagShortcutsFor(server)) return "tag";
     if (this.config!.shortcuts && shortcutName in this.config!.shortcuts) return "global";
     return null;
   }
 
+  /**
+   * 某台服务器相关的所有 secret 明文：登录 / sudo 密码、私钥口令、TOTP 种子（含跳板链上的），
+   * 以及它生效的 shortcut 里的 secrets。审计日志用它把命令里意外出现的明文打码。
+   * secret 引用（secret: / env: / cmd:）本身不是明文，换成解析出来过的值。
+   */
+  getSecretValues(serverName: string): string[] {
+    const values = new Set<string>(this.secretResolver.knownValues());
+    const add = (v: string | undefined) => {
+      if (v && !isSecretRef(v)) values.add(v);
+    };
+    for (const sc of Object.values(this.getEffectiveShortcuts(serverName))) {
+      Object.values(sc.secrets ?? {}).forEach(add);
+    }
+    const server = serverName === "local" ? undefined : this.getServer(serverName);
+    if (server) {
+      [server.password, server.sudoPassword, server.passphrase, server.totpSecret].forEach(add);
+      let chain: ProxyJumpConfig[] = [];
+      try {
+        chain = this.resolveJumpChain(server);
+      } catch {
+        // 跳板引用写错了，连接时会报具体原因；这里只是少打几个码
+      }
+      for (const hop of chain) [hop.password, hop.passphrase, hop.totpSecret].forEach(add);
+    }
+    return [...values];
+  }
+
+  private tagShortcutsFor(server: ServerConfig | undefined): Record<string, ShortcutConfig> {
+    const byTag = this.config!.tagShortcuts ?? {};
+    return Object.assign({}, ...(server?.tags ?? []).map((t) => byTag[t] ?? {}));
+  }
+
   save(): void {
     // 确保目录存在
     const dir = dirname(this.configPath);
@@ -156,12 +250,153 @@ export class ConfigManager {
 
   getServer(name: string): ServerConfig | undefined {
     if (!this.config) this.load();
-    return this.config!.servers.find((s) => s.name === name);
+    return this.config!.servers.find((s) => s.name === name)
+      ?? this.sshConfigServers.find((s) => s.name === name);
   }
 
   listServers(): ServerConfig[] {
     if (!this.config) this.load();
-    return this.config!.servers;
+    return [...this.config!.servers, ...this.sshConfigServers];
+  }
+
+  /**
+   * 配置里出现过的所有 tag（去重，按首次出现顺序）
+   */
+  listTags(): string[] {
+    const tags = new Set<string>();
+    for (const s of this.listServers()) s.tags?.forEach((t) => tags.add(t));
+    return [...tags];
+  }
+
+  /**
+   * 配置顶层的 groups（组名 → 选择器数组）
+   */
+  getGroups(): Record<string, string[]> {
+    if (!this.config) this.load();
+    return this.config!.groups ?? {};
+  }
+
+  /**
+   * 该服务器是否来自 sshConfigInclude（而不是本配置文件）
+   */
+  isFromSshConfig(name: string): boolean {
+    if (!this.config) this.load();
+    return !this.config!.servers.some((s) => s.name === name)
+      && this.sshConfigServers.some((s) => s.name === name);
+  }
+
+  /**
+   * 把 proxyJump 展开成按顺序连接的跳板列表：名字引用换成那台服务器的连接参数，
+   * 被引用的服务器自己有 proxyJump 时递归展开并接在前面。没有跳板返回空数组。
+   */
+  resolveJumpChain(server: ServerConfig, visiting: string[] = []): ProxyJumpConfig[] {
+    if (!server.proxyJump) return [];
+    const hops = Array.isArray(server.proxyJump) ? server.proxyJump : [server.proxyJump];
+    const chain: ProxyJumpConfig[] = [];
+    const path = [...visiting, server.name];
+    for (const hop of hops) {
+      if (typeof hop !== "string") {
+        chain.push(hop);
+        continue;
+      }
+      if (path.includes(hop)) {
+        throw new Error(`proxyJump 循环引用: ${[...path, hop].join(" → ")}`);
+      }
+      const ref = this.getServer(hop);
+      if (!ref) {
+        throw new Error(`服务器 '${server.name}' 的 proxyJump 引用了不存在的服务器 '${hop}'`);
+      }
+      if (ref.proxy) {
+        throw new Error(`服务器 '${hop}' 走 SOCKS 代理，不能作为跳板`);
+      }
+      chain.push(...this.resolveJumpChain(ref, path));
+      chain.push({
+        host: ref.host,
+        port: ref.port,
+        username: ref.username,
+        password: ref.password,
+        privateKeyPath: ref.privateKeyPath,
+        passphrase: ref.passphrase,
+        agent: ref.agent,
+        totpSecret: ref.totpSecret,
+        otpCommand: ref.otpCommand,
+        hostKeyCheck: ref.hostKeyCheck,
+      });
+    }
+    return chain;
+  }
+
+  /**
+   * 解析一个可能是 secret 引用的字段值（secret: / env: / cmd:），不是引用原样返回
+   */
+  resolveSecret(value: string | undefined, field: string): Promise<string | undefined> {
+    return this.secretResolver.resolve(value, field);
+  }
+
+  /**
+   * sudo 密码：sudoPassword 优先，没有则回退到登录 password（secret 引用已解析）。local 和都没配时 password 为空
+   */
+  async resolveSudoPassword(serverName: string): Promise<{ password?: string; source?: "sudoPassword" | "password" }> {
+    const server = serverName === "local" ? undefined : this.getServer(serverName);
+    if (server?.sudoPassword) {
+      return { password: await this.resolveSecret(server.sudoPassword, `服务器 '${serverName}' 的 sudoPassword`), source: "sudoPassword" };
+    }
+    if (server?.password) {
+      return { password: await this.resolveSecret(server.password, `服务器 '${serverName}' 的 password`), source: "password" };
+    }
+    return {};
+  }
+
+  /**
+   * action:"sudo" 能不能返回密码明文：服务器的 revealSudoPassword 优先，其次全局，默认不能
+   */
+  canRevealSudoPassword(serverName: string): boolean {
+    if (!this.config) this.load();
+    return this.getServer(serverName)?.revealSudoPassword ?? this.config!.revealSudoPassword ?? false;
+  }
+
+  /**
+   * 连接用的服务器配置：proxyJump 已展开成内联跳板数组（SSHManager 不认名字引用），
+   * 密码类字段里的 secret 引用解析成明文。返回的是副本，this.config 里仍是引用，save() 不会写出明文。
+   */
+  async resolveForConnect(server: ServerConfig): Promise<ServerConfig> {
+    const owner = `服务器 '${server.name}'`;
+    const resolved: ServerConfig = {
+      ...server,
+      password: await this.resolveSecret(server.password, `${owner} 的 password`),
+      passphrase: await this.resolveSecret(server.passphrase, `${owner} 的 passphrase`),
+      sudoPassword: await this.resolveSecret(server.sudoPassword, `${owner} 的 sudoPassword`),
+      totpSecret: await this.resolveSecret(server.totpSecret, `${owner} 的 totpSecret`),
+    };
+    if (server.proxy) {
+      resolved.proxy = { ...server.proxy, password: await this.resolveSecret(server.proxy.password, `${owner} 的 proxy.password`) };
+    }
+    if (server.proxyJump) {
+      const chain: ProxyJumpConfig[] = [];
+      for (const hop of this.resolveJumpChain(server)) {
+        const label = `${owner} 的跳板 ${hop.username}@${hop.host}`;
+        chain.push({
+          ...hop,
+          password: await this.resolveSecret(hop.password, `${label} 的 password`),
+          passphrase: await this.resolveSecret(hop.passphrase, `${label} 的 passphrase`),
+          totpSecret: await this.resolveSecret(hop.totpSecret, `${label} 的 totpSecret`),
+        });
+      }
+      resolved.proxyJump = chain;
+    }
+    return resolved;
+  }
+
+  /**
+   * 执行用的 shortcut：secrets 里的引用解析成明文（副本，dryRun 渲染不需要走这里）
+   */
+  async resolveShortcutSecrets(name: string, cfg: ShortcutConfig): Promise<ShortcutConfig> {
+    if (!cfg.secrets) return cfg;
+    const secrets: Record<string, string> = {};
+    for (const [key, value] of Object.entries(cfg.secrets)) {
+      secrets[key] = (await this.resolveSecret(value, `shortcut '${name}' 的 secrets.${key}`))!;
+    }
+    return { ...cfg, secrets };
   }
 
   addServer(server: ServerConfig): void {
@@ -211,15 +446,18 @@ export class ConfigManager {
   }
 
   /**
-   * 某台服务器的指令性提示（服务器级 hints）
+   * 某台服务器的指令性提示：它各个 tag 的 tagHints 在前，服务器级 hints 在后
    */
   getServerHints(serverName: string): string[] | undefined {
     if (!this.config) this.load();
     if (serverName === "local") {
       return this.normalizeHints(this.config!.localHints);
     }
-    const s = this.config!.servers.find((s) => s.name === serverName);
-    return this.normalizeHints(s?.hints);
+    const s = this.getServer(serverName);
+    const byTag = this.config!.tagHints ?? {};
+    const tagHints = (s?.tags ?? []).flatMap((t) => this.normalizeHints(byTag[t]) ?? []);
+    const merged = [...tagHints, ...(this.normalizeHints(s?.hints) ?? [])];
+    return merged.length > 0 ? [...new Set(merged)] : undefined;
   }
 
   getConfigPath(): string {
@@ -1,4 +1,4 @@
-import { Client } from "ssh2";
+import { Client, ExecOptions as SSHExecOptions } from "ssh2";
 import { spawn, execFileSync } from "child_process";
 import { existsSync } from "fs";
 
@@ -15,6 +15,24 @@ export interface ExecResult {
   truncated: boolean;
   bytesStdout: number;
   bytesStderr: number;
+  /** 命令所在进程组（拿到了才有） */
+  pgid?: number;
+  /** 超时或被取消后是否确认整个进程组已被杀掉；undefined = 没尝试杀 */
+  killed?: boolean;
+  /** 被 ssh({action:"kill"}) 取消 */
+  cancelled?: boolean;
+}
+
+/**
+ * 一条正在跑的 exec。连接上登记着它，ssh({action:"kill"}) 靠它杀整个进程组。
+ */
+export interface RunningExec {
+  command: string;
+  startedAt: number;
+  /** 进程组 id；远端要等 launcher 报上来才有 */
+  pgid?: number;
+  /** 杀掉整个进程组（先 TERM，2 秒不退再 KILL），返回是否确认已经没了 */
+  kill(): Promise<boolean>;
 }
 
 export interface ExecOptions {
@@ -26,6 +44,17 @@ export interface ExecOptions {
   maxBytes?: number;
   /** 在哪个目录跑（exec 每次是全新 shell、cwd 不持久，用这个省掉 cd x && 前缀）。 */
   cwd?: string;
+  /** 仅远端：在这条 exec channel 上请求 agent 转发（连接需已配置 agent） */
+  agentForward?: boolean;
+  /**
+   * 仅远端：命令前加 launcher 报告进程组，超时 / kill 才杀得掉。
+   * 需要远端有 sh（windows 的 sshd 没有，要关掉）
+   */
+  trackProcessGroup?: boolean;
+  /** 命令开跑时回调，拿到的 RunningExec 用来登记 / 取消 */
+  onStart?: (running: RunningExec) => void;
+  /** 每来一块输出回调一次（不受 maxBytes 截断影响），进度通知用 */
+  onOutput?: (chunk: Buffer, stream: "stdout" | "stderr") => void;
 }
 
 /**
@@ -63,29 +92,72 @@ function enrichedPath(): string {
   return cachedPath;
 }
 
-const DEFAULT_TIMEOUT_MS = 30_000;
+export const DEFAULT_TIMEOUT_MS = 30_000;
 const DEFAULT_MAX_BYTES = 1024 * 1024;
 
+/** launcher 在 stderr 最前面报进程组用的标记行（\x1e 包住，正常输出里不会出现） */
+const PGID_MARK = "\x1eMORI_PGID ";
+/** kill 的后续 exec 最多等多久 */
+const KILL_TIMEOUT_MS = 10_000;
+
+/**
+ * 用一条新的 exec 杀掉远端整个进程组：先 TERM，2 秒不退再 KILL。
+ * sshd 给每个 session 的子进程 setsid，登录 shell 就是组长，pgid == 它的 pid。
+ * 返回进程组是否确认已经没了。
+ */
+async function killRemoteGroup(client: Client, pgid: number): Promise<boolean> {
+  const script = `g="$1"
+kill -TERM -"$g" 2>/dev/null || kill -TERM "$g" 2>/dev/null
+i=0; while { kill -0 -"$g" || kill -0 "$g"; } 2>/dev/null && [ $i -lt 20 ]; do sleep 0.1; i=$((i+1)); done
+if { kill -0 -"$g" || kill -0 "$g"; } 2>/dev/null; then kill -KILL -"$g" 2>/dev/null; kill -KILL "$g" 2>/dev/null; sleep 0.3; fi
+if { kill -0 -"$g" || kill -0 "$g"; } 2>/dev/null; then echo MORI_KILL_ALIVE; else echo MORI_KILL_GONE; fi
+`;
+  try {
+    const r = await runRemote(client, `sh -s -- ${pgid}`, { stdin: script, timeoutMs: KILL_TIMEOUT_MS });
+    return r.stdout.includes("MORI_KILL_GONE");
+  } catch {
+    return false;
+  }
+}
+
 /**
  * 通过 SSH exec 通道跑一条命令。**不复用** PTY 持久 shell，因此：
  * - 没有 bracketed-paste / 续行 prompt / sentinel 之类终端层面的污染
  * - cwd 和 env 是 sshd 默认值（通常是 $HOME），不继承 PTY shell 当前状态
  * - 命令字符串会被远端 login shell 解释（bash/zsh 的 -c），可以用引号、管道、重定向
+ *
+ * trackProcessGroup 时命令前面加一段 launcher，把登录 shell 的 pid（即进程组 id）报到 stderr 第一行，
+ * 这里剥掉它、记下来：超时或 action:"kill" 时再开一条 exec 杀整个进程组。
+ * 不能靠 stream.signal——OpenSSH 的 sshd 不实现 signal 请求，发了也是空操作。
  */
 export function execRemote(
   client: Client,
   command: string,
   options: ExecOptions = {}
+): Promise<ExecResult> {
+  return runRemote(client, command, options);
+}
+
+function runRemote(
+  client: Client,
+  command: string,
+  options: ExecOptions
 ): Promise<ExecResult> {
   const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
   const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
 
-  const runCommand = options.cwd
+  let runCommand = options.cwd
     ? `cd -- '${options.cwd.replace(/'/g, "'\\''")}' && ${command}`
     : command;
+  if (options.trackProcessGroup) {
+    // 用 sh -c 报 $PPID（= 登录 shell），而不是直接写 $$：fish 之类的登录 shell 不认 $$
+    runCommand = `sh -c 'printf "\\036MORI_PGID %s\\n" "$PPID" >&2'; ${runCommand}`;
+  }
 
   return new Promise<ExecResult>((resolve, reject) => {
-    client.exec(runCommand, (err, stream) => {
+    // @types/ssh2 没声明 agentForward，但 ssh2 运行时认它（lib/client.js 的 opts.agentForward）
+    const channelOpts = { agentForward: options.agentForward ?? false } as SSHExecOptions;
+    client.exec(runCommand, channelOpts, (err, stream) => {
       if (err) {
         reject(new Error(`exec 失败: ${err.message}`));
         return;
@@ -97,15 +169,58 @@ export function execRemote(
       let bytesStderr = 0;
       let truncated = false;
       let timedOut = false;
+      let cancelled = false;
+      let killing: Promise<boolean> | undefined;
       let settled = false;
+      /** 还在等 launcher 的标记行时先攒着 stderr */
+      let markPending = options.trackProcessGroup ?? false;
+      let markBuf = Buffer.alloc(0);
+
+      const killGroup = (): Promise<boolean> => {
+        if (running.pgid === undefined) return Promise.resolve(false);
+        killing ??= killRemoteGroup(client, running.pgid);
+        return killing;
+      };
+      const running: RunningExec = {
+        command,
+        startedAt: Date.now(),
+        kill: () => {
+          cancelled = true;
+          return killGroup();
+        },
+      };
+      options.onStart?.(running);
 
       const timer = setTimeout(() => {
         timedOut = true;
-        try { stream.signal("KILL"); } catch { /* 部分 sshd 不支持 signal，吃掉 */ }
-        try { stream.end(); } catch { /* */ }
+        if (running.pgid === undefined) {
+          // 没拿到进程组（没开 trackProcessGroup / launcher 没跑起来）：只能发 signal 碰运气，然后不再等
+          try { stream.signal("KILL"); } catch { /* 部分 sshd 不支持 signal，吃掉 */ }
+          try { stream.close(); } catch { /* */ }
+          return;
+        }
+        void killGroup().finally(() => {
+          // 杀掉了 channel 自己会关；没杀掉也不再等它
+          try { stream.close(); } catch { /* */ }
+        });
       }, timeoutMs);
 
+      const onStderr = (d: Buffer) => {
+        options.onOutput?.(d, "stderr");
+        bytesStderr += d.length;
+        if (stderr.length < maxBytes) {
+          stderr += d.toString("utf8");
+          if (stderr.length > maxBytes) {
+            stderr = stderr.slice(0, maxBytes);
+            truncated = true;
+          }
+        } else {
+          truncated = true;
+        }
+      };
+
       stream.on("data", (d: Buffer) => {
+        options.onOutput?.(d, "stdout");
         bytesStdout += d.length;
         if (stdout.length < maxBytes) {
           stdout += d.toString("utf8");
@@ -118,22 +233,31 @@ export function execRemote(
         }
       });
       stream.stderr.on("data", (d: Buffer) => {
-        bytesStderr += d.length;
-        if (stderr.length < maxBytes) {
-          stderr += d.toString("utf8");
-          if (stderr.length > maxBytes) {
-            stderr = stderr.slice(0, maxBytes);
-            truncated = true;
-          }
-        } else {
-          truncated = true;
+        if (!markPending) {
+          onStderr(d);
+          return;
+        }
+        markBuf = Buffer.concat([markBuf, d]);
+        const nl = markBuf.indexOf(0x0a);
+        if (nl < 0 && markBuf.length < 64) return;
+        markPending = false;
+        const head = markBuf.subarray(0, nl < 0 ? markBuf.length : nl).toString("utf8");
+        let rest = markBuf;
+        if (head.startsWith(PGID_MARK)) {
+          const pgid = Number(head.slice(PGID_MARK.length));
+          if (Number.isInteger(pgid) && pgid > 1) running.pgid = pgid;
+          rest = markBuf.subarray(nl + 1);
         }
+        if (rest.length) onStderr(rest);
       });
 
-      stream.on("close", (code: number | null, signal?: string) => {
+      stream.on("close", async (code: number | null, signal?: string) => {
         if (settled) return;
         settled = true;
         clearTimeout(timer);
+        if (markPending && markBuf.length) onStderr(markBuf);
+        // 正在杀进程组时等它确认完，结果里才有 killed
+        const killed = killing ? await killing : undefined;
         resolve({
           stdout,
           stderr,
@@ -143,6 +267,9 @@ export function execRemote(
           truncated,
           bytesStdout,
           bytesStderr,
+          pgid: running.pgid,
+          killed,
+          cancelled: cancelled || undefined,
         });
       });
 
@@ -200,6 +327,38 @@ function winShell(command: string): { shell: string; shellArgs: string[] } {
   };
 }
 
+/**
+ * 杀掉本机 exec 起的整棵进程：posix 杀进程组（先 TERM，2 秒不退再 KILL），windows 用 taskkill /T。
+ * 返回是否确认已经没了。
+ */
+async function killLocalTree(pid: number, exited: () => boolean): Promise<boolean> {
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+  if (process.platform === "win32") {
+    await new Promise<void>((resolve) => {
+      const tk = spawn("taskkill", ["/pid", String(pid), "/T", "/F"], { stdio: "ignore" });
+      tk.on("close", () => resolve());
+      tk.on("error", () => resolve());
+    });
+    for (let i = 0; i < 10 && !exited(); i++) await sleep(100);
+    return exited();
+  }
+  const groupAlive = () => {
+    try {
+      process.kill(-pid, 0);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+  try { process.kill(-pid, "SIGTERM"); } catch { /* 已经没了 */ }
+  for (let i = 0; i < 20 && groupAlive(); i++) await sleep(100);
+  if (groupAlive()) {
+    try { process.kill(-pid, "SIGKILL"); } catch { /* */ }
+    await sleep(300);
+  }
+  return !groupAlive();
+}
+
 export function execLocal(
   command: string,
   options: ExecOptions = {}
@@ -221,10 +380,12 @@ export function execLocal(
   return new Promise<ExecResult>((resolve, reject) => {
     let child;
     try {
+      // 非 windows 让子进程自成进程组（detached = setsid），超时 / kill 时连它起的子孙一起杀
       child = spawn(shell, shellArgs, {
         stdio: [hasStdin ? "pipe" : "ignore", "pipe", "pipe"],
         cwd: options.cwd,
         env: { ...process.env, PATH: enrichedPath() },
+        detached: !isWin,
       });
     } catch (e) {
       reject(e instanceof Error ? e : new Error(String(e)));
@@ -237,14 +398,34 @@ export function execLocal(
     let bytesStderr = 0;
     let truncated = false;
     let timedOut = false;
+    let cancelled = false;
+    let killing: Promise<boolean> | undefined;
     let settled = false;
+    let exited = false;
+
+    const pid = child.pid;
+    const killGroup = (): Promise<boolean> => {
+      if (pid === undefined) return Promise.resolve(false);
+      killing ??= killLocalTree(pid, () => exited);
+      return killing;
+    };
+    options.onStart?.({
+      command,
+      startedAt: Date.now(),
+      pgid: isWin ? undefined : pid,
+      kill: () => {
+        cancelled = true;
+        return killGroup();
+      },
+    });
 
     const timer = setTimeout(() => {
       timedOut = true;
-      try { child.kill("SIGKILL"); } catch { /* */ }
+      void killGroup();
     }, timeoutMs);
 
     child.stdout?.on("data", (d: Buffer) => {
+      options.onOutput?.(d, "stdout");
       bytesStdout += d.length;
       if (stdout.length < maxBytes) {
         stdout += d.toString("utf8");
@@ -257,6 +438,7 @@ export function execLocal(
       }
     });
     child.stderr?.on("data", (d: Buffer) => {
+      options.onOutput?.(d, "stderr");
       bytesStderr += d.length;
       if (stderr.length < maxBytes) {
         stderr += d.toString("utf8");
@@ -276,10 +458,16 @@ export function execLocal(
       reject(e);
     });
 
-    child.on("close", (code, signal) => {
+    child.on("exit", () => {
+      exited = true;
+    });
+
+    child.on("close", async (code, signal) => {
       if (settled) return;
       settled = true;
       clearTimeout(timer);
+      // 正在杀进程组时等它确认完，结果里才有 killed
+      const killed = killing ? await killing : undefined;
       resolve({
         stdout,
         stderr,
@@ -289,6 +477,9 @@ export function execLocal(
         truncated,
         bytesStdout,
         bytesStderr,
+        pgid: isWin ? undefined : pid,
+        killed,
+        cancelled: cancelled || undefined,
       });
     });
 
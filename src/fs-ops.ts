@@ -0,0 +1,88 @@
+import { SFTPWrapper } from "ssh2";
+import { join, posix as pathPosix } from "path";
+import { createReadStream, promises as fsp } from "fs";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+
+export type FileType = "file" | "dir" | "symlink" | "other";
+
+export interface FsAttrs {
+  mode: number;
+  size: number;
+  mtimeMs: number;
+}
+
+/**
+ * list / stat / mkdir / remove / rename / chmod / sync 在两端的统一实现：远端走 SFTP 通道，local 走 fs
+ */
+export interface FsOps {
+  join(...parts: string[]): string;
+  stat(p: string): Promise<FsAttrs>;
+  lstat(p: string): Promise<FsAttrs>;
+  readdir(p: string): Promise<string[]>;
+  readlink(p: string): Promise<string>;
+  mkdir(p: string, mode?: number): Promise<void>;
+  rmdir(p: string): Promise<void>;
+  unlink(p: string): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  chmod(p: string, mode: number): Promise<void>;
+  /** 改修改时间（毫秒），sync 传完后对齐源文件的 mtime */
+  utimes(p: string, mtimeMs: number): Promise<void>;
+  /** 流式算 sha256（hex），不整个读进内存 */
+  sha256(p: string): Promise<string>;
+}
+
+function hashStream(stream: Readable): Promise<string> {
+  return new Promise((res, rej) => {
+    const hash = createHash("sha256");
+    stream.on("data", (chunk: Buffer) => hash.update(chunk));
+    stream.on("error", rej);
+    stream.on("end", () => res(hash.digest("hex")));
+  });
+}
+
+export function sftpOps(sftp: SFTPWrapper): FsOps {
+  const call = <T>(fn: (cb: (err: Error | null | undefined, value?: T) => void) => void) =>
+    new Promise<T>((res, rej) => fn((err, value) => (err ? rej(err) : res(value as T))));
+  const attrs = (st: { mode: number; size: number; mtime: number }): FsAttrs => ({ mode: st.mode, size: st.size, mtimeMs: st.mtime * 1000 });
+  return {
+    join: (...parts) => pathPosix.join(...parts),
+    stat: async (p) => attrs(await call((cb) => sftp.stat(p, cb))),
+    lstat: async (p) => attrs(await call((cb) => sftp.lstat(p, cb))),
+    readdir: async (p) => (await call<Array<{ filename: string }>>((cb) => sftp.readdir(p, cb))).map((e) => e.filename),
+    readlink: (p) => call((cb) => sftp.readlink(p, cb)),
+    mkdir: (p, mode) => call((cb) => sftp.mkdir(p, mode === undefined ? {} : { mode }, cb)),
+    rmdir: (p) => call((cb) => sftp.rmdir(p, cb)),
+    unlink: (p) => call((cb) => sftp.unlink(p, cb)),
+    rename: (from, to) => call((cb) => sftp.rename(from, to, cb)),
+    chmod: (p, mode) => call((cb) => sftp.chmod(p, mode, cb)),
+    utimes: (p, mtimeMs) => call((cb) => sftp.utimes(p, mtimeMs / 1000, mtimeMs / 1000, cb)),
+    sha256: (p) => hashStream(sftp.createReadStream(p)),
+  };
+}
+
+export const localOps: FsOps = {
+  join: (...parts) => join(...parts),
+  stat: (p) => fsp.stat(p),
+  lstat: (p) => fsp.lstat(p),
+  readdir: (p) => fsp.readdir(p),
+  readlink: (p) => fsp.readlink(p),
+  mkdir: async (p, mode) => {
+    await fsp.mkdir(p, { mode });
+  },
+  rmdir: (p) => fsp.rmdir(p),
+  unlink: (p) => fsp.unlink(p),
+  rename: (from, to) => fsp.rename(from, to),
+  chmod: (p, mode) => fsp.chmod(p, mode),
+  utimes: (p, mtimeMs) => fsp.utimes(p, mtimeMs / 1000, mtimeMs / 1000),
+  sha256: (p) => hashStream(createReadStream(p)),
+};
+
+export function fileType(mode: number): FileType {
+  switch (mode & 0o170000) {
+    case 0o040000: return "dir";
+    case 0o100000: return "file";
+    case 0o120000: return "symlink";
+    default: return "other";
+  }
+}
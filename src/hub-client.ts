@@ -1,9 +1,10 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { CallToolResult, Progress } from "@modelcontextprotocol/sdk/types.js";
 import { HubNode } from "./hub-config.js";
 import { buildDirectServer } from "./server-factory.js";
+import { HUB_CLIENT_NAME } from "./tool-schemas.js";
 
 interface Conn {
   client: Client;
@@ -75,7 +76,7 @@ export class HubClientManager {
   }
 
   private async open(node: HubNode): Promise<Conn> {
-    const client = new Client({ name: "ssh-hub", version: "0" }, { capabilities: {} });
+    const client = new Client({ name: HUB_CLIENT_NAME, version: "0" }, { capabilities: {} });
 
     if (node.local) {
       // in-process：把一份直连 server 用内存管道接给 client
@@ -124,6 +125,7 @@ export class HubClientManager {
   /**
    * 调用某 node 上的工具（ssh / sftp）。
    * - timeoutMs：client 请求超时；不传则按转发命令的 timeout 参数放大（长命令不被默认 60s 误杀）
+   * - onprogress：给了就向下游请求进度通知（exec 跑着时的输出尾巴），每条回调一次
    * - 建连阶段失败 → drop 重连一次（命令还没发出，安全）
    * - 命令已发出后失败：只有「连接断了」才重连重发；超时 / 业务错误直接抛，避免命令重复执行
    */
@@ -131,9 +133,10 @@ export class HubClientManager {
     name: string,
     toolName: string,
     args: Record<string, unknown>,
-    opts?: { timeoutMs?: number }
+    opts?: { timeoutMs?: number; onprogress?: (progress: Progress) => void }
   ): Promise<CallToolResult> {
     const timeout = opts?.timeoutMs ?? callTimeoutFor(args);
+    const requestOpts = { timeout, onprogress: opts?.onprogress };
 
     let conn: Conn;
     try {
@@ -145,13 +148,13 @@ export class HubClientManager {
     }
 
     try {
-      return (await conn.client.callTool({ name: toolName, arguments: args }, undefined, { timeout })) as CallToolResult;
+      return (await conn.client.callTool({ name: toolName, arguments: args }, undefined, requestOpts)) as CallToolResult;
     } catch (callErr) {
       if (!isConnectionError(callErr)) throw callErr;
       // 连接在请求途中断了：重连重发一次
       this.drop(name);
       const conn2 = await this.getConn(name);
-      return (await conn2.client.callTool({ name: toolName, arguments: args }, undefined, { timeout })) as CallToolResult;
+      return (await conn2.client.callTool({ name: toolName, arguments: args }, undefined, requestOpts)) as CallToolResult;
     }
   }
 
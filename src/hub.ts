@@ -1,9 +1,12 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { createHash } from "crypto";
 import { z } from "zod";
 import { HubClientManager } from "./hub-client.js";
 import { probeTcp } from "./net-probe.js";
 import { SSH_INPUT_SHAPE, SFTP_INPUT_SHAPE } from "./tool-schemas.js";
+import { forwardProgress } from "./progress.js";
+import { RELAY_CHUNK_MAX } from "./sftp-transfer.js";
 
 function textResult(obj: unknown, isError = false): CallToolResult {
   const text = typeof obj === "string" ? obj : JSON.stringify(obj, null, 2);
@@ -20,6 +23,9 @@ function firstText(result: CallToolResult): string | undefined {
 /** GET /health 的等待上限：daemon 卡死时别把整个 list 拖住 */
 const HEALTH_TIMEOUT_MS = 2500;
 
+/** 同 node 内的 transfer 整个文件一次调用传完，默认 60s 的请求超时不够大文件用 */
+const TRANSFER_TIMEOUT_MS = 60 * 60 * 1000;
+
 /** probeNode 的结果：online 之外，顺带带回 /health 报的版本和会话数 */
 interface NodeHealth {
   online: boolean | undefined;
@@ -133,6 +139,108 @@ export function buildHubServer(mgr: HubClientManager, version: string): McpServe
     return textResult({ nodes: entries, currentNode: state.currentNode });
   }
 
+  /**
+   * 跨 node 的 transfer：两台 daemon 之间没有直连，由 hub 按块中转——源 node 读一块（base64），
+   * 目标 node 写进 .part，hub 边转边算 sha256；转完让源 node 报一次整个文件的 sha256，
+   * 和转发的对上了才让目标 node 校验后改名。
+   * 数据只过 hub 内存；每块两次往返，速度受两段隧道的延迟限制
+   */
+  async function relayBetweenNodes(
+    fromNode: string,
+    toNode: string,
+    args: Record<string, unknown>,
+    onProgress: ReturnType<typeof forwardProgress>
+  ): Promise<CallToolResult> {
+    const { fromServer, fromPath, toServer, toPath } = args as Record<string, string | undefined>;
+    if (!fromServer || !fromPath || !toServer || !toPath) {
+      return textResult("transfer 需要 fromServer / fromPath / toServer / toPath 四个参数", true);
+    }
+    const from = `${fromNode}/${fromServer}:${fromPath}`;
+    const to = `${toNode}/${toServer}:${toPath}`;
+    const hash = createHash("sha256");
+    const started = Date.now();
+    let offset = 0;
+    let size: number | undefined;
+    try {
+      do {
+        const r = await mgr.callTool(fromNode, "sftp_relay", {
+          relay: "read",
+          fromServer,
+          fromPath,
+          offset,
+          length: RELAY_CHUNK_MAX,
+        });
+        if (r.isError) return textResult(`读 ${from} 失败：${firstText(r) ?? ""}`, true);
+        const chunk = JSON.parse(firstText(r) ?? "{}") as { size: number; bytes: number; data: string };
+        size ??= chunk.size;
+        if (chunk.size !== size || (chunk.bytes === 0 && offset < size)) {
+          return textResult(`源文件 ${from} 在传输过程中变了（${size} → ${chunk.size} 字节），已中止`, true);
+        }
+        const w = await mgr.callTool(toNode, "sftp_relay", {
+          relay: "write",
+          toServer,
+          toPath,
+          offset,
+          data: chunk.data,
+        });
+        if (w.isError) return textResult(`写 ${to} 失败：${firstText(w) ?? ""}`, true);
+        hash.update(Buffer.from(chunk.data, "base64"));
+        offset += chunk.bytes;
+        onProgress?.({
+          progress: offset,
+          total: size,
+          message: `${(offset / 1024 / 1024).toFixed(1)}M / ${(size / 1024 / 1024).toFixed(1)}M`,
+        });
+      } while (offset < size);
+    } catch (e) {
+      return textResult(`跨 node 中转失败（${from} → ${to}）：${e instanceof Error ? e.message : String(e)}`, true);
+    }
+
+    const sha256 = hash.digest("hex");
+    // 只比转发的字节看不出源文件在两次读之间被改过（大小没变时），提交前让源端自己算一遍
+    try {
+      const h = await mgr.callTool(fromNode, "sftp_relay", {
+        relay: "hash",
+        fromServer,
+        fromPath,
+      }, { timeoutMs: 330_000 });
+      if (h.isError) return textResult(`算 ${from} 的 sha256 失败：${firstText(h) ?? ""}`, true);
+      const source = JSON.parse(firstText(h) ?? "{}") as { size: number; sha256: string };
+      if (source.size !== size || source.sha256 !== sha256) {
+        return textResult(
+          `源文件 ${from} 在传输过程中变了（现在 ${source.size} 字节、sha256 ${source.sha256}，转发的是 ${size} 字节、sha256 ${sha256}），已中止，目标没有改名`,
+          true
+        );
+      }
+    } catch (e) {
+      return textResult(`算 ${from} 的 sha256 失败：${e instanceof Error ? e.message : String(e)}`, true);
+    }
+    const seconds = (Date.now() - started) / 1000;
+    try {
+      const c = await mgr.callTool(toNode, "sftp_relay", {
+        relay: "commit",
+        toServer,
+        toPath,
+        sha256,
+        fromServer: `${fromNode}/${fromServer}`,
+        fromPath,
+      }, { timeoutMs: 330_000 });
+      if (c.isError) return textResult(`${to} 校验 / 改名失败：${firstText(c) ?? ""}`, true);
+    } catch (e) {
+      return textResult(`${to} 校验 / 改名失败：${e instanceof Error ? e.message : String(e)}`, true);
+    }
+    return textResult({
+      action: "transfer",
+      from,
+      to,
+      bytes: size,
+      sha256,
+      seconds: Number(seconds.toFixed(2)),
+      mbPerSecond: Number((offset / 1024 / 1024 / Math.max(seconds, 0.001)).toFixed(2)),
+      relayedBy: "hub",
+    });
+  }
+
   server.registerTool(
     "ssh",
     {
@@ -147,14 +255,14 @@ export function buildHubServer(mgr: HubClientManager, version: string): McpServe
 - ssh({command:"..."})                           在当前 node 的当前连接上执行
 - ssh({node:"mac1", action:"connect", server:"0.2"})    连 mac1 背后的内网机（mac1 一跳）
 
-其余 action / command / shortcut / read / signal / timeout / stdin / mode 等语义与单机 ssh 工具完全一致，原样转发到目标 node 的 daemon。多台 mac 的连接互相独立、可同时活着；切 node 不影响其它 node 上正在跑的东西（长任务一律用 tmux 起，写法见 command 参数描述里的「长任务」一节）。
+其余 action / command / shortcut / read / signal / timeout / stdin / mode 等语义与单机 ssh 工具完全一致，原样转发到目标 node 的 daemon。多台 mac 的连接互相独立、可同时活着；切 node 不影响其它 node 上正在跑的东西（长任务一律用 mode:"detach" 起，之后 action:"jobs" 查，见 command 参数描述里的「长任务」一节）。action:"history" 查的是目标 node 那台 daemon 的审计日志。
 
 命令默认走 exec 通道（无头、一发一收、直接拿 exitCode、输出无需清洗、绝不会卡死 session）。只有交互式 REPL / TUI / tail -f + Ctrl-C / 需保留 cwd 的多步操作才用 mode:"pty"。
 
 🚫 仅 mode:"pty" 的铁律：pty 模式下 command 绝不内联 heredoc（<<EOF）、绝不留未闭合的引号/反斜杠/行尾管道——会让 shell 卡在 heredoc>/quote> 续行符上、sentinel 被当正文吞掉→整条 session 报废。多行内容：① 写文件 → sftp({action:"write"})；② 喂 stdin（python3 - / kubectl apply -f - / psql / jq）→ stdin 参数（默认就是 exec 通道）；③ 非要内联 → 单行 printf。万一已卡在 heredoc>/quote> → 先 signal:"RESET"，救不回来再 action:"reset_shell"。`,
       inputSchema: { node: nodeParam, ...SSH_INPUT_SHAPE },
     },
-    async (rawArgs): Promise<CallToolResult> => {
+    async (rawArgs, extra): Promise<CallToolResult> => {
       try {
         const { node, ...rest } = rawArgs as { node?: string } & Record<string, unknown>;
         if (typeof node === "string" && node) state.currentNode = node;
@@ -178,7 +286,8 @@ export function buildHubServer(mgr: HubClientManager, version: string): McpServe
         }
 
         try {
-          return await mgr.callTool(target, "ssh", rest);
+          // 下游 exec 的进度通知原样转给 hub 的客户端（客户端没要就不请求）
+          return await mgr.callTool(target, "ssh", rest, { onprogress: forwardProgress(extra) });
         } catch (e) {
           const msg = e instanceof Error ? e.message : String(e);
           return textResult(
@@ -204,8 +313,8 @@ export function buildHubServer(mgr: HubClientManager, version: string): McpServe
 ## 四个操作
 - upload:   localPath(daemon 机) → remotePath(该 node 当前 SSH 连着的 server)。二进制安全、无大小上限、不过 Claude 上下文。
 - download: remotePath(当前连着的 server) → localPath(daemon 机)。同上。
-- write:    把内联文本写到 path；按当前连接自动判断落在 daemon 本机(server=local)还是它连着的远端。
-- read:     读 path 文本；判断同 write。
+- write:    把内联内容写到 path；按当前连接自动判断落在 daemon 本机(server=local)还是它连着的远端。
+- read:     读 path；判断同 write。大日志用 tail:N（最后 N 行）或 offset / length（某一段字节）。
 
 ## upload/download 前必须先"连对端"
 upload/download 传的是「daemon 机 ↔ 该 node **当前连着的** SSH server」之间。所以先用 ssh connect 把该 node 连到对端，再传：
@@ -215,27 +324,57 @@ upload/download 传的是「daemon 机 ↔ 该 node **当前连着的** SSH serv
 - ❗连着 local（daemon 本机自己）时 upload/download 会被拒——同机文件操作用 write/read 或 ssh 的 cp/mv。
   vps 节点本身也是 local 连接，同样只有 write/read，没有 upload/download。
 
-## write/read 只搬文本
-utf8 文本、read 默认 1MB 上限、内容要过 Claude 上下文。适合小脚本/配置/SQL/yaml 落盘、跨机搬**小文本**。
-二进制 / 大文件：一律走 upload/download（按上面"先连对端"的方式），别用 read→write 搬（会被 utf8 往返搞坏、被 1MB 截断）。`,
+## transfer：两台服务器之间直接传
+sftp({action:"transfer", fromServer:"db1", fromPath:"/backup/db.sql.gz", toServer:"db2", toPath:"/restore/db.sql.gz"})
+同一个 node 背后的两台：在该 node 的 daemon 里两条 SFTP 通道直接对传（带 node 或沿用当前 node）。
+跨 node：带 fromNode / toNode（如 mac1 的 db1 → mac2 的 local），由 hub 按 1MB 一块中转，不落任何一端 daemon 的盘，
+传完源端再算一遍整个文件的 sha256，和 hub 边转边算的一致、目标端也校验通过后才改名成目标文件。两端都不用先 connect，也不改任何 node 的当前连接。
+
+## write/read 搬小内容
+默认 utf8 文本、read 默认 1MB 上限、内容要过 Claude 上下文。适合小脚本/配置/SQL/yaml 落盘、跨机搬**小文件**。
+小的二进制两边都带 encoding:"base64"（默认的 utf8 往返会把它搞坏）。
+大文件：一律走 upload/download（按上面"先连对端"的方式）或 transfer，别用 read→write 搬（会被 1MB 截断）。`,
       inputSchema: {
         node: z
           .string()
           .optional()
           .describe("目标 mac node 名；不传用当前 node。传了会把当前 node 切到它（影响之后不带 node 的 ssh/sftp）"),
+        fromNode: z.string().optional().describe("transfer 跨 node 时源服务器所在的 node（不传用当前 node）"),
+        toNode: z.string().optional().describe("transfer 跨 node 时目标服务器所在的 node（不传用当前 node）"),
         ...SFTP_INPUT_SHAPE,
       },
     },
-    async (rawArgs): Promise<CallToolResult> => {
+    async (rawArgs, extra): Promise<CallToolResult> => {
       try {
-        const { node, ...rest } = rawArgs as { node?: string } & Record<string, unknown>;
+        const { node, fromNode, toNode, ...rest } = rawArgs as { node?: string; fromNode?: string; toNode?: string } & Record<string, unknown>;
         if (typeof node === "string" && node) state.currentNode = node;
+
+        if (rest.action === "transfer" && (fromNode || toNode)) {
+          const src = fromNode || state.currentNode;
+          const dst = toNode || state.currentNode;
+          if (!src || !dst) {
+            return textResult("transfer 的 fromNode / toNode 缺一个、又没有当前 node：两个都带上", true);
+          }
+          const unknown = [src, dst].filter((n) => !mgr.getNode(n));
+          if (unknown.length) {
+            return textResult(`未知 node: ${unknown.join(", ")}（ssh({action:'list'}) 看可用 node）`, true);
+          }
+          if (src !== dst) return await relayBetweenNodes(src, dst, rest, forwardProgress(extra));
+          // 同一个 node：交给它自己的 daemon 直传
+          try {
+            return await mgr.callTool(src, "sftp", rest, { timeoutMs: TRANSFER_TIMEOUT_MS, onprogress: forwardProgress(extra) });
+          } catch (e) {
+            const msg = e instanceof Error ? e.message : String(e);
+            return textResult(`node '${src}' sftp 失败：${msg}`, true);
+          }
+        }
+
         const target = state.currentNode;
         if (!target) {
           return textResult("还没选机器，先用 ssh({node:'mac1', action:'connect', ...}) 连一个 node。", true);
         }
         try {
-          return await mgr.callTool(target, "sftp", rest);
+          return await mgr.callTool(target, "sftp", rest, { onprogress: forwardProgress(extra) });
         } catch (e) {
           const msg = e instanceof Error ? e.message : String(e);
           return textResult(`node '${target}' sftp 失败：${msg}`, true);
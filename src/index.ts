@@ -29,7 +29,7 @@ const PKG_VERSION: string = (() => {
 })();
 
 // CLI 命令列表
-const CLI_COMMANDS = ["list", "add", "remove", "rm", "test", "config", "help", "--help", "-h", "--version", "-v"];
+const CLI_COMMANDS = ["list", "add", "remove", "rm", "test", "trust", "forget", "import-ssh-config", "audit", "secret", "config", "help", "--help", "-h", "--version", "-v"];
 
 interface HttpOptions {
   port: number;
@@ -97,7 +97,7 @@ async function startStdioServer(): Promise<void> {
   await server.connect(transport);
 
   const cleanup = async () => {
-    await sshManager.disconnect();
+    await sshManager.disconnectAll();
     process.exit(0);
   };
   process.on("SIGINT", cleanup);
@@ -321,7 +321,7 @@ async function startHttpServer(opts: HttpOptions): Promise<void> {
     defaultIdleMs: 30 * 60 * 1000,
     makeServer: () => {
       const { server, sshManager } = buildServer();
-      return { server, close: () => sshManager.disconnect() };
+      return { server, close: () => sshManager.disconnectAll() };
     },
   });
 }
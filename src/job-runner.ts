@@ -0,0 +1,338 @@
+import { ExecResult } from "./exec-runner.js";
+
+/**
+ * detach 任务（mode:"detach" / action:"jobs"）的目标机侧实现。
+ *
+ * 所有状态都在目标机 ~/.mori/jobs/ 下，daemon / hub 重启不丢任何东西：
+ *   <name>.cmd     用户命令原样（bash 跑它，命令里的 exit 也拿得到 rc）
+ *   <name>.sh      包装脚本：记 pid/pgid → 跑 .cmd → 写 .status
+ *   <name>.meta    runner / 起始时间 / cwd
+ *   <name>.pid     "<pid> <pgid>"，判存活和 kill 整个进程组用
+ *   <name>.log     stdout + stderr 合并
+ *   <name>.status  结束后才出现：rc=0 end=... 或 killed end=...
+ *
+ * 起任务优先 tmux（能 attach 看），没有就 systemd-run --user，再没有就 setsid。
+ * 三者都让任务脱离 daemon 的进程组，daemon 被重启时不会被连坐杀掉（nohup / disown 挡不住）。
+ * 控制脚本一律以 `sh -s` 从 stdin 喂进去，不拼引号、不受远端登录 shell（zsh/fish）影响。
+ */
+
+/** 跑一段控制脚本：command 是 sh -s 命令行，stdin 是脚本正文 */
+export type JobExec = (command: string, stdin: string, timeoutMs: number) => Promise<ExecResult>;
+
+export type JobState = "running" | "done" | "failed" | "killed" | "unknown";
+
+export interface JobInfo {
+  name: string;
+  state: JobState;
+  /** 退出码（done / failed 才有） */
+  rc?: number;
+  runner: string;
+  /** 起始时间（unix 秒） */
+  startedAt?: number;
+  /** 结束时间（ISO，UTC） */
+  endedAt?: string;
+  logBytes: number;
+  cwd: string;
+  /** 命令第一行（最多 100 字符） */
+  command: string;
+}
+
+export interface JobListResult {
+  jobs: JobInfo[];
+  /** ~/.mori/jobs 里一共有多少个 job（列表只取最近 limit 个） */
+  total: number;
+  /** ~/.mori/jobs 占用（KB） */
+  diskKb: number;
+}
+
+const NAME_RE = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+const CONTROL_TIMEOUT_MS = 30_000;
+/** wait 最多等多久（秒），与 exec timeout 上限一致 */
+export const JOB_WAIT_MAX_SECONDS = 300;
+export const JOB_LIST_LIMIT = 20;
+
+function shQuote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * 所有控制脚本共用的函数：
+ * - job_alive：没有 .status、记下的 pid 还活着、且那个 pid 确实是这个 job 的包装脚本（防 pid 复用）
+ * - job_record：一行 TSV，TS 侧解析
+ */
+const PRELUDE = `D="$HOME/.mori/jobs"
+job_alive() {
+  [ -f "$D/$1.status" ] && return 1
+  p=$(cut -d' ' -f1 "$D/$1.pid" 2>/dev/null)
+  [ -n "$p" ] && kill -0 "$p" 2>/dev/null && ps -p "$p" -o args= 2>/dev/null | grep -q "/$1.sh"
+}
+job_record() {
+  f="$D/$1"
+  if job_alive "$1"; then a=1; else a=0; fi
+  st=$(cat "$f.status" 2>/dev/null)
+  start=$(sed -n 's/^start=//p' "$f.meta" 2>/dev/null)
+  runner=$(sed -n 's/^runner=//p' "$f.meta" 2>/dev/null)
+  cwd=$(sed -n 's/^cwd=//p' "$f.meta" 2>/dev/null)
+  size=$(wc -c < "$f.log" 2>/dev/null | tr -d ' ')
+  cmd=$(head -n 1 "$f.cmd" 2>/dev/null | tr '\\t' ' ' | cut -c1-100)
+  printf 'MORI_JOB\\t%s\\t%s\\t%s\\t%s\\t%s\\t%s\\t%s\\t%s\\n' "$1" "$a" "$st" "$start" "$runner" "$size" "$cwd" "$cmd"
+}
+`;
+
+/** 从命令推一个 job 名前缀：首词（去路径）+ 第二个词（是普通单词时），如 "npm test" → npm-test */
+function baseNameFor(command: string): string {
+  const words = command.trim().split(/\s+/);
+  const parts = [words[0]?.split("/").pop() ?? ""];
+  if (words[1] && /^[A-Za-z][A-Za-z0-9_-]*$/.test(words[1])) parts.push(words[1]);
+  const base = parts.join("-").replace(/[^A-Za-z0-9_-]/g, "").slice(0, 24);
+  return /^[A-Za-z0-9]/.test(base) ? base : "job";
+}
+
+function parseRecord(line: string): JobInfo | null {
+  const f = line.split("\t");
+  if (f[0] !== "MORI_JOB" || f.length < 9) return null;
+  const [, name, alive, status, start, runner, size, cwd, ...rest] = f;
+  const info: JobInfo = {
+    name,
+    state: "unknown",
+    runner: runner || "?",
+    startedAt: start ? Number(start) : undefined,
+    logBytes: Number(size) || 0,
+    cwd,
+    command: rest.join("\t"),
+  };
+  const end = /end=(\S+)/.exec(status)?.[1];
+  if (end) info.endedAt = end;
+  const rc = /rc=(\d+)/.exec(status);
+  if (status.startsWith("killed")) {
+    info.state = "killed";
+  } else if (rc) {
+    info.rc = Number(rc[1]);
+    info.state = info.rc === 0 ? "done" : "failed";
+  } else if (alive === "1") {
+    info.state = "running";
+  }
+  return info;
+}
+
+/**
+ * 目标机上的 detach 任务：起、列、看日志、等、杀。
+ * 本身不存任何状态——每个方法都是一次 exec 打到目标机读写 ~/.mori/jobs。
+ */
+export class JobRunner {
+  constructor(private exec: JobExec) {}
+
+  static validateName(name: string): void {
+    if (!NAME_RE.test(name)) {
+      throw new Error(`job 名 '${name}' 不合法：只能用字母、数字、- 和 _，以字母或数字开头，不超过 64 个字符`);
+    }
+  }
+
+  private async run(args: string[], script: string, timeoutMs = CONTROL_TIMEOUT_MS): Promise<string[]> {
+    const cmd = `sh -s -- ${args.map(shQuote).join(" ")}`;
+    const result = await this.exec(cmd, PRELUDE + script, timeoutMs);
+    if (result.timedOut) {
+      throw new Error("job 控制脚本超时（目标机响应太慢）");
+    }
+    const lines = result.stdout.split("\n");
+    if (!lines.some((l) => l.startsWith("MORI_JOB"))) {
+      const detail = (result.stderr || result.stdout).trim().slice(-500);
+      throw new Error(
+        `目标机跑不了 job 控制脚本（需要 /bin/sh；windows 不支持 detach，改用任务计划 / Start-Process）` +
+        (detail ? `：${detail}` : "")
+      );
+    }
+    return lines;
+  }
+
+  /**
+   * 起一个 detach 任务，立即返回实际用的名字和 runner。
+   * 同名任务还在跑时报错（绝不覆盖）；同名但已结束时旧日志归档成 <name>.log.1 后复用名字。
+   */
+  async start(command: string, options: { name?: string; cwd?: string } = {}): Promise<{ name: string; runner: string }> {
+    if (options.name) JobRunner.validateName(options.name);
+    // 用户命令和包装脚本用带随机后缀的 quoted heredoc 落盘：正文原样、不做任何展开
+    const eof = `MORI_JOB_EOF_${Math.random().toString(36).slice(2, 10)}`;
+    const cd = options.cwd ? `cd -- ${shQuote(options.cwd)}` : `cd`;
+    const wrapper = [
+      // 目录取脚本自己所在处，不靠 $HOME：tmux server / systemd --user 的环境未必和这次登录一致
+      `D=$(cd "$(dirname "$0")" && pwd); N="$1"`,
+      `echo "$$ $(ps -o pgid= -p $$ | tr -d ' ')" > "$D/$N.pid"`,
+      `JOB_SH=$(command -v bash || echo /bin/sh)`,
+      `( ${cd} && exec "$JOB_SH" "$D/$N.cmd" ) > "$D/$N.log" 2>&1 < /dev/null`,
+      `rc=$?`,
+      `[ -f "$D/$N.status" ] || echo "rc=$rc end=$(date -u +%Y-%m-%dT%H:%M:%SZ)" > "$D/$N.status"`,
+    ].join("\n");
+    const script = `mkdir -p "$D" || exit 1
+N="$1"
+if [ -z "$N" ]; then
+  n=1; while [ -e "$D/$2-$n.meta" ]; do n=$((n+1)); done; N="$2-$n"
+fi
+if job_alive "$N"; then echo "MORI_JOB_BUSY $N"; exit 3; fi
+[ -f "$D/$N.log" ] && mv -f "$D/$N.log" "$D/$N.log.1"
+rm -f "$D/$N.status" "$D/$N.pid"
+cat > "$D/$N.cmd" <<'${eof}'
+${command}
+${eof}
+cat > "$D/$N.sh" <<'${eof}'
+${wrapper}
+${eof}
+if command -v tmux >/dev/null 2>&1 && tmux new-session -d -s "mcp-$N" "sh '$D/$N.sh' '$N'" 2>/dev/null; then R=tmux
+elif command -v systemd-run >/dev/null 2>&1 && systemd-run --user --quiet --collect --unit="mcp-job-$N" /bin/sh "$D/$N.sh" "$N" >/dev/null 2>&1; then R=systemd
+elif command -v setsid >/dev/null 2>&1; then setsid sh "$D/$N.sh" "$N" </dev/null >/dev/null 2>&1 & R=setsid
+else echo "MORI_JOB_NORUNNER"; exit 4; fi
+printf 'runner=%s\\nstart=%s\\ncwd=%s\\n' "$R" "$(date +%s)" ${shQuote(options.cwd ?? "~")} > "$D/$N.meta"
+i=0; while [ ! -s "$D/$N.pid" ] && [ $i -lt 20 ]; do sleep 0.1; i=$((i+1)); done
+echo "MORI_JOB_STARTED $N $R"
+`;
+    const lines = await this.run([options.name ?? "", baseNameFor(command)], script);
+    for (const line of lines) {
+      const [tag, name, runner] = line.split(" ");
+      if (tag === "MORI_JOB_STARTED") return { name, runner };
+      if (tag === "MORI_JOB_BUSY") {
+        throw new Error(`job '${name}' 还在跑，不会覆盖。换个 name，或先 ssh({action:"jobs", jobOp:"kill", name:"${name}"})`);
+      }
+      if (tag === "MORI_JOB_NORUNNER") {
+        throw new Error("目标机没有 tmux / systemd-run / setsid，起不了 detach 任务（不会退回 nohup：那样活不过 daemon 重启）");
+      }
+    }
+    throw new Error("起 job 失败：目标机没有返回结果");
+  }
+
+  /**
+   * 最近 limit 个 job（按 .meta 修改时间，新 → 旧）
+   */
+  async list(limit = JOB_LIST_LIMIT): Promise<JobListResult> {
+    const script = `[ -d "$D" ] || { echo "MORI_JOB_TOTAL 0 0"; exit 0; }
+echo "MORI_JOB_TOTAL $(ls "$D" | grep -c '\\.meta$') $(du -sk "$D" | cut -f1)"
+n=0
+for m in $(ls -t "$D" | grep '\\.meta$'); do
+  n=$((n+1)); [ $n -gt "$1" ] && break
+  job_record "\${m%.meta}"
+done
+`;
+    const lines = await this.run([String(limit)], script);
+    const result: JobListResult = { jobs: [], total: 0, diskKb: 0 };
+    for (const line of lines) {
+      if (line.startsWith("MORI_JOB_TOTAL ")) {
+        const [, total, kb] = line.split(" ");
+        result.total = Number(total) || 0;
+        result.diskKb = Number(kb) || 0;
+        continue;
+      }
+      const info = parseRecord(line);
+      if (info) result.jobs.push(info);
+    }
+    return result;
+  }
+
+  /**
+   * job 状态 + 日志末尾 lines 行（-1 = 全部）
+   */
+  async tail(name: string, lines = 50): Promise<{ job: JobInfo; log: string }> {
+    return this.inspect(name, lines, 0);
+  }
+
+  /**
+   * 在目标机上等 job 结束，最多 seconds 秒；返回时带状态和日志末尾。
+   * 一次调用等完，不把轮询成本转给模型。
+   */
+  async wait(name: string, seconds: number, lines = 50): Promise<{ job: JobInfo; log: string }> {
+    const secs = Math.min(Math.max(Math.round(seconds), 1), JOB_WAIT_MAX_SECONDS);
+    return this.inspect(name, lines, secs);
+  }
+
+  private async inspect(name: string, lines: number, waitSeconds: number): Promise<{ job: JobInfo; log: string }> {
+    JobRunner.validateName(name);
+    const script = `[ -f "$D/$1.meta" ] || { echo MORI_JOB_NOTFOUND; exit 0; }
+i=0; while [ $i -lt "$3" ] && job_alive "$1"; do sleep 1; i=$((i+1)); done
+job_record "$1"
+echo MORI_JOB_LOG
+if [ "$2" = "-1" ]; then cat "$D/$1.log" 2>/dev/null; else tail -n "$2" "$D/$1.log" 2>/dev/null; fi
+`;
+    const out = await this.run(
+      [name, String(lines < 0 ? -1 : Math.max(1, Math.floor(lines))), String(waitSeconds)],
+      script,
+      (waitSeconds + 30) * 1000
+    );
+    if (out.includes("MORI_JOB_NOTFOUND")) {
+      throw new Error(`没有名为 '${name}' 的 job（ssh({action:"jobs"}) 看有哪些）`);
+    }
+    const job = out.map(parseRecord).find((j): j is JobInfo => j !== null);
+    if (!job) throw new Error(`读取 job '${name}' 状态失败`);
+    const logStart = out.indexOf("MORI_JOB_LOG");
+    const log = out.slice(logStart + 1).join("\n").replace(/\n$/, "");
+    return { job, log };
+  }
+
+  /**
+   * 停掉 job 的整个进程组（先 TERM，3 秒没退再 KILL），并写一条 killed 进 .status
+   * （否则它会永远显示 running）。killed=false 表示发了信号但进程还活着。
+   */
+  async kill(name: string): Promise<{ job: JobInfo; wasRunning: boolean; killed: boolean }> {
+    JobRunner.validateName(name);
+    const script = `[ -f "$D/$1.meta" ] || { echo MORI_JOB_NOTFOUND; exit 0; }
+if ! job_alive "$1"; then echo MORI_JOB_NOTRUNNING; job_record "$1"; exit 0; fi
+p=$(cut -d' ' -f1 "$D/$1.pid"); pg=$(cut -d' ' -f2 "$D/$1.pid")
+echo "killed end=$(date -u +%Y-%m-%dT%H:%M:%SZ)" > "$D/$1.status"
+case "$(sed -n 's/^runner=//p' "$D/$1.meta")" in
+  tmux) tmux kill-session -t "=mcp-$1" 2>/dev/null ;;
+  systemd) systemctl --user stop "mcp-job-$1" 2>/dev/null ;;
+esac
+[ -n "$pg" ] && kill -TERM -"$pg" 2>/dev/null; kill -TERM "$p" 2>/dev/null
+i=0; while kill -0 "$p" 2>/dev/null && [ $i -lt 30 ]; do sleep 0.1; i=$((i+1)); done
+if kill -0 "$p" 2>/dev/null; then
+  [ -n "$pg" ] && kill -KILL -"$pg" 2>/dev/null; kill -KILL "$p" 2>/dev/null; sleep 0.3
+fi
+if kill -0 "$p" 2>/dev/null; then echo MORI_JOB_KILL_FAILED; else echo MORI_JOB_KILLED; fi
+job_record "$1"
+`;
+    const out = await this.run([name], script);
+    if (out.includes("MORI_JOB_NOTFOUND")) {
+      throw new Error(`没有名为 '${name}' 的 job（ssh({action:"jobs"}) 看有哪些）`);
+    }
+    const job = out.map(parseRecord).find((j): j is JobInfo => j !== null);
+    if (!job) throw new Error(`读取 job '${name}' 状态失败`);
+    return {
+      job,
+      wasRunning: !out.includes("MORI_JOB_NOTRUNNING"),
+      killed: out.includes("MORI_JOB_KILLED"),
+    };
+  }
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, "0")}s`;
+  return `${Math.floor(seconds / 3600)}h${String(Math.floor((seconds % 3600) / 60)).padStart(2, "0")}m`;
+}
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n}B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)}K`;
+  return `${(n / 1024 / 1024).toFixed(1)}M`;
+}
+
+/**
+ * 一行 job 摘要：状态 / 名字 / 用时 / 日志大小 / 命令 / cwd
+ */
+export function describeJob(job: JobInfo, now = Date.now()): string {
+  const start = job.startedAt;
+  const end = job.endedAt ? Date.parse(job.endedAt) / 1000 : undefined;
+  let timing = "";
+  if (start && job.state === "running") {
+    const t = new Date(start * 1000);
+    timing = `起于 ${String(t.getHours()).padStart(2, "0")}:${String(t.getMinutes()).padStart(2, "0")} (${formatDuration(Math.max(0, Math.round(now / 1000 - start)))})`;
+  } else if (start && end && !Number.isNaN(end)) {
+    timing = `用时 ${formatDuration(Math.max(0, Math.round(end - start)))}`;
+  }
+  const rc = job.rc !== undefined ? `rc=${job.rc}` : "";
+  return [
+    job.state.padEnd(8),
+    job.name.padEnd(16),
+    [rc, timing].filter(Boolean).join("  ").padEnd(24),
+    `log ${formatBytes(job.logBytes)}`.padEnd(10),
+    job.command.padEnd(24),
+    job.cwd,
+  ].join(" ").trimEnd();
+}
@@ -0,0 +1,177 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { createHash } from "crypto";
+import { homedir } from "os";
+import { join, dirname } from "path";
+import { HostKeyCheckMode } from "./types.js";
+
+const KNOWN_HOSTS_PATH = join(homedir(), ".mori", "ssh", "known_hosts.json");
+
+/**
+ * 一条钉住的 host key。按「配置名」存而不是按 host:port 存：
+ * 反向隧道的端口会被重新分配（今天 127.0.0.1:2202 是 mac1，明天可能是 mac2），
+ * 按地址存会让换了机器的端口被当成同一台而放行。
+ */
+export interface PinnedHostKey {
+  host: string;
+  port: number;
+  keyType: string;
+  /** OpenSSH 风格指纹：SHA256:<base64 无填充> */
+  fingerprint: string;
+  addedAt: string;
+}
+
+/**
+ * 一次连接用的校验器：hostVerifier 交给 ssh2，failure 在连接报错时取出来替换 ssh2
+ * 那句含糊的 "Host denied (verification failed)"。
+ */
+export interface HostKeyVerification {
+  hostVerifier: (key: Buffer) => boolean;
+  failure: () => string | null;
+}
+
+/**
+ * 计算 OpenSSH 风格的 host key 指纹（与 ssh-keygen -lf 输出一致）
+ */
+export function fingerprintOf(key: Buffer): string {
+  return "SHA256:" + createHash("sha256").update(key).digest("base64").replace(/=+$/, "");
+}
+
+/**
+ * 从 SSH wire 格式的公钥里取出 key 类型（第一个 string 字段，如 ssh-ed25519）
+ */
+function keyTypeOf(key: Buffer): string {
+  try {
+    const len = key.readUInt32BE(0);
+    return key.subarray(4, 4 + len).toString("ascii");
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * 跳板机 host key 的存储键。跳板机按「所属服务器 + 跳数」存，而不是按跳板自己的地址：
+ * 同一个跳板地址在不同服务器条目里可能指向不同的隧道端。
+ * 第一跳是 <server>:jump（与单跳配置一致），之后是 <server>:jump2、:jump3…
+ */
+export function jumpKeyName(serverName: string, hop: number = 0): string {
+  return hop === 0 ? `${serverName}:jump` : `${serverName}:jump${hop + 1}`;
+}
+
+/** 存储键 → 所属服务器名（trust / forget 都按服务器名操作） */
+function ownerOf(name: string): string {
+  return name.replace(/:jump\d*$/, "");
+}
+
+/**
+ * Host key 钉扎存储（TOFU）。存在 ~/.mori/ssh/known_hosts.json，与 ssh-servers.json 分开：
+ * 配置文件会被手改、被同步，钉住的 key 不该跟着一起漂。
+ */
+export class KnownHostsStore {
+  private path: string;
+
+  constructor(path?: string) {
+    this.path = path || KNOWN_HOSTS_PATH;
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  private load(): Record<string, PinnedHostKey> {
+    if (!existsSync(this.path)) return {};
+    try {
+      return JSON.parse(readFileSync(this.path, "utf-8"));
+    } catch (e) {
+      throw new Error(`known_hosts 文件格式错误: ${this.path}\n${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  private save(entries: Record<string, PinnedHostKey>): void {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(this.path, JSON.stringify(entries, null, 2), { encoding: "utf-8", mode: 0o600 });
+  }
+
+  get(name: string): PinnedHostKey | undefined {
+    return this.load()[name];
+  }
+
+  pin(name: string, host: string, port: number, key: Buffer): PinnedHostKey {
+    const entries = this.load();
+    const entry: PinnedHostKey = {
+      host,
+      port,
+      keyType: keyTypeOf(key),
+      fingerprint: fingerprintOf(key),
+      addedAt: new Date().toISOString(),
+    };
+    entries[name] = entry;
+    this.save(entries);
+    return entry;
+  }
+
+  /**
+   * 删除某台服务器钉住的 key（连同它的跳板机）。返回删掉的键名。
+   */
+  forget(serverName: string): string[] {
+    const entries = this.load();
+    const removed = Object.keys(entries).filter(
+      (k) => k === serverName || k.startsWith(`${serverName}:jump`)
+    );
+    for (const k of removed) delete entries[k];
+    if (removed.length) this.save(entries);
+    return removed;
+  }
+
+  /**
+   * 列出某台服务器（含跳板机）钉住的 key
+   */
+  listFor(serverName: string): Record<string, PinnedHostKey> {
+    const out: Record<string, PinnedHostKey> = {};
+    for (const [k, v] of Object.entries(this.load())) {
+      if (k === serverName || k.startsWith(`${serverName}:jump`)) out[k] = v;
+    }
+    return out;
+  }
+
+  /**
+   * 构造一次连接的 host key 校验器：
+   * - off：不校验（与旧行为一致）
+   * - accept-new（默认）：没钉过就钉住并放行；钉过就必须一致
+   * - strict：没钉过直接拒（先用 mcp-ssh-pty trust 钉）；钉过就必须一致
+   */
+  createVerifier(
+    name: string,
+    host: string,
+    port: number,
+    mode: HostKeyCheckMode = "accept-new"
+  ): HostKeyVerification {
+    let failure: string | null = null;
+    const hostVerifier = (key: Buffer): boolean => {
+      if (mode === "off") return true;
+      const fingerprint = fingerprintOf(key);
+      const pinned = this.get(name);
+      if (!pinned) {
+        if (mode === "strict") {
+          failure =
+            `'${name}' (${host}:${port}) 的 host key 尚未被信任（hostKeyCheck=strict）。` +
+            `指纹 ${keyTypeOf(key)} ${fingerprint}；确认无误后运行 mcp-ssh-pty trust ${ownerOf(name)}`;
+          return false;
+        }
+        this.pin(name, host, port, key);
+        console.error(`[mcp-ssh-pty] pinned host key for '${name}' (${host}:${port}): ${fingerprint}`);
+        return true;
+      }
+      if (pinned.fingerprint === fingerprint) return true;
+      failure =
+        `⚠️ '${name}' (${host}:${port}) 的 host key 与钉住的不一致，可能遭遇中间人攻击，已拒绝连接。\n` +
+        `  钉住的: ${pinned.keyType} ${pinned.fingerprint}（${pinned.addedAt}）\n` +
+        `  收到的: ${keyTypeOf(key)} ${fingerprint}\n` +
+        `如果确认是对端重装 / 端口换了机器，运行 mcp-ssh-pty forget ${ownerOf(name)} 后重连，或 mcp-ssh-pty trust ${ownerOf(name)}`;
+      return false;
+    };
+    return { hostVerifier, failure: () => failure };
+  }
+}
@@ -0,0 +1,85 @@
+import { createHmac } from "crypto";
+import { exec } from "child_process";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * RFC 4648 base32 解码（TOTP secret 的通行编码，忽略空格、大小写和末尾 =）
+ */
+function base32Decode(input: string): Buffer {
+  const clean = input.replace(/[\s=-]/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx < 0) throw new Error(`totpSecret 不是合法的 base32（非法字符 '${ch}'）`);
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * RFC 6238 TOTP：HMAC-SHA1、30 秒步长、6 位——Google Authenticator / 1Password 的默认参数
+ */
+export function totp(secret: string, now: number = Date.now()): string {
+  const key = base32Decode(secret);
+  const counter = Math.floor(now / 1000 / 30);
+  const msg = Buffer.alloc(8);
+  msg.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  msg.writeUInt32BE(counter >>> 0, 4);
+  const hmac = createHmac("sha1", key).update(msg).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000;
+  return String(code).padStart(6, "0");
+}
+
+/**
+ * 在 daemon 本机跑 otpCommand 取验证码（如 `op item get bastion --otp`），取 stdout 第一行。
+ */
+function runOtpCommand(command: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(command, { timeout: 10_000, encoding: "utf8" }, (err, stdout) => {
+      if (err) {
+        reject(new Error(`otpCommand 执行失败: ${err.message}`));
+        return;
+      }
+      const code = stdout.split("\n")[0].trim();
+      if (!code) {
+        reject(new Error("otpCommand 没有输出验证码"));
+        return;
+      }
+      resolve(code);
+    });
+  });
+}
+
+/**
+ * keyboard-interactive 里一条提示问的是什么。
+ * 堡垒机的措辞五花八门（Verification code / OTP / Token / 动态口令 / 验证码），
+ * 只要不是明确问密码的都按验证码处理。
+ */
+export function classifyPrompt(prompt: string): "password" | "otp" {
+  if (/otp|one[- ]?time|verification|token|code|验证码|动态|口令/i.test(prompt)) return "otp";
+  if (/passw(or)?d|密码/i.test(prompt)) return "password";
+  return "otp";
+}
+
+/**
+ * 取一个验证码：调用方一次性给的 otp 优先，其次 totpSecret 本地计算，最后 otpCommand。
+ * 都没有返回 undefined（由调用方把提示回传给模型去问用户）。
+ */
+export async function resolveOtp(
+  auth: { totpSecret?: string; otpCommand?: string },
+  provided?: string
+): Promise<string | undefined> {
+  if (provided) return provided;
+  if (auth.totpSecret) return totp(auth.totpSecret);
+  if (auth.otpCommand) return runOtpCommand(auth.otpCommand);
+  return undefined;
+}
@@ -0,0 +1,190 @@
+import { ShortcutOutput, ShortcutOutputFormat } from "./types.js";
+
+/**
+ * shortcut 的 output 解析：把命令的 stdout 按声明的格式解析成行（rows），工具直接返回结构化 JSON，
+ * 模型不用再从 mysql 表格 / docker ps 文本里自己抠字段。
+ * - json   整段 JSON；数组即 rows，其它值包成一行
+ * - jsonl  每行一个 JSON
+ * - tsv    制表符分隔，第一行是表头（mysql -B、docker ps --format 'table …\t…' 这类）
+ * - csv    RFC 4180：双引号包裹、"" 转义、字段里可以有换行
+ * - regex  逐行匹配，命名分组即字段；不匹配的行跳过（计数）
+ * - lines  非空行，每行一个字符串
+ */
+
+export const OUTPUT_FORMATS: readonly ShortcutOutputFormat[] = ["json", "jsonl", "tsv", "csv", "regex", "lines"];
+/** 默认最多返回多少行 / 配置里 maxRows 的上限 */
+export const OUTPUT_DEFAULT_MAX_ROWS = 100;
+export const OUTPUT_MAX_ROWS = 5000;
+
+export interface ParsedOutput {
+  format: ShortcutOutputFormat;
+  /** tsv / csv 的列名 */
+  columns?: string[];
+  rows: unknown[];
+  /** regex 没匹配上被跳过的行数 */
+  skipped?: number;
+}
+
+/** 字符串简写统一成对象形式 */
+export function normalizeOutputSpec(spec: ShortcutOutputFormat | ShortcutOutput): ShortcutOutput {
+  return typeof spec === "string" ? { format: spec } : spec;
+}
+
+/**
+ * 配置加载时校验 output 声明（格式、regex 能编译且有命名分组、maxRows、columns）
+ */
+export function validateOutputSpec(prefix: string, spec: ShortcutOutputFormat | ShortcutOutput): void {
+  const out = normalizeOutputSpec(spec);
+  if (!OUTPUT_FORMATS.includes(out.format)) {
+    throw new Error(`${prefix} 的 output.format 不认识: ${out.format}（可选 ${OUTPUT_FORMATS.join(" / ")}）`);
+  }
+  if (out.format === "regex") {
+    if (typeof out.pattern !== "string" || !out.pattern) {
+      throw new Error(`${prefix} 的 output 是 regex，需要 pattern`);
+    }
+    let re: RegExp;
+    try {
+      re = new RegExp(out.pattern);
+    } catch (e) {
+      throw new Error(`${prefix} 的 output.pattern 不是合法正则: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    // 拼一个能匹配空串的分支，有命名分组时 groups 才不是 undefined
+    if (!new RegExp(`${re.source}|`).exec("")?.groups) {
+      throw new Error(`${prefix} 的 output.pattern 没有命名分组（(?<name>…)），解析不出字段`);
+    }
+  } else if (out.pattern !== undefined) {
+    throw new Error(`${prefix} 的 output.pattern 只用于 regex 格式`);
+  }
+  if (out.columns !== undefined) {
+    if (out.format !== "tsv" && out.format !== "csv") {
+      throw new Error(`${prefix} 的 output.columns 只用于 tsv / csv`);
+    }
+    if (!Array.isArray(out.columns) || out.columns.length === 0 || out.columns.some((c) => typeof c !== "string" || !c)) {
+      throw new Error(`${prefix} 的 output.columns 必须是非空字符串数组`);
+    }
+  }
+  if (out.maxRows !== undefined && (!Number.isInteger(out.maxRows) || out.maxRows < 1 || out.maxRows > OUTPUT_MAX_ROWS)) {
+    throw new Error(`${prefix} 的 output.maxRows 必须是 1..${OUTPUT_MAX_ROWS} 的整数`);
+  }
+}
+
+function splitLines(text: string): string[] {
+  return text.split("\n").map((l) => l.replace(/\r$/, ""));
+}
+
+/** 去掉末尾的空行（命令输出通常以换行结尾） */
+function trimTrailingEmpty(lines: string[]): string[] {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1] === "") end--;
+  return lines.slice(0, end);
+}
+
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        quoted = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+    if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+  if (quoted) throw new Error("CSV 里有没闭合的引号");
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // 空行不算记录
+  return records.filter((r) => !(r.length === 1 && r[0] === ""));
+}
+
+/** 表格（tsv / csv）记录 → 以列名为键的对象 */
+function toObjects(records: string[][], columns: string[] | undefined): { columns: string[]; rows: Record<string, string>[] } {
+  const header = columns ?? records[0];
+  if (!header) return { columns: [], rows: [] };
+  const body = columns ? records : records.slice(1);
+  const rows = body.map((fields, i) => {
+    if (fields.length !== header.length) {
+      throw new Error(`第 ${i + 1} 行数据有 ${fields.length} 列，表头是 ${header.length} 列`);
+    }
+    return Object.fromEntries(header.map((name, j) => [name, fields[j]]));
+  });
+  return { columns: header, rows };
+}
+
+/**
+ * 按声明解析 stdout；格式对不上时抛错（调用方回退到原始输出）
+ */
+export function parseOutput(spec: ShortcutOutputFormat | ShortcutOutput, text: string): ParsedOutput {
+  const out = normalizeOutputSpec(spec);
+  switch (out.format) {
+    case "json": {
+      let value: unknown;
+      try {
+        value = JSON.parse(text);
+      } catch (e) {
+        throw new Error(`不是合法 JSON: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      return { format: "json", rows: Array.isArray(value) ? value : [value] };
+    }
+    case "jsonl": {
+      const rows: unknown[] = [];
+      splitLines(text).forEach((line, i) => {
+        if (!line.trim()) return;
+        try {
+          rows.push(JSON.parse(line));
+        } catch (e) {
+          throw new Error(`第 ${i + 1} 行不是合法 JSON: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      });
+      return { format: "jsonl", rows };
+    }
+    case "tsv": {
+      const records = trimTrailingEmpty(splitLines(text)).map((line) => line.split("\t"));
+      return { format: "tsv", ...toObjects(records, out.columns) };
+    }
+    case "csv":
+      return { format: "csv", ...toObjects(parseCsvRecords(text), out.columns) };
+    case "regex": {
+      const re = new RegExp(out.pattern!);
+      const rows: unknown[] = [];
+      let skipped = 0;
+      for (const line of trimTrailingEmpty(splitLines(text))) {
+        const m = re.exec(line);
+        if (m?.groups) rows.push({ ...m.groups });
+        else skipped++;
+      }
+      return { format: "regex", rows, skipped };
+    }
+    case "lines":
+      return { format: "lines", rows: splitLines(text).filter((l) => l.trim() !== "") };
+  }
+}
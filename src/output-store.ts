@@ -47,11 +47,19 @@ function pruneOldOutputs(): void {
   } catch { /* 目录不存在等，忽略 */ }
 }
 
+export interface SaveLimits {
+  /** 超过多少字符才存盘，默认 8000 */
+  threshold?: number;
+  /** 存盘后返回的尾部长度，默认 2000 */
+  tail?: number;
+}
+
 /**
  * 检查输出是否过大，如果是则保存到本地文件并返回尾部摘要
  */
-export function saveIfLarge(content: string): SaveResult {
-  if (!content || content.length <= THRESHOLD_CHARS) {
+export function saveIfLarge(content: string, limits: SaveLimits = {}): SaveResult {
+  const threshold = limits.threshold ?? THRESHOLD_CHARS;
+  if (!content || content.length <= threshold) {
     return { saved: false };
   }
 
@@ -63,7 +71,7 @@ export function saveIfLarge(content: string): SaveResult {
   writeFileSync(filePath, content, "utf-8");
   pruneOldOutputs(); // 写完顺手回收旧文件，别让 output 目录无限增长
 
-  const tail = content.slice(-TAIL_CHARS);
+  const tail = content.slice(-(limits.tail ?? TAIL_CHARS));
 
   return {
     saved: true,
@@ -0,0 +1,170 @@
+import { createHmac, randomBytes } from "crypto";
+import { PolicyConfig, PolicyRule } from "./types.js";
+
+/**
+ * 命令策略引擎：执行前拿命令文本逐条过 deny / confirm 规则。
+ *
+ * confirm 令牌 = HMAC(进程随机 key, 目标服务器 + 命令文本)：同一条命令对同一批服务器才有效，
+ * 改了命令要重新确认；daemon 重启后旧令牌全部作废。
+ */
+
+export type PolicyKind = "deny" | "confirm";
+
+/** 规则来自哪一层配置 */
+export interface PolicyLayer {
+  source: "global" | "server";
+  policy?: PolicyConfig;
+}
+
+export interface PolicyMatch {
+  kind: PolicyKind;
+  source: "global" | "server";
+  pattern: string;
+  reason?: string;
+  /** 命中的那段文本 */
+  matched: string;
+}
+
+export interface PolicyVerdict {
+  deny?: PolicyMatch;
+  confirm: PolicyMatch[];
+}
+
+const TOKEN_KEY = randomBytes(32);
+const MATCHED_MAX_CHARS = 200;
+
+function normalize(rule: string | PolicyRule): PolicyRule {
+  return typeof rule === "string" ? { pattern: rule } : rule;
+}
+
+function parseRegex(pattern: string): RegExp | null {
+  const m = /^\/(.+)\/([a-z]*)$/s.exec(pattern);
+  if (!m) return null;
+  return new RegExp(m[1], m[2].replace("g", ""));
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "s");
+}
+
+/**
+ * 包在真正命令前面、自己不干活的前缀：sudo（连同 -u root 这类带值的选项）、环境变量赋值、
+ * env / nohup / exec / command / nice / time / timeout N。一次剥一层，剥到没有为止
+ */
+const WRAPPER_RES: RegExp[] = [
+  /^sudo(?:\s+(?:-[ughpCrtU]\s*[^\s-]\S*|--\w[\w-]*=\S+|-\S+))*\s+/,
+  /^env(?:\s+(?:-u\s*\S+|--unset=\S+|-\S*))*\s+/,
+  /^nohup\s+/,
+  /^exec(?:\s+(?:-a\s*\S+|-\S+))*\s+/,
+  /^command(?:\s+-p)*\s+/,
+  /^nice(?:\s+(?:-n\s*-?\d+|--adjustment=-?\d+|-\d+))*\s+/,
+  /^time(?:\s+-p)*\s+/,
+  /^timeout(?:\s+(?:-[sk]\s*[^\s-]\S*|--\w[\w-]*=\S+|-\S+))*\s+\d+(?:\.\d+)?[smhd]?\s+/,
+  /^[A-Za-z_][A-Za-z0-9_]*=\S*\s+/,
+];
+
+function unwrap(segment: string): string {
+  let s = segment;
+  let re: RegExp | undefined;
+  while ((re = WRAPPER_RES.find((r) => r.test(s)))) s = s.replace(re, "");
+  // /sbin/reboot、./reboot 按命令名比
+  return s.replace(/^\S*\/(?=\S)/, "");
+}
+
+/**
+ * 命令切成片段：按 ; && || | 后台 & 和换行切（2>&1、>| 这类重定向不切），去掉重定向、首尾空白、
+ * 子 shell / 命令组的括号和开头的包装（见 WRAPPER_RES），命令词只留文件名，
+ * 让 "reboot*" 也能拦住 "cd /; sudo -u root /sbin/reboot"、"(reboot)"、"nohup reboot &"，
+ * "rm -rf /" 也能拦住 "rm -rf / 2>&1"
+ */
+export function commandSegments(text: string): string[] {
+  return text
+    .split(/\n|;|&&|\|\||(?<!>)\||(?<![<>&])&(?![>&])/)
+    .map((s) =>
+      unwrap(
+        s
+          .replace(/\s*(?:\d*|&)>[>|]?&?\s*[^\s<>]+|\s*\d*<\s*[^\s<>]+/g, "")
+          .trim()
+          .replace(/^[({]+\s*/, "")
+          .replace(/\s*[)}]+$/, "")
+      )
+    )
+    .filter(Boolean);
+}
+
+function matchRule(rule: PolicyRule, text: string): string | null {
+  const re = parseRegex(rule.pattern);
+  if (re) {
+    const m = re.exec(text);
+    return m ? m[0] : null;
+  }
+  const glob = globToRegExp(rule.pattern.trim());
+  return commandSegments(text).find((s) => glob.test(s)) ?? null;
+}
+
+function applies(rule: PolicyRule, tags: string[]): boolean {
+  return !rule.tags?.length || rule.tags.some((t) => tags.includes(t));
+}
+
+/**
+ * 加载配置时校验：正则写错立即报错，别等到执行时才发现规则根本没生效
+ */
+export function validatePolicy(owner: string, policy: PolicyConfig | undefined): void {
+  if (!policy) return;
+  for (const kind of ["deny", "confirm"] as const) {
+    const rules = policy[kind];
+    if (rules === undefined) continue;
+    if (!Array.isArray(rules)) {
+      throw new Error(`${owner} 的 policy.${kind} 必须是数组`);
+    }
+    for (const raw of rules) {
+      const rule = normalize(raw);
+      if (typeof rule.pattern !== "string" || !rule.pattern.trim()) {
+        throw new Error(`${owner} 的 policy.${kind} 有规则缺少 pattern`);
+      }
+      try {
+        parseRegex(rule.pattern);
+      } catch (e) {
+        throw new Error(`${owner} 的 policy.${kind} 规则 ${rule.pattern} 不是合法正则: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+}
+
+/**
+ * 拿命令文本过一遍各层规则：任一 deny 命中即拒绝；confirm 命中的全部列出
+ */
+export function evaluatePolicy(layers: PolicyLayer[], text: string, tags: string[] = []): PolicyVerdict {
+  const verdict: PolicyVerdict = { confirm: [] };
+  for (const kind of ["deny", "confirm"] as const) {
+    for (const layer of layers) {
+      for (const raw of layer.policy?.[kind] ?? []) {
+        const rule = normalize(raw);
+        if (!applies(rule, tags)) continue;
+        const matched = matchRule(rule, text);
+        if (matched === null) continue;
+        const hit: PolicyMatch = {
+          kind,
+          source: layer.source,
+          pattern: rule.pattern,
+          reason: rule.reason,
+          matched: matched.length > MATCHED_MAX_CHARS ? `${matched.slice(0, MATCHED_MAX_CHARS)}…` : matched,
+        };
+        if (kind === "deny") {
+          verdict.deny = hit;
+          return verdict;
+        }
+        verdict.confirm.push(hit);
+      }
+    }
+  }
+  return verdict;
+}
+
+/**
+ * confirm 令牌：绑定目标服务器（多台按顺序拼起来）和命令文本
+ */
+export function confirmToken(servers: string[], text: string): string {
+  return createHmac("sha256", TOKEN_KEY).update(`${servers.join(",")}\0${text}`).digest("hex").slice(0, 16);
+}
@@ -0,0 +1,90 @@
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerRequest, ServerNotification, Progress } from "@modelcontextprotocol/sdk/types.js";
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** 有新输出时最多隔多久发一次进度 */
+const PROGRESS_INTERVAL_MS = 2000;
+/** 一直没有新输出时的心跳间隔：让客户端知道命令还活着、不是卡死 */
+const HEARTBEAT_INTERVAL_MS = 10_000;
+/** 进度消息里带几行最近输出、每行最多多少字符 */
+const TAIL_LINES = 3;
+const TAIL_LINE_CHARS = 200;
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n}B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)}K`;
+  return `${(n / 1024 / 1024).toFixed(1)}M`;
+}
+
+function send(extra: ToolExtra, progress: Progress): void {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return;
+  // 进度是尽力而为：客户端断开 / 不收通知都不能影响命令本身
+  extra.sendNotification({
+    method: "notifications/progress",
+    params: { progressToken, ...progress },
+  }).catch(() => { /* ignore */ });
+}
+
+/**
+ * exec 命令的进度上报：请求带了 progressToken 才生效，否则返回 undefined（零开销）。
+ * progress = 已运行秒数，total = 超时秒数；message 带累计字节数和最近几行输出。
+ * 用完必须 stop()。
+ */
+export function execProgress(
+  extra: ToolExtra | undefined,
+  timeoutMs: number
+): { onOutput: (chunk: Buffer) => void; stop: () => void } | undefined {
+  if (!extra || extra._meta?.progressToken === undefined) return undefined;
+
+  const started = Date.now();
+  let bytes = 0;
+  let tail = "";
+  let dirty = false;
+  let lastSent = 0;
+
+  const tick = () => {
+    const now = Date.now();
+    if (!dirty && now - lastSent < HEARTBEAT_INTERVAL_MS) return;
+    const lines = tail.split("\n").map((l) => l.trimEnd()).filter(Boolean).slice(-TAIL_LINES)
+      .map((l) => (l.length > TAIL_LINE_CHARS ? `${l.slice(0, TAIL_LINE_CHARS)}…` : l));
+    const elapsed = Math.round((now - started) / 1000);
+    const head = dirty ? `已运行 ${elapsed}s，输出 ${formatBytes(bytes)}` : `已运行 ${elapsed}s，暂无新输出`;
+    send(extra, {
+      progress: Math.max(1, elapsed),
+      total: Math.round(timeoutMs / 1000),
+      message: lines.length && dirty ? `${head}\n${lines.join("\n")}` : head,
+    });
+    dirty = false;
+    lastSent = now;
+  };
+  const timer = setInterval(tick, PROGRESS_INTERVAL_MS);
+  timer.unref();
+
+  return {
+    onOutput: (chunk) => {
+      bytes += chunk.length;
+      tail = (tail + chunk.toString("utf8")).slice(-4000);
+      dirty = true;
+    },
+    stop: () => clearInterval(timer),
+  };
+}
+
+/**
+ * 计数型进度（fan-out：done / total 台）。没有 progressToken 时什么都不做。
+ */
+export function countProgress(extra: ToolExtra | undefined, done: number, total: number, message: string): void {
+  if (!extra) return;
+  send(extra, { progress: done, total, message });
+}
+
+/**
+ * hub 转发用：把下游 daemon 发来的进度原样转给 hub 自己的客户端。
+ * 客户端没要进度（没带 progressToken）时返回 undefined，下游调用也就不请求进度。
+ */
+export function forwardProgress(extra: ToolExtra | undefined): ((progress: Progress) => void) | undefined {
+  if (!extra || extra._meta?.progressToken === undefined) return undefined;
+  return (progress) => send(extra, progress);
+}
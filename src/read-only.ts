@@ -0,0 +1,89 @@
+import { commandSegments, globToRegExp } from "./policy.js";
+
+/**
+ * readOnly 服务器的命令白名单检查。
+ *
+ * 条目两种写法：
+ * - 不带空格：命令名，带什么参数都行（"ls" 放行 ls -la /var）
+ * - 带空格：按 glob 整段匹配命令片段（"systemctl status*" 放行 systemctl status nginx）
+ *
+ * 命令按 ; && || | 和换行切成片段（同 policy），每一段都要在白名单里；
+ * 写文件的重定向、命令替换 / 进程替换一律不行（没法知道里面跑的是什么）。
+ */
+export const DEFAULT_READ_ONLY_COMMANDS: string[] = [
+  // 文件与文本
+  "ls", "ll", "cat", "head", "tail", "grep", "egrep", "fgrep", "zgrep", "zcat", "wc", "stat", "file",
+  "find", "tree", "du", "df", "readlink", "realpath", "basename", "dirname", "md5sum", "sha1sum", "sha256sum",
+  "sort", "cut", "tr", "column", "jq", "diff", "cd", "pwd", "echo", "printf", "test", "[", "true",
+  // 系统与进程
+  "uptime", "uname", "hostname", "whoami", "id", "groups", "w", "who", "last", "date", "ps", "pgrep", "pstree",
+  "free", "vmstat", "iostat", "nproc", "lscpu", "lsblk", "findmnt", "lsof", "ss", "netstat", "dmesg",
+  "printenv", "which", "whereis", "type", "journalctl", "top -b*",
+  "ip addr", "ip a", "ip addr show*", "ip route", "ip route show*", "ip link show*",
+  "systemctl status*", "systemctl is-active*", "systemctl is-enabled*", "systemctl is-failed*",
+  "systemctl list-*", "systemctl show*", "systemctl cat*",
+  // 容器与集群
+  "docker ps*", "docker logs*", "docker inspect*", "docker images*", "docker top*", "docker version*", "docker info*",
+  "docker stats --no-stream*", "docker compose ps*", "docker compose logs*",
+  "kubectl get*", "kubectl describe*", "kubectl logs*", "kubectl top*", "kubectl version*", "kubectl explain*",
+  "kubectl api-resources*", "kubectl config view*", "kubectl config get-contexts*",
+  // git
+  "git status*", "git log*", "git diff*", "git show*", "git branch", "git rev-parse*", "git remote -v",
+];
+
+/** 白名单命令里会写东西的参数 */
+const FORBIDDEN_ARGS: Record<string, RegExp> = {
+  find: /\s-(?:delete|exec|execdir|ok|okdir|fprint0?|fprintf|fls)\b/,
+  // --compress-program 会跑任意程序；长选项可以缩写（--out、--comp）
+  sort: /\s(?:-\w*o|--o|--com)/,
+  tree: /\s-o/,
+  // -C 把 magic 文件编译成 .mgc 写到当前目录
+  file: /\s(?:-\w*C|--comp)/,
+  journalctl: /\s--(?:vacuum-\w+|rotate|flush)\b/,
+  date: /\s(?:-[uR]*s|--set\b)/,
+  // hostname NAME 会改主机名，只放行不带位置参数的查询（-f / -I 之类）
+  hostname: /\s[^-\s]/,
+  dmesg: /\s(?:-\w*[cCDEn]|--(?:clear|read-clear|console-off|console-on|console-level)\b)/,
+  ss: /\s(?:-\w*K|--kill\b)/,
+  git: /\s--output\b/,
+};
+
+/**
+ * 重定向及其目标（>&file、>& file 的目标带着 &）。允许的只有 /dev/null 和 &1 / &2- / &- 这类 fd 复制 / 关闭；
+ * >| 是无视 noclobber 的覆盖写，>&word（word 不是数字或 -）同 &> 一样写文件
+ */
+const REDIRECT_RE = /(?:\d+|&)?>(?:>|\|)?\s*(&?\s*[^\s;&|<>]+)/g;
+
+function allowedBy(entry: string, segment: string): boolean {
+  if (!entry.includes(" ")) {
+    const name = segment.split(/\s+/)[0];
+    return name === entry;
+  }
+  return globToRegExp(entry).test(segment);
+}
+
+/**
+ * 检查一条命令在 readOnly 服务器上能不能跑，返回不满足的地方（空数组 = 放行）
+ * @param extra 配置里追加的白名单（readOnlyCommands）
+ */
+export function readOnlyViolations(command: string, extra: string[] = []): string[] {
+  const problems: string[] = [];
+  if (/`|\$\(|[<>]\(/.test(command)) {
+    problems.push("命令替换 / 进程替换（$(…)、`…`、<(…)）");
+  }
+  for (const m of command.matchAll(REDIRECT_RE)) {
+    const target = m[1];
+    if (/^&\s*(?:\d+-?|-)$/.test(target) || target.replace(/^&\s*/, "") === "/dev/null") continue;
+    problems.push(`写文件的重定向: ${m[0].trim()}`);
+  }
+  const allow = [...DEFAULT_READ_ONLY_COMMANDS, ...extra];
+  for (const segment of commandSegments(command)) {
+    const name = segment.split(/\s+/)[0];
+    if (!allow.some((entry) => allowedBy(entry, segment))) {
+      problems.push(`不在只读白名单里: ${segment}`);
+    } else if (FORBIDDEN_ARGS[name]?.test(` ${segment.slice(name.length)}`)) {
+      problems.push(`${name} 带了会写东西的参数: ${segment}`);
+    }
+  }
+  return problems;
+}
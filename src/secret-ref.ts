@@ -0,0 +1,72 @@
+import { exec } from "child_process";
+import { SecretVault } from "./secret-vault.js";
+
+/**
+ * 配置里的 secret 引用：密码类字段可以不写明文，写成
+ * - secret:<name>  从本地加密 vault（mcp-ssh-pty secret set）取
+ * - env:<VAR>      从 daemon 进程的环境变量取
+ * - cmd:<command>  在 daemon 本机跑命令取 stdout 第一行（如 cmd:pass show prod/db）
+ * 引用只在连接 / 渲染前解析成副本，配置对象里始终是引用本身，save() 写回去的也是引用。
+ */
+
+const REF_RE = /^(secret|env|cmd):(.+)$/s;
+const CMD_TIMEOUT_MS = 15_000;
+
+export function isSecretRef(value: string | undefined): boolean {
+  return !!value && REF_RE.test(value);
+}
+
+function runSecretCommand(command: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(command, { timeout: CMD_TIMEOUT_MS, encoding: "utf8" }, (err, stdout) => {
+      if (err) {
+        reject(new Error(`命令执行失败: ${err.message}`));
+        return;
+      }
+      const value = stdout.split("\n")[0].replace(/\r$/, "");
+      if (!value) {
+        reject(new Error("命令没有输出"));
+        return;
+      }
+      resolve(value);
+    });
+  });
+}
+
+export class SecretResolver {
+  private vault = new SecretVault();
+  /** 解析出来过的明文，审计日志打码用 */
+  private known = new Set<string>();
+
+  /**
+   * 把一个字段值解析成明文：不是引用原样返回
+   * @param field 字段名，只用于报错
+   */
+  async resolve(value: string | undefined, field: string): Promise<string | undefined> {
+    if (!value) return value;
+    const m = REF_RE.exec(value);
+    if (!m) return value;
+    const [, scheme, ref] = m;
+    let resolved: string;
+    try {
+      if (scheme === "secret") {
+        // 每次都重读 vault 文件：CLI 刚 set 的值 daemon 不用重启就能拿到
+        resolved = this.vault.get(ref.trim());
+      } else if (scheme === "env") {
+        const v = process.env[ref.trim()];
+        if (v === undefined || v === "") throw new Error(`环境变量 ${ref.trim()} 未设置`);
+        resolved = v;
+      } else {
+        resolved = await runSecretCommand(ref);
+      }
+    } catch (e) {
+      throw new Error(`${field} 的引用 ${scheme}:${ref} 取不到值: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    this.known.add(resolved);
+    return resolved;
+  }
+
+  knownValues(): string[] {
+    return [...this.known];
+  }
+}
@@ -0,0 +1,203 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { homedir } from "os";
+import { join, dirname } from "path";
+
+const VAULT_PATH = join(homedir(), ".mori", "ssh", "vault.json");
+export const DEFAULT_KEYFILE_PATH = join(homedir(), ".mori", "ssh", "vault.key");
+/** 解锁 vault 的口令 / keyfile 路径（daemon 非交互，只能从环境变量或默认 keyfile 拿） */
+export const VAULT_PASSPHRASE_ENV = "SSH_MCP_VAULT_PASSPHRASE";
+export const VAULT_KEYFILE_ENV = "SSH_MCP_VAULT_KEYFILE";
+
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+const CHECK_PLAINTEXT = "mori-vault";
+const NAME_RE = /^[A-Za-z0-9_.\/-]+$/;
+
+export type VaultKeySource = { passphrase: string } | { keyfile: string };
+
+interface Sealed {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface VaultEntry extends Sealed {
+  updatedAt: string;
+}
+
+interface VaultFile {
+  version: 1;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  /** 用同一把 key 加密的固定串：口令错了在这里就能发现，不会拿错 key 写进新条目 */
+  check: Sealed;
+  entries: Record<string, VaultEntry>;
+}
+
+/**
+ * 本地加密 secret 存储：~/.mori/ssh/vault.json。
+ * 每个条目单独 AES-256-GCM 加密，key 由口令或 keyfile 内容经 scrypt 派生；
+ * 条目名是明文（list 不需要解锁），值只有解锁后才能读。
+ */
+export class SecretVault {
+  private path: string;
+  private keySource: VaultKeySource | undefined;
+  /** 派生出的 key 按 salt 缓存：scrypt 很慢，vault 文件重建（换了 salt）才重新派生 */
+  private key: { salt: string; value: Buffer } | null = null;
+
+  /**
+   * @param keySource 不给时按 SSH_MCP_VAULT_PASSPHRASE > SSH_MCP_VAULT_KEYFILE > ~/.mori/ssh/vault.key 找
+   */
+  constructor(path?: string, keySource?: VaultKeySource) {
+    this.path = path || VAULT_PATH;
+    this.keySource = keySource;
+  }
+
+  static defaultKeySource(): VaultKeySource | undefined {
+    if (process.env[VAULT_PASSPHRASE_ENV]) return { passphrase: process.env[VAULT_PASSPHRASE_ENV]! };
+    if (process.env[VAULT_KEYFILE_ENV]) return { keyfile: process.env[VAULT_KEYFILE_ENV]! };
+    if (existsSync(DEFAULT_KEYFILE_PATH)) return { keyfile: DEFAULT_KEYFILE_PATH };
+    return undefined;
+  }
+
+  /**
+   * 生成一个随机 keyfile（32 字节，权限 600）
+   */
+  static generateKeyfile(path: string = DEFAULT_KEYFILE_PATH): void {
+    if (existsSync(path)) {
+      throw new Error(`keyfile 已存在: ${path}`);
+    }
+    const dir = dirname(path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(path, randomBytes(32).toString("base64") + "\n", { encoding: "utf-8", mode: 0o600 });
+  }
+
+  static validateName(name: string): void {
+    if (!NAME_RE.test(name)) {
+      throw new Error(`secret 名只能含字母、数字和 _ . / -: ${name}`);
+    }
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  exists(): boolean {
+    return existsSync(this.path);
+  }
+
+  hasKeySource(): boolean {
+    return (this.keySource ?? SecretVault.defaultKeySource()) !== undefined;
+  }
+
+  list(): Array<{ name: string; updatedAt: string }> {
+    const vault = this.load();
+    if (!vault) return [];
+    return Object.entries(vault.entries)
+      .map(([name, e]) => ({ name, updatedAt: e.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(name: string): string {
+    const vault = this.load();
+    if (!vault) {
+      throw new Error(`vault 不存在（${this.path}），先用 mcp-ssh-pty secret set ${name} 存进去`);
+    }
+    const entry = vault.entries[name];
+    if (!entry) {
+      throw new Error(`vault 里没有 secret '${name}'`);
+    }
+    return this.open(this.unlock(vault), entry);
+  }
+
+  set(name: string, value: string): void {
+    SecretVault.validateName(name);
+    const vault = this.load() ?? this.create();
+    const key = this.unlock(vault);
+    vault.entries[name] = { ...this.seal(key, value), updatedAt: new Date().toISOString() };
+    this.save(vault);
+  }
+
+  remove(name: string): boolean {
+    const vault = this.load();
+    if (!vault || !vault.entries[name]) return false;
+    delete vault.entries[name];
+    this.save(vault);
+    return true;
+  }
+
+  private load(): VaultFile | null {
+    if (!existsSync(this.path)) return null;
+    try {
+      return JSON.parse(readFileSync(this.path, "utf-8"));
+    } catch (e) {
+      throw new Error(`vault 文件格式错误: ${this.path}\n${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  private save(vault: VaultFile): void {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(this.path, JSON.stringify(vault, null, 2), { encoding: "utf-8", mode: 0o600 });
+  }
+
+  private create(): VaultFile {
+    const vault: VaultFile = {
+      version: 1,
+      kdf: { name: "scrypt", salt: randomBytes(16).toString("base64"), N: SCRYPT_PARAMS.N, r: SCRYPT_PARAMS.r, p: SCRYPT_PARAMS.p },
+      check: { iv: "", tag: "", data: "" },
+      entries: {},
+    };
+    vault.check = this.seal(this.deriveKey(vault), CHECK_PLAINTEXT);
+    return vault;
+  }
+
+  private keyMaterial(): Buffer {
+    const source = this.keySource ?? SecretVault.defaultKeySource();
+    if (!source) {
+      throw new Error(
+        `vault 未解锁：设置环境变量 ${VAULT_PASSPHRASE_ENV}（口令）或 ${VAULT_KEYFILE_ENV}（keyfile 路径），` +
+          `或把 keyfile 放在 ${DEFAULT_KEYFILE_PATH}`
+      );
+    }
+    if ("passphrase" in source) return Buffer.from(source.passphrase, "utf-8");
+    try {
+      return Buffer.from(readFileSync(source.keyfile, "utf-8").trim(), "utf-8");
+    } catch (e) {
+      throw new Error(`读不了 vault keyfile ${source.keyfile}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  private deriveKey(vault: VaultFile): Buffer {
+    const { salt, N, r, p } = vault.kdf;
+    if (this.key?.salt !== salt) {
+      const value = scryptSync(this.keyMaterial(), Buffer.from(salt, "base64"), 32, { N, r, p, maxmem: SCRYPT_PARAMS.maxmem });
+      this.key = { salt, value };
+    }
+    return this.key.value;
+  }
+
+  /** 派生 key 并用 check 条目验证，口令 / keyfile 不对就报错 */
+  private unlock(vault: VaultFile): Buffer {
+    const key = this.deriveKey(vault);
+    try {
+      if (this.open(key, vault.check) === CHECK_PLAINTEXT) return key;
+    } catch {
+      // 落到下面统一报错
+    }
+    this.key = null;
+    throw new Error(`vault 口令 / keyfile 不对，解不开 ${this.path}`);
+  }
+
+  private seal(key: Buffer, plaintext: string): Sealed {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+    return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") };
+  }
+
+  private open(key: Buffer, sealed: Sealed): string {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(sealed.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(sealed.tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(sealed.data, "base64")), decipher.final()]).toString("utf-8");
+  }
+}
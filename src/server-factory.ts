@@ -3,6 +3,7 @@ import { SSHManager } from "./ssh-manager.js";
 import { ConfigManager } from "./config.js";
 import { NotesManager } from "./notes-manager.js";
 import { registerTools } from "./tools.js";
+import { AuditLog } from "./audit-log.js";
 
 /**
  * 构造一个「直连模式」MCP server（ssh/sftp 工具 + 一份 SSHManager）。
@@ -13,6 +14,7 @@ export function buildDirectServer(version: string): { server: McpServer; sshMana
   const sshManager = new SSHManager();
   const configManager = new ConfigManager();
   const notesManager = new NotesManager();
-  registerTools(server, sshManager, configManager, notesManager);
+  const auditLog = new AuditLog();
+  registerTools(server, sshManager, configManager, notesManager, auditLog);
   return { server, sshManager };
 }
@@ -0,0 +1,96 @@
+/**
+ * 服务器选择器：把 servers 参数里的名字 / 通配符 / tag / 组展开成具体的服务器名。
+ * - 不带通配符的按名字精确匹配（包括内置 local）
+ * - 带 * ? 的按 glob 匹配已配置的服务器名（不含 local，要 local 就显式写）
+ * - tag:prod 选带 prod 标签的；tag:prod+web 选同时带两个标签的
+ * - group:<名> 展开 groups 里的同名组（组成员本身也是选择器，可以再引用别的组）
+ */
+
+/** 选择器需要知道的服务器信息 */
+export interface SelectableServer {
+  name: string;
+  tags?: string[];
+}
+
+export interface SelectionResult {
+  /** 按参数顺序展开、去重后的服务器名 */
+  names: string[];
+  /** 精确写了名字但不存在的（含不存在的组） */
+  unknown: string[];
+  /** 通配符 / tag 一个都没匹配上的 */
+  unmatched: string[];
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * 带有全部这些 tag 的服务器
+ */
+export function serversWithTags<T extends SelectableServer>(servers: T[], tags: string[]): T[] {
+  return servers.filter((s) => tags.every((t) => s.tags?.includes(t)));
+}
+
+/**
+ * @param available 已配置的服务器（不含 local）
+ * @param groups 配置顶层的 groups
+ */
+export function selectServers(
+  patterns: string[],
+  available: SelectableServer[],
+  groups: Record<string, string[]> = {}
+): SelectionResult {
+  const names: string[] = [];
+  const unknown: string[] = [];
+  const unmatched: string[] = [];
+  const availableNames = available.map((s) => s.name);
+  const add = (name: string) => {
+    if (!names.includes(name)) names.push(name);
+  };
+
+  const expand = (raw: string, groupPath: string[]) => {
+    const pattern = raw.trim();
+    if (!pattern) return;
+
+    if (pattern.startsWith("group:")) {
+      const group = pattern.slice("group:".length);
+      if (groupPath.includes(group)) {
+        throw new Error(`groups 循环引用: ${[...groupPath, group].join(" → ")}`);
+      }
+      const members = groups[group];
+      if (!members) {
+        unknown.push(pattern);
+        return;
+      }
+      for (const m of members) expand(m, [...groupPath, group]);
+      return;
+    }
+
+    if (pattern.startsWith("tag:")) {
+      const tags = pattern.slice("tag:".length).split("+").map((t) => t.trim()).filter(Boolean);
+      const hits = serversWithTags(available, tags);
+      if (hits.length === 0) unmatched.push(pattern);
+      hits.forEach((s) => add(s.name));
+      return;
+    }
+
+    if (!isGlob(pattern)) {
+      if (pattern === "local" || availableNames.includes(pattern)) add(pattern);
+      else unknown.push(pattern);
+      return;
+    }
+    const re = globToRegExp(pattern);
+    const hits = availableNames.filter((n) => re.test(n));
+    if (hits.length === 0) unmatched.push(pattern);
+    hits.forEach(add);
+  };
+
+  for (const p of patterns) expand(p, []);
+  return { names, unknown, unmatched };
+}
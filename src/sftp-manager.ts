@@ -2,6 +2,18 @@ import { Client, SFTPWrapper } from "ssh2";
 import { resolve, dirname, posix as pathPosix } from "path";
 import { promises as fsp } from "fs";
 import { homedir } from "os";
+import { FsAttrs, FsOps, FileType, fileType, localOps, sftpOps } from "./fs-ops.js";
+import { SyncOptions, SyncResult, syncTrees } from "./sftp-sync.js";
+import {
+  TransferOptions,
+  TransferResult,
+  commitChunks,
+  hashSource,
+  readChunk,
+  resumableDownload,
+  resumableUpload,
+  writeChunk,
+} from "./sftp-transfer.js";
 
 // 禁止访问的本地敏感路径前缀
 const BLOCKED_PATHS = [
@@ -21,6 +33,140 @@ const BLOCKED_UPLOAD_PATTERNS = [
   /ssh-servers\.json$/i,
 ];
 
+/** list 默认 / 最大递归深度（1 = 只列这一层） */
+const LIST_DEFAULT_DEPTH = 1;
+const LIST_MAX_DEPTH = 10;
+/** list 默认 / 最多返回多少项 */
+const LIST_DEFAULT_LIMIT = 500;
+const LIST_MAX_LIMIT = 5000;
+
+/** read 默认最多读多少字节；tail 模式往回读时每块多大 */
+const READ_DEFAULT_BYTES = 1024 * 1024;
+const TAIL_BLOCK = 64 * 1024;
+
+export interface ReadOptions {
+  /** utf8（默认）或 base64：二进制文件用 base64 才能原样拿到 */
+  encoding?: "utf8" | "base64";
+  /** 最多读多少字节（默认 1MB） */
+  maxBytes?: number;
+  /** 从哪个字节开始读；负数从文件末尾往回数 */
+  offset?: number;
+  /** 读多少字节（仍受 maxBytes 限制） */
+  length?: number;
+  /** 只要最后 N 行：从文件末尾按块往回读，不扫整个文件。不能和 offset / length 同时用 */
+  tail?: number;
+}
+
+export interface ReadResult {
+  path: string;
+  /** 文件总字节数 */
+  bytes: number;
+  /** 读出来的是 [start, end) 这一段 */
+  start: number;
+  end: number;
+  content: string;
+  /** 被 maxBytes 截住了（想要的比读出来的多） */
+  truncated: boolean;
+}
+
+type ReadAt = (buf: Buffer, offset: number, length: number, position: number) => Promise<number>;
+
+/** 从 position 起读最多 length 字节，到文件末尾就停 */
+async function readAt(read: ReadAt, position: number, length: number): Promise<Buffer> {
+  const buf = Buffer.alloc(length);
+  let off = 0;
+  while (off < length) {
+    const n = await read(buf, off, length - off, position + off);
+    if (n === 0) break;
+    off += n;
+  }
+  return buf.subarray(0, off);
+}
+
+/**
+ * 按 offset / length / tail 读出文件的一段（远端 / 本机只有 read 不同）。
+ * tail 从末尾一块块往回读，数够 N 行或到 maxBytes 就停——几 GB 的日志也只读末尾那一点
+ */
+async function readSlice(read: ReadAt, size: number, options: ReadOptions): Promise<{ start: number; buf: Buffer; truncated: boolean }> {
+  const maxBytes = options.maxBytes ?? READ_DEFAULT_BYTES;
+  if (options.tail === undefined) {
+    const offset = options.offset ?? 0;
+    const start = Math.min(offset < 0 ? Math.max(0, size + offset) : offset, size);
+    const wanted = Math.min(options.length ?? size - start, size - start);
+    const length = Math.min(wanted, maxBytes);
+    return { start, buf: await readAt(read, start, length), truncated: length < wanted };
+  }
+
+  const lines = Math.max(1, Math.floor(options.tail));
+  let pos = size;
+  let buf = Buffer.alloc(0);
+  let newlines = 0;
+  let trailing = false;
+  while (pos > 0 && buf.length < maxBytes) {
+    const len = Math.min(TAIL_BLOCK, pos, maxBytes - buf.length);
+    pos -= len;
+    const block = await readAt(read, pos, len);
+    // 文件以换行结尾时最后那个换行不算行分隔
+    if (buf.length === 0) trailing = block[block.length - 1] === 0x0a;
+    for (const byte of block) if (byte === 0x0a) newlines++;
+    buf = Buffer.concat([block, buf]);
+    if (newlines - (trailing ? 1 : 0) >= lines) break;
+  }
+  let cut = buf.length - (trailing ? 1 : 0);
+  let found = 0;
+  while (found < lines && cut > 0) {
+    const i = buf.lastIndexOf(0x0a, cut - 1);
+    if (i < 0) break;
+    found++;
+    cut = i;
+  }
+  // 数够了：从第 N 个换行之后开始；没数够又没读到文件开头，说明被 maxBytes 截住了（第一行可能不完整）
+  const from = found === lines ? cut + 1 : 0;
+  return { start: pos + from, buf: buf.subarray(from), truncated: found < lines && pos > 0 };
+}
+
+/** 文件信息（list 的每一项、stat 的结果） */
+export interface FileInfo {
+  /** list 里是相对列出目录的路径，stat 里是传进来的路径 */
+  path: string;
+  type: FileType;
+  size: number;
+  /** 修改时间（ISO，UTC） */
+  mtime: string;
+  /** 权限位，八进制字符串如 "0644" */
+  mode: string;
+  /** 仅 stat：符号链接指向哪里 */
+  link?: string;
+}
+
+export interface ListResult {
+  path: string;
+  entries: FileInfo[];
+  /** 到 limit 就停了，后面还有没列出来的 */
+  truncated: boolean;
+  /** 读不了的子目录（没权限等），不影响其它部分 */
+  errors?: string[];
+}
+
+function toInfo(path: string, st: FsAttrs): FileInfo {
+  return {
+    path,
+    type: fileType(st.mode),
+    size: st.size,
+    mtime: new Date(st.mtimeMs).toISOString(),
+    mode: (st.mode & 0o7777).toString(8).padStart(4, "0"),
+  };
+}
+
+function nameGlob(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`);
+}
+
+function errMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
 export class SFTPManager {
   private sftp: SFTPWrapper | null = null;
 
@@ -29,14 +175,14 @@ export class SFTPManager {
    * - 规范化路径（消除 .. 穿越）
    * - 拒绝访问敏感系统路径
    */
-  private validateLocalPath(localPath: string, action: "upload" | "download"): string {
+  private validateLocalPath(localPath: string, action: "upload" | "download" | "modify"): string {
     // 规范化路径，消除 .. 等穿越
     const resolved = resolve(localPath);
 
     // 检查是否指向敏感系统路径
     for (const blocked of BLOCKED_PATHS) {
       if (resolved.startsWith(blocked)) {
-        throw new Error(`安全限制: 禁止${action === "upload" ? "上传" : "下载到"}路径 ${blocked}`);
+        throw new Error(`安全限制: 禁止${action === "upload" ? "上传" : action === "download" ? "下载到" : "修改"}路径 ${blocked}`);
       }
     }
 
@@ -81,55 +227,55 @@ export class SFTPManager {
   }
 
   /**
-   * 上传本地文件到远程服务器
+   * 上传本地文件到远程服务器（断点续传 + sha256 校验 + .part 原子改名，见 sftp-transfer.ts）
    */
-  async upload(client: Client, localPath: string, remotePath: string): Promise<string> {
+  async upload(client: Client, localPath: string, remotePath: string, options?: TransferOptions): Promise<TransferResult> {
     const safePath = this.validateLocalPath(localPath, "upload");
     const sftp = await this.getSftp(client);
+    try {
+      return await resumableUpload(sftp, safePath, remotePath, options);
+    } catch (e) {
+      throw new Error(`上传失败: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 
-    return new Promise((resolve, reject) => {
-      sftp.fastPut(safePath, remotePath, (err) => {
-        if (err) {
-          reject(new Error(`上传失败: ${err.message}`));
-          return;
-        }
-        resolve(`文件上传成功`);
-      });
-    });
+  /**
+   * 目录同步（见 sftp-sync.ts）：只传变了的文件，可删多余、可 dryRun。
+   * 目录递归 upload / download 用 compare:"always"
+   */
+  async sync(client: Client, options: Omit<SyncOptions, "checkLocal">): Promise<SyncResult> {
+    const sftp = await this.getSftp(client);
+    return syncTrees(sftp, { ...options, checkLocal: (p, action) => this.validateLocalPath(p, action) });
   }
 
   /**
-   * 从远程服务器下载文件到本地
+   * 从远程服务器下载文件到本地（同 upload：续传、校验、.part 改名）
    */
-  async download(client: Client, remotePath: string, localPath: string): Promise<string> {
+  async download(client: Client, remotePath: string, localPath: string, options?: TransferOptions): Promise<TransferResult> {
     const safePath = this.validateLocalPath(localPath, "download");
     const sftp = await this.getSftp(client);
-
-    return new Promise((resolve, reject) => {
-      sftp.fastGet(remotePath, safePath, (err) => {
-        if (err) {
-          reject(new Error(`下载失败: ${err.message}`));
-          return;
-        }
-        resolve(`文件下载成功`);
-      });
-    });
+    try {
+      return await resumableDownload(sftp, remotePath, safePath, options);
+    } catch (e) {
+      throw new Error(`下载失败: ${e instanceof Error ? e.message : String(e)}`);
+    }
   }
 
   /**
-   * 把内联文本写到远端文件（不走 PTY，绕开所有 heredoc / bracketed-paste 痛点）
+   * 把内联内容写到远端文件（不走 PTY，绕开所有 heredoc / bracketed-paste 痛点）
+   * @param content 文本按 utf8 写；Buffer（base64 解出来的二进制）原样写
    * @param mkdirs 父目录不存在时自动建（mkdir -p 语义）
    * @param mode  POSIX 权限位（八进制数，如 0o644）；默认 0o644
    */
   async writeRemote(
     client: Client,
     remotePath: string,
-    content: string,
+    content: string | Buffer,
     options?: { mkdirs?: boolean; mode?: number }
   ): Promise<{ path: string; bytes: number }> {
     const sftp = await this.getSftp(client);
     const mode = options?.mode ?? 0o644;
-    const buf = Buffer.from(content, "utf8");
+    const buf = typeof content === "string" ? Buffer.from(content, "utf8") : content;
 
     if (options?.mkdirs) {
       const parent = pathPosix.dirname(remotePath);
@@ -148,18 +294,12 @@ export class SFTPManager {
   }
 
   /**
-   * 读取远端文件文本内容
+   * 读取远端文件（默认从头读 1MB；offset / length / tail 见 ReadOptions）
    */
-  async readRemote(
-    client: Client,
-    remotePath: string,
-    options?: { encoding?: BufferEncoding; maxBytes?: number }
-  ): Promise<{ path: string; bytes: number; content: string; truncated: boolean }> {
+  async readRemote(client: Client, remotePath: string, options: ReadOptions = {}): Promise<ReadResult> {
     const sftp = await this.getSftp(client);
-    const encoding = options?.encoding ?? "utf8";
-    const maxBytes = options?.maxBytes ?? 1024 * 1024; // 默认 1MB 上限
 
-    // 先 stat 拿总长，再只读前 maxBytes：不把整个文件拉进内存（之前是 readFile 全读进来再截，
+    // 先 stat 拿总长，再只读要的那一段：不把整个文件拉进内存（之前是 readFile 全读进来再截，
     // 读几百 MB 的日志时 daemon 进程会瞬间涨到文件那么大）。
     const total = await new Promise<number>((res, rej) => {
       sftp.stat(remotePath, (err, st) => {
@@ -167,27 +307,22 @@ export class SFTPManager {
         else res(st.size);
       });
     });
-    const want = Math.min(total, maxBytes);
     const handle = await new Promise<Buffer>((res, rej) => {
       sftp.open(remotePath, "r", (err, h) => {
         if (err) rej(new Error(`读取远端失败: ${err.message}`));
         else res(h);
       });
     });
-    let buf = Buffer.alloc(want);
-    try {
-      let off = 0;
-      while (off < want) {
-        const n = await new Promise<number>((res, rej) => {
-          sftp.read(handle, buf, off, want - off, off, (err, bytesRead) => {
-            if (err) rej(new Error(`读取远端失败: ${err.message}`));
-            else res(bytesRead);
-          });
+    const read: ReadAt = (buf, offset, length, position) =>
+      new Promise<number>((res, rej) => {
+        sftp.read(handle, buf, offset, length, position, (err, bytesRead) => {
+          if (err) rej(new Error(`读取远端失败: ${err.message}`));
+          else res(bytesRead);
         });
-        if (n === 0) break;
-        off += n;
-      }
-      buf = buf.subarray(0, off);
+      });
+    let slice: Awaited<ReturnType<typeof readSlice>>;
+    try {
+      slice = await readSlice(read, total, options);
     } finally {
       await new Promise<void>((res) => sftp.close(handle, () => res()));
     }
@@ -195,8 +330,10 @@ export class SFTPManager {
     return {
       path: remotePath,
       bytes: total,
-      content: buf.toString(encoding),
-      truncated: total > maxBytes,
+      start: slice.start,
+      end: slice.start + slice.buf.length,
+      content: slice.buf.toString(options.encoding ?? "utf8"),
+      truncated: slice.truncated,
     };
   }
 
@@ -232,12 +369,12 @@ export class SFTPManager {
    */
   async writeLocalFile(
     localPath: string,
-    content: string,
+    content: string | Buffer,
     options?: { mkdirs?: boolean; mode?: number }
   ): Promise<{ path: string; bytes: number }> {
     const safePath = this.validateLocalPath(localPath, "upload");
     const mode = options?.mode ?? 0o644;
-    const buf = Buffer.from(content, "utf8");
+    const buf = typeof content === "string" ? Buffer.from(content, "utf8") : content;
 
     if (options?.mkdirs) {
       await fsp.mkdir(dirname(safePath), { recursive: true });
@@ -247,39 +384,236 @@ export class SFTPManager {
   }
 
   /**
-   * 读取本地文件
+   * 读取本地文件（同 readRemote）
    */
-  async readLocalFile(
-    localPath: string,
-    options?: { encoding?: BufferEncoding; maxBytes?: number }
-  ): Promise<{ path: string; bytes: number; content: string; truncated: boolean }> {
+  async readLocalFile(localPath: string, options: ReadOptions = {}): Promise<ReadResult> {
     const safePath = this.validateLocalPath(localPath, "download");
-    const encoding = options?.encoding ?? "utf8";
-    const maxBytes = options?.maxBytes ?? 1024 * 1024;
 
-    // 只读前 maxBytes，不整文件进内存
+    // 只读要的那一段，不整文件进内存
     const st = await fsp.stat(safePath);
-    const want = Math.min(st.size, maxBytes);
     const fh = await fsp.open(safePath, "r");
-    let buf: Buffer;
+    let slice: Awaited<ReturnType<typeof readSlice>>;
     try {
-      buf = Buffer.alloc(want);
-      let off = 0;
-      while (off < want) {
-        const { bytesRead } = await fh.read(buf, off, want - off, off);
-        if (bytesRead === 0) break;
-        off += bytesRead;
-      }
-      buf = buf.subarray(0, off);
+      slice = await readSlice(async (buf, offset, length, position) => (await fh.read(buf, offset, length, position)).bytesRead, st.size, options);
     } finally {
       await fh.close();
     }
     return {
       path: safePath,
       bytes: st.size,
-      content: buf.toString(encoding),
-      truncated: st.size > maxBytes,
+      start: slice.start,
+      end: slice.start + slice.buf.length,
+      content: slice.buf.toString(options.encoding ?? "utf8"),
+      truncated: slice.truncated,
+    };
+  }
+
+  /**
+   * 目录 / 文件操作用的 fs 接口：client 为 null 表示 local 连接（daemon 所在机器），直接走 fs
+   */
+  private async ops(client: Client | null): Promise<FsOps> {
+    return client ? sftpOps(await this.getSftp(client)) : localOps;
+  }
+
+  /**
+   * 列目录：每项带类型、大小、修改时间、权限位。
+   * @param depth 递归几层（默认 1 = 只列这一层，最多 10）；符号链接指向的目录不进去
+   * @param glob  只返回文件名匹配的项（* ?），子目录照样往下找
+   */
+  async list(
+    client: Client | null,
+    root: string,
+    options?: { depth?: number; glob?: string; limit?: number }
+  ): Promise<ListResult> {
+    // 本机路径过同 read 一样的检查；递归时也不进被禁止的目录（如列 /private 时的 /private/etc）
+    const dir = client ? root : this.validateLocalPath(root, "upload");
+    const blocked = (p: string): boolean => {
+      if (client) return false;
+      try {
+        this.validateLocalPath(p, "modify");
+        return false;
+      } catch {
+        return true;
+      }
+    };
+    const ops = await this.ops(client);
+    const maxDepth = Math.min(Math.max(options?.depth ?? LIST_DEFAULT_DEPTH, 1), LIST_MAX_DEPTH);
+    const limit = Math.min(Math.max(options?.limit ?? LIST_DEFAULT_LIMIT, 1), LIST_MAX_LIMIT);
+    const glob = options?.glob ? nameGlob(options.glob) : null;
+
+    const top = await ops.stat(dir).catch((e) => {
+      throw new Error(`list 失败 ${dir}: ${errMessage(e)}`);
+    });
+    if (fileType(top.mode) !== "dir") {
+      throw new Error(`${dir} 不是目录（看单个文件用 stat）`);
+    }
+
+    const entries: FileInfo[] = [];
+    const errors: string[] = [];
+    let truncated = false;
+    const walk = async (rel: string, depth: number): Promise<void> => {
+      const full = rel ? ops.join(dir, rel) : dir;
+      let names: string[];
+      try {
+        names = (await ops.readdir(full)).filter((n) => n !== "." && n !== "..").sort();
+      } catch (e) {
+        errors.push(`${full}: ${errMessage(e)}`);
+        return;
+      }
+      for (const name of names) {
+        if (truncated) return;
+        const childRel = rel ? pathPosix.join(rel, name) : name;
+        let info: FileInfo;
+        try {
+          info = toInfo(childRel, await ops.lstat(ops.join(full, name)));
+        } catch (e) {
+          errors.push(`${ops.join(full, name)}: ${errMessage(e)}`);
+          continue;
+        }
+        if (!glob || glob.test(name)) {
+          if (entries.length >= limit) {
+            truncated = true;
+            return;
+          }
+          entries.push(info);
+        }
+        if (info.type === "dir" && depth < maxDepth && !blocked(ops.join(full, name))) await walk(childRel, depth + 1);
+      }
+    };
+    await walk("", 1);
+    return { path: dir, entries, truncated, errors: errors.length ? errors : undefined };
+  }
+
+  /**
+   * 单个路径的信息；符号链接返回链接本身，并带上它指向哪里
+   */
+  async stat(client: Client | null, p: string): Promise<FileInfo> {
+    const target = client ? p : this.validateLocalPath(p, "upload");
+    const ops = await this.ops(client);
+    try {
+      const info = toInfo(target, await ops.lstat(target));
+      if (info.type === "symlink") info.link = await ops.readlink(target);
+      return info;
+    } catch (e) {
+      throw new Error(`stat 失败 ${target}: ${errMessage(e)}`);
+    }
+  }
+
+  /**
+   * 建目录。parents = mkdir -p：父目录一路建，已存在不报错
+   */
+  async mkdir(client: Client | null, p: string, options?: { parents?: boolean; mode?: number }): Promise<void> {
+    const target = client ? p : this.validateLocalPath(p, "modify");
+    const ops = await this.ops(client);
+    const make = async (dir: string): Promise<void> => {
+      if (options?.parents) {
+        const existing = await ops.stat(dir).catch(() => null);
+        if (existing) {
+          if (fileType(existing.mode) !== "dir") throw new Error(`${dir} 已存在且不是目录`);
+          return;
+        }
+        const parent = ops.join(dir, "..");
+        if (parent !== dir) await make(parent);
+      }
+      await ops.mkdir(dir, options?.mode);
+    };
+    try {
+      await make(target);
+    } catch (e) {
+      throw new Error(`mkdir 失败 ${p}: ${errMessage(e)}`);
+    }
+  }
+
+  /**
+   * 删文件或目录。目录默认只删空的；recursive 才连内容一起删（符号链接只删链接本身）
+   * @returns 删掉的文件 / 目录个数
+   */
+  async remove(client: Client | null, p: string, options?: { recursive?: boolean }): Promise<number> {
+    const target = client ? p : this.validateLocalPath(p, "modify");
+    const normalized = client ? pathPosix.normalize(target) : target;
+    if (normalized === "/" || normalized === "." || normalized === "" || /^[A-Za-z]:[\\/]?$/.test(normalized)) {
+      throw new Error(`拒绝删除 ${p}`);
+    }
+    const ops = await this.ops(client);
+    const removeTree = async (path: string): Promise<number> => {
+      const st = await ops.lstat(path);
+      if (fileType(st.mode) !== "dir") {
+        await ops.unlink(path);
+        return 1;
+      }
+      if (!options?.recursive) {
+        await ops.rmdir(path).catch((e) => {
+          throw new Error(`${errMessage(e)}（目录不为空时要连内容一起删请带 recursive:true）`);
+        });
+        return 1;
+      }
+      let count = 0;
+      for (const name of await ops.readdir(path)) {
+        if (name === "." || name === "..") continue;
+        count += await removeTree(ops.join(path, name));
+      }
+      await ops.rmdir(path);
+      return count + 1;
     };
+    try {
+      return await removeTree(target);
+    } catch (e) {
+      throw new Error(`remove 失败 ${p}: ${errMessage(e)}`);
+    }
+  }
+
+  /**
+   * 改名 / 移动（同一端内）。目标已存在时远端多半会拒绝（SFTP v3 的 rename 不覆盖）
+   */
+  async rename(client: Client | null, from: string, to: string): Promise<void> {
+    const source = client ? from : this.validateLocalPath(from, "modify");
+    const target = client ? to : this.validateLocalPath(to, "modify");
+    try {
+      await (await this.ops(client)).rename(source, target);
+    } catch (e) {
+      throw new Error(`rename 失败 ${from} → ${to}: ${errMessage(e)}`);
+    }
+  }
+
+  /**
+   * 改权限位（mode 是数值，如 0o755）
+   */
+  async chmod(client: Client | null, p: string, mode: number): Promise<void> {
+    const target = client ? p : this.validateLocalPath(p, "modify");
+    try {
+      await (await this.ops(client)).chmod(target, mode);
+    } catch (e) {
+      throw new Error(`chmod 失败 ${p}: ${errMessage(e)}`);
+    }
+  }
+
+  /**
+   * hub 跨 node 中转的几步（见 sftp-transfer.ts）：源端按块读、读完报整个文件的 sha256，目标端按块写进 .part、最后校验改名。
+   * client 为 null 时是本机文件，照样过本机路径检查
+   */
+  async readChunk(client: Client | null, p: string, offset: number, length: number): Promise<{ size: number; data: Buffer }> {
+    const source = client ? p : this.validateLocalPath(p, "upload");
+    return readChunk(client ? await this.getSftp(client) : null, source, offset, length);
+  }
+
+  async hashSource(client: Client | null, p: string, hash?: TransferOptions["remoteSha256"]): Promise<{ size: number; sha256: string }> {
+    const source = client ? p : this.validateLocalPath(p, "upload");
+    return hashSource(client ? await this.getSftp(client) : null, source, hash);
+  }
+
+  async writeChunk(client: Client | null, p: string, offset: number, data: Buffer): Promise<number> {
+    const target = client ? p : this.validateLocalPath(p, "download");
+    return writeChunk(client ? await this.getSftp(client) : null, target, offset, data);
+  }
+
+  async commitChunks(
+    client: Client | null,
+    p: string,
+    sha256: string,
+    hash?: TransferOptions["remoteSha256"]
+  ): Promise<{ bytes: number; sha256: string }> {
+    const target = client ? p : this.validateLocalPath(p, "download");
+    return commitChunks(client ? await this.getSftp(client) : null, target, sha256, hash);
   }
 
   /**
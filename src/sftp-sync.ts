@@ -0,0 +1,252 @@
+import { SFTPWrapper } from "ssh2";
+import { posix as pathPosix } from "path";
+import { FsAttrs, FsOps, fileType, localOps, sftpOps } from "./fs-ops.js";
+
+/**
+ * 目录传输与 sync：走现有 SFTP 通道的最小 rsync。
+ * - 两边各扫一遍目录树（include / exclude 过滤），按 size + mtime（或 sha256）比出要传的文件
+ * - 只传变了的，传完把目标的 mtime / 权限位对齐源文件，下次比对才认得出没变
+ * - delete 时删掉目标里源没有的（被 exclude 过滤掉的不动）；dryRun 只出清单不动手
+ * - 符号链接和特殊文件不传，列在 skipped 里
+ * 目录递归 upload / download 也是它（compare:"always"，全部重传、不删）。
+ */
+
+export type SyncDirection = "up" | "down";
+/** sizeMtime：大小或 mtime（秒）不同就传；checksum：大小相同时再比 sha256；always：全传 */
+export type SyncCompare = "sizeMtime" | "checksum" | "always";
+
+export interface SyncOptions {
+  /** up = localPath → remotePath，down = remotePath → localPath */
+  direction: SyncDirection;
+  localPath: string;
+  remotePath: string;
+  /** 给了就只同步匹配的文件（* ? 不跨目录，** 跨目录；不带 / 的模式按文件名匹配） */
+  include?: string[];
+  /** 匹配的文件 / 目录整个跳过，两边都不动 */
+  exclude?: string[];
+  /** 删掉目标里源没有的文件 / 目录 */
+  delete?: boolean;
+  dryRun?: boolean;
+  compare?: SyncCompare;
+  /** 本机路径检查（敏感路径 / 上传敏感文件名），每个本机文件都过一遍 */
+  checkLocal(path: string, action: "upload" | "download"): void;
+  /** 每传完一个文件回调 */
+  onFile?(done: number, total: number, path: string): void;
+}
+
+export interface SyncFile {
+  path: string;
+  bytes: number;
+  reason: "new" | "size" | "mtime" | "checksum" | "copy";
+}
+
+export interface SyncResult {
+  direction: SyncDirection;
+  from: string;
+  to: string;
+  dryRun: boolean;
+  transferred: SyncFile[];
+  /** 传输（dryRun 时是将要传输）的总字节数 */
+  bytes: number;
+  unchanged: number;
+  createdDirs: string[];
+  deleted: string[];
+  skipped: string[];
+  ms: number;
+}
+
+interface Tree {
+  files: Map<string, FsAttrs>;
+  dirs: Set<string>;
+  skipped: string[];
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "*" && pattern[i + 1] === "*") {
+      re += ".*";
+      i++;
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** 模式带 / 的匹配相对路径，否则匹配文件名 */
+function matcher(patterns: string[] | undefined): ((rel: string) => boolean) | null {
+  if (!patterns?.length) return null;
+  const compiled = patterns.map((p) => ({ re: globToRegExp(p.replace(/^\/+|\/+$/g, "")), byPath: p.includes("/") }));
+  return (rel) => compiled.some(({ re, byPath }) => re.test(byPath ? rel : pathPosix.basename(rel)));
+}
+
+/**
+ * 扫整个目录树：rel 一律用 / 分隔。根不存在返回 null，根不是目录抛错
+ */
+async function scanTree(
+  ops: FsOps,
+  root: string,
+  include: ((rel: string) => boolean) | null,
+  exclude: ((rel: string) => boolean) | null
+): Promise<Tree | null> {
+  const top = await ops.stat(root).catch(() => null);
+  if (!top) return null;
+  if (fileType(top.mode) !== "dir") throw new Error(`${root} 不是目录`);
+  const tree: Tree = { files: new Map(), dirs: new Set(), skipped: [] };
+  const walk = async (rel: string): Promise<void> => {
+    const names = (await ops.readdir(rel ? ops.join(root, rel) : root)).filter((n) => n !== "." && n !== "..").sort();
+    for (const name of names) {
+      const childRel = rel ? `${rel}/${name}` : name;
+      if (exclude?.(childRel)) continue;
+      const st = await ops.lstat(ops.join(root, childRel));
+      const type = fileType(st.mode);
+      if (type === "dir") {
+        tree.dirs.add(childRel);
+        await walk(childRel);
+      } else if (type === "file") {
+        if (!include || include(childRel)) tree.files.set(childRel, st);
+      } else {
+        tree.skipped.push(childRel);
+      }
+    }
+  };
+  await walk("");
+  return tree;
+}
+
+/** 父目录一路建（已存在不报错） */
+async function mkdirp(ops: FsOps, dir: string): Promise<void> {
+  const existing = await ops.stat(dir).catch(() => null);
+  if (existing) {
+    if (fileType(existing.mode) !== "dir") throw new Error(`${dir} 已存在且不是目录`);
+    return;
+  }
+  const parent = ops.join(dir, "..");
+  if (parent !== dir) await mkdirp(ops, parent);
+  await ops.mkdir(dir);
+}
+
+function ancestors(rel: string): string[] {
+  const parts = rel.split("/");
+  return parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+/**
+ * 比对两边目录树并（非 dryRun 时）执行同步
+ */
+export async function syncTrees(sftp: SFTPWrapper, options: SyncOptions): Promise<SyncResult> {
+  const started = Date.now();
+  const up = options.direction === "up";
+  const remote = sftpOps(sftp);
+  const src = up ? localOps : remote;
+  const dst = up ? remote : localOps;
+  const srcRoot = up ? options.localPath : options.remotePath;
+  const dstRoot = up ? options.remotePath : options.localPath;
+  const localAbs = (rel: string) => localOps.join(options.localPath, rel);
+  const compare = options.compare ?? "sizeMtime";
+
+  options.checkLocal(options.localPath, up ? "upload" : "download");
+  const include = matcher(options.include);
+  const exclude = matcher(options.exclude);
+  const source = await scanTree(src, srcRoot, include, exclude);
+  if (!source) throw new Error(`源目录不存在: ${srcRoot}`);
+  const target = (await scanTree(dst, dstRoot, include, exclude)) ?? { files: new Map(), dirs: new Set<string>(), skipped: [] };
+
+  // 1. 要传的文件
+  const transferred: SyncFile[] = [];
+  let unchanged = 0;
+  for (const [rel, st] of source.files) {
+    if (target.dirs.has(rel)) throw new Error(`目标里 ${rel} 是目录，源里是文件，先处理掉再同步`);
+    const existing = target.files.get(rel);
+    let reason: SyncFile["reason"] | null = null;
+    if (!existing) reason = "new";
+    else if (compare === "always") reason = "copy";
+    else if (existing.size !== st.size) reason = "size";
+    else if (compare === "checksum") {
+      const [a, b] = await Promise.all([src.sha256(src.join(srcRoot, rel)), dst.sha256(dst.join(dstRoot, rel))]);
+      if (a !== b) reason = "checksum";
+    } else if (Math.floor(existing.mtimeMs / 1000) !== Math.floor(st.mtimeMs / 1000)) reason = "mtime";
+    if (reason) transferred.push({ path: rel, bytes: st.size, reason });
+    else unchanged++;
+  }
+
+  // 本机路径检查放在动手之前：清单里有一个不让传的就整个不开始，不会传到一半才停
+  for (const file of transferred) options.checkLocal(localAbs(file.path), up ? "upload" : "download");
+
+  // 2. 要建的目录：没有 include 时照搬源的目录结构，有 include 时只建传输文件的上级目录
+  const wanted = new Set<string>(include ? transferred.flatMap((f) => ancestors(f.path)) : source.dirs);
+  for (const rel of wanted) {
+    if (target.files.has(rel)) throw new Error(`目标里 ${rel} 是文件，源里是目录，先处理掉再同步`);
+  }
+  const createdDirs = [...wanted].filter((rel) => !target.dirs.has(rel)).sort();
+
+  // 3. 要删的：目标里有、源里没有的（文件先删，目录从深到浅）
+  const deleted: string[] = [];
+  if (options.delete) {
+    for (const rel of target.files.keys()) if (!source.files.has(rel)) deleted.push(rel);
+    const dirs = [...target.dirs].filter((rel) => !source.dirs.has(rel));
+    dirs.sort((a, b) => b.split("/").length - a.split("/").length);
+    deleted.push(...dirs);
+  }
+
+  const result: SyncResult = {
+    direction: options.direction,
+    from: srcRoot,
+    to: dstRoot,
+    dryRun: !!options.dryRun,
+    transferred,
+    bytes: transferred.reduce((sum, f) => sum + f.bytes, 0),
+    unchanged,
+    createdDirs,
+    deleted,
+    skipped: source.skipped,
+    ms: 0,
+  };
+  if (options.dryRun) {
+    result.ms = Date.now() - started;
+    return result;
+  }
+
+  await mkdirp(dst, dstRoot);
+  for (const rel of createdDirs) {
+    if (!up) options.checkLocal(localAbs(rel), "download");
+    await dst.mkdir(dst.join(dstRoot, rel)).catch(async (e) => {
+      // 上一轮中途失败留下的目录：已存在就接着用
+      if (!(await dst.stat(dst.join(dstRoot, rel)).catch(() => null))) throw e;
+    });
+  }
+  for (const [i, file] of transferred.entries()) {
+    const st = source.files.get(file.path)!;
+    const from = src.join(srcRoot, file.path);
+    const to = dst.join(dstRoot, file.path);
+    await new Promise<void>((res, rej) => {
+      const done = (err?: Error | null) => (err ? rej(new Error(`${file.path}: ${err.message}`)) : res());
+      if (up) sftp.fastPut(from, to, done);
+      else sftp.fastGet(from, to, done);
+    });
+    // windows 目标机等不支持 chmod 时忽略，mtime 对不上只会让下次多传一遍
+    await dst.chmod(to, st.mode & 0o777).catch(() => undefined);
+    await dst.utimes(to, st.mtimeMs).catch(() => undefined);
+    options.onFile?.(i + 1, transferred.length, file.path);
+  }
+  const kept = new Set<string>();
+  for (const rel of deleted) {
+    const p = dst.join(dstRoot, rel);
+    if (!up) options.checkLocal(p, "download");
+    if (!target.dirs.has(rel)) {
+      await dst.unlink(p);
+      continue;
+    }
+    // 目录里还有被 exclude 的东西时删不掉，留着（和 rsync 一样）
+    await dst.rmdir(p).catch(() => kept.add(rel));
+  }
+  result.deleted = deleted.filter((rel) => !kept.has(rel));
+  result.ms = Date.now() - started;
+  return result;
+}
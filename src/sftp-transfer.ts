@@ -0,0 +1,430 @@
+import { SFTPWrapper } from "ssh2";
+import { promises as fsp } from "fs";
+import { basename, dirname, join, posix as pathPosix } from "path";
+import { localOps, sftpOps } from "./fs-ops.js";
+
+/**
+ * 单文件 upload / download：断点续传 + 两端 sha256 校验 + 临时文件原子改名。
+ * - 先写到目标同目录的 .<文件名>.part；上次断在半路就从已有的 .part 接着传。
+ *   并发写可能在断点前留下空洞，所以从 .part 的大小往回退一个并发窗口再续
+ * - 传完两端各算 sha256：对不上就删掉 .part，这次是续传的话从头再传一遍，否则报错
+ * - 校验通过才把 .part 改名成目标文件（远端优先 posix-rename，目标已存在也是原子替换）
+ * 服务器之间的 transfer 也走这里（relayTransfer），hub 跨 node 中转用的分块读写在文件末尾。
+ */
+
+/** 每个读写请求的大小和同时在途的请求数（SFTP 单包 32KB，靠并发把隧道的延迟藏起来） */
+const CHUNK = 32 * 1024;
+const PARALLEL = 32;
+/** 续传时往回退的字节数：断开那一刻最多有这么多还在途 */
+const RESUME_BACKOFF = CHUNK * PARALLEL;
+const PROGRESS_INTERVAL_MS = 1000;
+
+export interface TransferOptions {
+  /** 远端文件的 sha256（经 exec 跑 sha256sum 之类）；拿不到返回 null，退回经 SFTP 读一遍来算 */
+  remoteSha256?: (path: string) => Promise<string | null>;
+  /** 传输进度（字节），最多每秒一次 */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface TransferResult {
+  from: string;
+  to: string;
+  /** 文件大小 */
+  bytes: number;
+  /** 这次实际传了多少字节（续传时小于 bytes） */
+  transferred: number;
+  /** 从哪个偏移续传的（没续传为 undefined） */
+  resumedFrom?: number;
+  sha256: string;
+  /** 传输用时（秒，不含校验） */
+  seconds: number;
+  /** 这次的传输速率（字节/秒） */
+  bytesPerSecond: number;
+  /** 两端算 sha256 的用时（秒） */
+  verifySeconds: number;
+}
+
+type ReadAt = (buf: Buffer, offset: number, length: number, position: number) => Promise<number>;
+type WriteAt = (buf: Buffer, length: number, position: number) => Promise<void>;
+
+/** .part 临时文件路径：目标同目录下的隐藏文件，改名才能是原子的 */
+function partPath(path: string, posix: boolean): string {
+  return posix
+    ? pathPosix.join(pathPosix.dirname(path), `.${pathPosix.basename(path)}.part`)
+    : join(dirname(path), `.${basename(path)}.part`);
+}
+
+/** 从 position 起读满 buf（SFTP 的一次 read 可能返回得比要的少） */
+async function readFully(read: ReadAt, buf: Buffer, position: number): Promise<void> {
+  let got = 0;
+  while (got < buf.length) {
+    const n = await read(buf, got, buf.length - got, position + got);
+    if (n === 0) throw new Error("源文件在传输过程中变短了");
+    got += n;
+  }
+}
+
+/**
+ * 把 [start, total) 分块并发地从 read 搬到 write（按偏移读写，块之间不依赖顺序）
+ */
+async function copyRange(
+  start: number,
+  total: number,
+  read: ReadAt,
+  write: WriteAt,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  let next = start;
+  let done = start;
+  let lastReport = Date.now();
+  let failed = false;
+  const worker = async () => {
+    while (next < total && !failed) {
+      const pos = next;
+      const len = Math.min(CHUNK, total - pos);
+      next += len;
+      const buf = Buffer.allocUnsafe(len);
+      try {
+        await readFully(read, buf, pos);
+        await write(buf, len, pos);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+      done += len;
+      if (onProgress && Date.now() - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = Date.now();
+        onProgress(done, total);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: PARALLEL }, worker));
+}
+
+function sftpCall<T>(fn: (cb: (err: Error | null | undefined, value?: T) => void) => void): Promise<T> {
+  return new Promise<T>((res, rej) => fn((err, value) => (err ? rej(err) : res(value as T))));
+}
+
+function closeRemote(sftp: SFTPWrapper, handle: Buffer): Promise<void> {
+  return sftpCall<void>((cb) => sftp.close(handle, cb)).catch(() => undefined);
+}
+
+function readRemote(sftp: SFTPWrapper, handle: Buffer): ReadAt {
+  return (buf, offset, length, position) =>
+    sftpCall<number>((cb) => sftp.read(handle, buf, offset, length, position, (err, bytesRead) => cb(err, bytesRead)));
+}
+
+function writeRemote(sftp: SFTPWrapper, handle: Buffer): WriteAt {
+  return (buf, length, position) => sftpCall<void>((cb) => sftp.write(handle, buf, 0, length, position, cb));
+}
+
+/**
+ * 远端 .part → 目标：OpenSSH 支持 posix-rename 就原子替换；不支持时退回普通 rename，
+ * 目标已存在（SFTP v3 的 rename 不覆盖）就先删目标再改名
+ */
+async function renameRemote(sftp: SFTPWrapper, from: string, to: string): Promise<void> {
+  try {
+    await sftpCall((cb) => sftp.ext_openssh_rename(from, to, cb));
+    return;
+  } catch {
+    // 服务端没有 posix-rename 扩展
+  }
+  try {
+    await sftpCall((cb) => sftp.rename(from, to, cb));
+  } catch {
+    await sftpCall((cb) => sftp.unlink(to, cb)).catch(() => undefined);
+    await sftpCall((cb) => sftp.rename(from, to, cb));
+  }
+}
+
+function mismatch(source: string, target: string): Error {
+  return new Error(`sha256 校验不通过（源 ${source.slice(0, 16)}…，目标 ${target.slice(0, 16)}…），已删掉临时文件`);
+}
+
+/**
+ * 一轮传输：决定续传起点、搬数据、两端校验。校验不通过返回两端的 sha256（.part 已删）
+ */
+async function transferOnce(
+  resume: boolean,
+  total: number,
+  partSize: number | null,
+  open: (start: number) => Promise<{ read: ReadAt; write: WriteAt; close: () => Promise<void> }>,
+  hashes: () => Promise<[string, string]>,
+  dropPart: () => Promise<void>,
+  onProgress: TransferOptions["onProgress"]
+): Promise<Omit<TransferResult, "from" | "to"> | { source: string; target: string; resumed: boolean }> {
+  const start = resume && partSize !== null && partSize <= total ? Math.max(0, partSize - RESUME_BACKOFF) : 0;
+  const started = Date.now();
+  const io = await open(start);
+  try {
+    await copyRange(start, total, io.read, io.write, onProgress);
+  } finally {
+    await io.close();
+  }
+  const seconds = (Date.now() - started) / 1000;
+  const verifyStarted = Date.now();
+  const [source, target] = await hashes();
+  if (source !== target) {
+    await dropPart();
+    return { source, target, resumed: start > 0 };
+  }
+  return {
+    bytes: total,
+    transferred: total - start,
+    resumedFrom: start > 0 ? start : undefined,
+    sha256: source,
+    seconds: Number(seconds.toFixed(2)),
+    bytesPerSecond: Math.round((total - start) / Math.max(seconds, 0.001)),
+    verifySeconds: Number(((Date.now() - verifyStarted) / 1000).toFixed(2)),
+  };
+}
+
+/**
+ * 先按已有 .part 续传；续传的结果对不上（.part 被别的东西改过之类）就从头再来一次，还不对才报错
+ */
+async function transfer(
+  total: number,
+  partSize: number | null,
+  open: (start: number) => Promise<{ read: ReadAt; write: WriteAt; close: () => Promise<void> }>,
+  hashes: () => Promise<[string, string]>,
+  dropPart: () => Promise<void>,
+  onProgress: TransferOptions["onProgress"]
+): Promise<Omit<TransferResult, "from" | "to">> {
+  let outcome = await transferOnce(true, total, partSize, open, hashes, dropPart, onProgress);
+  if ("source" in outcome && outcome.resumed) {
+    outcome = await transferOnce(false, total, null, open, hashes, dropPart, onProgress);
+  }
+  if ("source" in outcome) throw mismatch(outcome.source, outcome.target);
+  return outcome;
+}
+
+async function remoteHash(sftp: SFTPWrapper, path: string, hash: TransferOptions["remoteSha256"]): Promise<string> {
+  return (await hash?.(path)) ?? (await sftpOps(sftp).sha256(path));
+}
+
+export async function resumableUpload(
+  sftp: SFTPWrapper,
+  localPath: string,
+  remotePath: string,
+  options: TransferOptions = {}
+): Promise<TransferResult> {
+  const total = (await fsp.stat(localPath)).size;
+  const part = partPath(remotePath, true);
+  const open = async (start: number) => {
+    const fh = await fsp.open(localPath, "r");
+    let handle: Buffer;
+    try {
+      handle = await sftpCall<Buffer>((cb) => sftp.open(part, start > 0 ? "r+" : "w", cb));
+    } catch (e) {
+      await fh.close();
+      throw e;
+    }
+    return {
+      read: async (buf: Buffer, offset: number, length: number, position: number) =>
+        (await fh.read(buf, offset, length, position)).bytesRead,
+      write: writeRemote(sftp, handle),
+      close: async () => {
+        await fh.close();
+        await closeRemote(sftp, handle);
+      },
+    };
+  };
+  const hashes = () => Promise.all([localOps.sha256(localPath), remoteHash(sftp, part, options.remoteSha256)]);
+  const dropPart = () => sftpCall<void>((cb) => sftp.unlink(part, cb)).catch(() => undefined);
+
+  const partSize = (await sftpOps(sftp).stat(part).catch(() => null))?.size ?? null;
+  const outcome = await transfer(total, partSize, open, hashes, dropPart, options.onProgress);
+  await renameRemote(sftp, part, remotePath);
+  return { from: localPath, to: remotePath, ...outcome };
+}
+
+export async function resumableDownload(
+  sftp: SFTPWrapper,
+  remotePath: string,
+  localPath: string,
+  options: TransferOptions = {}
+): Promise<TransferResult> {
+  const total = (await sftpOps(sftp).stat(remotePath)).size;
+  const part = partPath(localPath, false);
+  const open = async (start: number) => {
+    const handle = await sftpCall<Buffer>((cb) => sftp.open(remotePath, "r", cb));
+    let fh: fsp.FileHandle;
+    try {
+      fh = await fsp.open(part, start > 0 ? "r+" : "w");
+    } catch (e) {
+      await closeRemote(sftp, handle);
+      throw e;
+    }
+    return {
+      read: readRemote(sftp, handle),
+      write: async (buf: Buffer, length: number, position: number) => {
+        await fh.write(buf, 0, length, position);
+      },
+      close: async () => {
+        await fh.close();
+        await closeRemote(sftp, handle);
+      },
+    };
+  };
+  const hashes = () => Promise.all([remoteHash(sftp, remotePath, options.remoteSha256), localOps.sha256(part)]);
+  const dropPart = () => fsp.unlink(part).catch(() => undefined);
+
+  const partSize = (await fsp.stat(part).catch(() => null))?.size ?? null;
+  const outcome = await transfer(total, partSize, open, hashes, dropPart, options.onProgress);
+  await fsp.rename(part, localPath);
+  return { from: remotePath, to: localPath, ...outcome };
+}
+
+export interface RelayOptions {
+  /** 两端各自的 sha256（同 TransferOptions.remoteSha256） */
+  fromSha256?: (path: string) => Promise<string | null>;
+  toSha256?: (path: string) => Promise<string | null>;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * 远端 → 远端：在两条 SFTP 通道之间按块直接搬，数据只过 daemon 内存、不落本机盘。
+ * 续传、校验、.part 改名和单文件 upload / download 一样
+ */
+export async function relayTransfer(
+  from: SFTPWrapper,
+  fromPath: string,
+  to: SFTPWrapper,
+  toPath: string,
+  options: RelayOptions = {}
+): Promise<TransferResult> {
+  const total = (await sftpOps(from).stat(fromPath)).size;
+  const part = partPath(toPath, true);
+  const open = async (start: number) => {
+    const src = await sftpCall<Buffer>((cb) => from.open(fromPath, "r", cb));
+    let dst: Buffer;
+    try {
+      dst = await sftpCall<Buffer>((cb) => to.open(part, start > 0 ? "r+" : "w", cb));
+    } catch (e) {
+      await closeRemote(from, src);
+      throw e;
+    }
+    return {
+      read: readRemote(from, src),
+      write: writeRemote(to, dst),
+      close: async () => {
+        await closeRemote(to, dst);
+        await closeRemote(from, src);
+      },
+    };
+  };
+  const hashes = () => Promise.all([remoteHash(from, fromPath, options.fromSha256), remoteHash(to, part, options.toSha256)]);
+  const dropPart = () => sftpCall<void>((cb) => to.unlink(part, cb)).catch(() => undefined);
+
+  const partSize = (await sftpOps(to).stat(part).catch(() => null))?.size ?? null;
+  const outcome = await transfer(total, partSize, open, hashes, dropPart, options.onProgress);
+  await renameRemote(to, part, toPath);
+  return { from: fromPath, to: toPath, ...outcome };
+}
+
+/** hub 跨 node 中转每块最多多少字节（base64 之后一条 MCP 消息约 1.4MB） */
+export const RELAY_CHUNK_MAX = 1024 * 1024;
+
+/**
+ * hub 中转的源端：读 [offset, offset + length)，sftp 为 null 时读本机文件。
+ * 顺带回报文件大小，中转方据此判断读完没有、源文件中途有没有变
+ */
+export async function readChunk(
+  sftp: SFTPWrapper | null,
+  path: string,
+  offset: number,
+  length: number
+): Promise<{ size: number; data: Buffer }> {
+  const size = sftp ? (await sftpOps(sftp).stat(path)).size : (await fsp.stat(path)).size;
+  const data = Buffer.allocUnsafe(Math.max(0, Math.min(length, size - offset)));
+  if (data.length === 0) return { size, data };
+  if (sftp) {
+    const handle = await sftpCall<Buffer>((cb) => sftp.open(path, "r", cb));
+    try {
+      await readFully(readRemote(sftp, handle), data, offset);
+    } finally {
+      await closeRemote(sftp, handle);
+    }
+  } else {
+    const fh = await fsp.open(path, "r");
+    try {
+      await readFully(async (buf, off, len, pos) => (await fh.read(buf, off, len, pos)).bytesRead, data, offset);
+    } finally {
+      await fh.close();
+    }
+  }
+  return { size, data };
+}
+
+/**
+ * hub 中转的源端收尾：整个源文件的大小和 sha256，中转方拿它和自己边转边算的比，
+ * 对上了才让目标端 commit（只比转发的字节，源文件在两次读之间被改过也看不出来）
+ */
+export async function hashSource(
+  sftp: SFTPWrapper | null,
+  path: string,
+  hash?: TransferOptions["remoteSha256"]
+): Promise<{ size: number; sha256: string }> {
+  if (!sftp) {
+    const [st, sha256] = await Promise.all([fsp.stat(path), localOps.sha256(path)]);
+    return { size: st.size, sha256 };
+  }
+  const [st, sha256] = await Promise.all([sftpOps(sftp).stat(path), remoteHash(sftp, path, hash)]);
+  return { size: st.size, sha256 };
+}
+
+/**
+ * hub 中转的目标端：把一块写进目标旁的 .part。offset 0 新建（旧 .part 清空）；
+ * 其余必须接在已写内容之内或紧接其后——连接抖动重发同一块是幂等的，跳过一段就报错
+ */
+export async function writeChunk(sftp: SFTPWrapper | null, path: string, offset: number, data: Buffer): Promise<number> {
+  const part = partPath(path, sftp !== null);
+  if (offset > 0) {
+    const partSize = sftp
+      ? (await sftpOps(sftp).stat(part).catch(() => null))?.size
+      : (await fsp.stat(part).catch(() => null))?.size;
+    if (partSize === undefined || offset > partSize) {
+      throw new Error(`中转断档：${part} 现有 ${partSize ?? 0} 字节，这块却从 ${offset} 开始`);
+    }
+  }
+  const flags = offset > 0 ? "r+" : "w";
+  if (sftp) {
+    const handle = await sftpCall<Buffer>((cb) => sftp.open(part, flags, cb));
+    try {
+      if (data.length > 0) await writeRemote(sftp, handle)(data, data.length, offset);
+    } finally {
+      await closeRemote(sftp, handle);
+    }
+  } else {
+    const fh = await fsp.open(part, flags);
+    try {
+      if (data.length > 0) await fh.write(data, 0, data.length, offset);
+    } finally {
+      await fh.close();
+    }
+  }
+  return offset + data.length;
+}
+
+/**
+ * hub 中转收尾：.part 的 sha256 和中转方边读边算的对上了才改名成目标，对不上删掉 .part
+ */
+export async function commitChunks(
+  sftp: SFTPWrapper | null,
+  path: string,
+  sha256: string,
+  hash?: TransferOptions["remoteSha256"]
+): Promise<{ bytes: number; sha256: string }> {
+  const part = partPath(path, sftp !== null);
+  const st = sftp ? await sftpOps(sftp).stat(part).catch(() => null) : await fsp.stat(part).catch(() => null);
+  if (!st) throw new Error(`没有待提交的 ${part}（先按块写完再 commit）`);
+  const actual = sftp ? await remoteHash(sftp, part, hash) : await localOps.sha256(part);
+  if (actual !== sha256.toLowerCase()) {
+    if (sftp) await sftpCall<void>((cb) => sftp.unlink(part, cb)).catch(() => undefined);
+    else await fsp.unlink(part).catch(() => undefined);
+    throw mismatch(sha256, actual);
+  }
+  if (sftp) await renameRemote(sftp, part, path);
+  else await fsp.rename(part, path);
+  return { bytes: st.size, sha256: actual };
+}
@@ -1,4 +1,4 @@
-import { Client, ClientChannel } from "ssh2";
+import { Client, ClientChannel, ShellOptions } from "ssh2";
 import { randomBytes } from "crypto";
 import * as pty from "node-pty";
 import { ShellResult, ShellConfig } from "./types.js";
@@ -43,11 +43,15 @@ export class ShellManager {
 
   /**
    * 打开远程 PTY Shell（在 SSH 连接成功后调用）
+   * @param options.agentForward 在这条 shell channel 上请求 agent 转发（连接需已配置 agent）
    */
-  async open(client: Client): Promise<void> {
+  async open(client: Client, options?: { agentForward?: boolean }): Promise<void> {
+    // @types/ssh2 没声明 agentForward，但 ssh2 运行时认它（同 exec-runner）
+    const shellOpts = { agentForward: options?.agentForward ?? false } as ShellOptions;
     return new Promise((resolve, reject) => {
       client.shell(
         { term: "xterm-256color", rows: 40, cols: 120 },
+        shellOpts,
         (err, stream) => {
           if (err) {
             reject(new Error(`无法打开 shell: ${err.message}`));
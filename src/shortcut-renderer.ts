@@ -1,7 +1,19 @@
 import { randomBytes } from "crypto";
-import { ShortcutConfig } from "./types.js";
+import { ShortcutArg, ShortcutArgType, ShortcutArgValue, ShortcutConfig } from "./types.js";
+import { validateOutputSpec } from "./output-parser.js";
 
-const PLACEHOLDER_RE = /\{\{\s*(args|secret)\.([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+const NAME = "[a-zA-Z_][a-zA-Z0-9_]*";
+/** 模板里引用参数 / secret 的地方：{{args.X}}、{{secret.X}}、{{#if args.X}}、{{#each args.X}}、{{#args.X}}、{{/args.X}} */
+const REF_RE = new RegExp(`\\{\\{\\s*(?:#if\\s+|#each\\s+|#|/)?(args|secret)\\.(${NAME})\\s*\\}\\}`, "g");
+/**
+ * 模板语法记号。只认这些形式，其他 {{…}}（如 docker --format '{{.Names}}'）原样当文本；
+ * {{else}} 只在 if 块里、{{this}} 只在 each 块里才是语法，别处同样当文本（Go 模板也用 {{else}}）
+ */
+const TOKEN_RE = new RegExp(
+  `\\{\\{\\s*(?:(#if|#each)\\s+(\\S+?)|#args\\.(${NAME})|/args\\.(${NAME})|(args|secret)\\.(${NAME})|(/if|/each|else|this))\\s*\\}\\}`,
+  "g"
+);
+const ARG_TYPES: ShortcutArgType[] = ["string", "int", "bool", "path", "duration", "json"];
 
 /**
  * 用单引号安全包裹一个字符串作为 shell 参数。
@@ -17,14 +29,14 @@ export interface ParsedPlaceholders {
 }
 
 /**
- * 扫描一段或多段模板里的 {{args.X}} 和 {{secret.X}} 占位符。
+ * 扫描一段或多段模板里的 {{args.X}} 和 {{secret.X}} 占位符（#if / #each / 块标记里的 args.X 也算引用）。
  */
 export function parsePlaceholders(...templates: (string | undefined)[]): ParsedPlaceholders {
   const args = new Set<string>();
   const secrets = new Set<string>();
   for (const tpl of templates) {
     if (!tpl) continue;
-    for (const m of tpl.matchAll(PLACEHOLDER_RE)) {
+    for (const m of tpl.matchAll(REF_RE)) {
       if (m[1] === "args") args.add(m[2]);
       else secrets.add(m[2]);
     }
@@ -32,12 +44,285 @@ export function parsePlaceholders(...templates: (string | undefined)[]): ParsedP
   return { args, secrets };
 }
 
+type TemplateNode =
+  | { t: "text"; v: string }
+  | { t: "arg"; name: string }
+  | { t: "secret"; name: string }
+  | { t: "this" }
+  | { t: "if"; name: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { t: "each"; name: string; body: TemplateNode[] };
+
+interface Frame {
+  kind: "root" | "if" | "section" | "each";
+  name: string;
+  nodes: TemplateNode[];
+  elseNodes?: TemplateNode[];
+}
+
+function openTag(f: Frame): string {
+  return f.kind === "section" ? `{{#args.${f.name}}}` : `{{#${f.kind} args.${f.name}}}`;
+}
+
+/**
+ * 把模板解析成语法树：
+ * - {{#if args.X}}…{{else}}…{{/if}}：X 传了值（bool 为 true、list 非空）才渲染前半段，否则渲染 else 段
+ * - {{#args.X}}…{{/args.X}}：等价于不带 else 的 #if
+ * - {{#each args.X}}…{{this}}…{{/each}}：对 list 参数的每一项渲染一遍，{{this}} 是当前项
+ * 块不成对时抛错（消息不带 shortcut 名）
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const root: Frame = { kind: "root", name: "", nodes: [] };
+  const stack: Frame[] = [root];
+  const top = () => stack[stack.length - 1];
+  const out = () => top().elseNodes ?? top().nodes;
+  let last = 0;
+  for (const m of template.matchAll(TOKEN_RE)) {
+    if (m.index! > last) out().push({ t: "text", v: template.slice(last, m.index) });
+    last = m.index! + m[0].length;
+    const [raw, blockKw, blockRef, sectionOpen, sectionClose, kind, name, word] = m;
+    if (blockKw) {
+      const ref = /^args\.([a-zA-Z_][a-zA-Z0-9_]*)$/.exec(blockRef);
+      if (!ref) throw new Error(`${raw} 不合法：只能按参数写（${blockKw} args.X）`);
+      stack.push({ kind: blockKw === "#if" ? "if" : "each", name: ref[1], nodes: [] });
+    } else if (sectionOpen) {
+      stack.push({ kind: "section", name: sectionOpen, nodes: [] });
+    } else if (kind) {
+      out().push(kind === "args" ? { t: "arg", name } : { t: "secret", name });
+    } else if (word === "else") {
+      const f = top();
+      if ((f.kind === "if" || f.kind === "section") && !f.elseNodes) f.elseNodes = [];
+      else out().push({ t: "text", v: raw });
+    } else if (word === "this") {
+      if (stack.some((f) => f.kind === "each")) out().push({ t: "this" });
+      else out().push({ t: "text", v: raw });
+    } else {
+      // 收尾标记：/if、/each、/args.X
+      const want = sectionClose !== undefined ? "section" : word === "/if" ? "if" : "each";
+      const f = top();
+      if (f.kind === "root") throw new Error(`${raw} 前面没有对应的开始标记`);
+      if (f.kind !== want || (want === "section" && f.name !== sectionClose)) {
+        throw new Error(`${raw} 对不上外层的 ${openTag(f)}`);
+      }
+      stack.pop();
+      out().push(
+        f.kind === "each"
+          ? { t: "each", name: f.name, body: f.nodes }
+          : { t: "if", name: f.name, then: f.nodes, else: f.elseNodes ?? [] }
+      );
+    }
+  }
+  if (last < template.length) out().push({ t: "text", v: template.slice(last) });
+  if (stack.length > 1) throw new Error(`${openTag(top())} 没有闭合`);
+  return root.nodes;
+}
+
+/**
+ * 遍历语法树，对每个 {{args.X}} 给出外层有哪些守卫（#if / #each / {{#args.X}} 的参数名），
+ * 对每个 #each 给出它遍历的参数名
+ */
+function walkTemplate(
+  nodes: TemplateNode[],
+  visit: (node: TemplateNode, guards: string[]) => void,
+  guards: string[] = []
+): void {
+  for (const node of nodes) {
+    visit(node, guards);
+    if (node.t === "if") {
+      walkTemplate(node.then, visit, [...guards, node.name]);
+      walkTemplate(node.else, visit, guards);
+    } else if (node.t === "each") {
+      walkTemplate(node.body, visit, [...guards, node.name]);
+    }
+  }
+}
+
+/**
+ * 时长转秒：30 / 90s / 5m / 2h / 1d / 1h30m，认不出返回 null
+ */
+function parseDuration(text: string): number | null {
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+  if (!/^(?:\d+[smhd])+$/.test(text)) return null;
+  const unit: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+  let secs = 0;
+  for (const m of text.matchAll(/(\d+)([smhd])/g)) secs += parseInt(m[1], 10) * unit[m[2]];
+  return secs;
+}
+
+function rangeProblem(arg: ShortcutArg, n: number, what: (bound: number, side: "min" | "max") => string): string | null {
+  if (arg.min !== undefined && n < arg.min) return what(arg.min, "min");
+  if (arg.max !== undefined && n > arg.max) return what(arg.max, "max");
+  return null;
+}
+
+/**
+ * 按参数声明校验单个值（list 参数的每一项分别走这里），返回规范化后的文本；不合法抛错（消息不带参数名）
+ */
+function checkValue(arg: ShortcutArg, text: string): string {
+  let value = text;
+  let problem: string | null = null;
+  switch (arg.type ?? "string") {
+    case "int": {
+      if (!/^[+-]?\d+$/.test(text)) throw new Error(`必须是整数，收到 '${text}'`);
+      const n = Number(text);
+      // 超出安全整数的会被 Number 悄悄改掉（1e+23、…992），渲染进命令的就不是调用方给的数了
+      if (!Number.isSafeInteger(n)) throw new Error(`整数超出范围（±${Number.MAX_SAFE_INTEGER}），收到 '${text}'`);
+      value = text.replace(/^\+/, "");
+      problem = rangeProblem(arg, n, (b, side) => `${side === "min" ? "不能小于" : "不能大于"} ${b}，收到 ${n}`);
+      break;
+    }
+    case "bool": {
+      const lower = text.toLowerCase();
+      if (["true", "1", "yes", "on"].includes(lower)) value = "true";
+      else if (["false", "0", "no", "off"].includes(lower)) value = "false";
+      else throw new Error(`必须是布尔值（true / false），收到 '${text}'`);
+      break;
+    }
+    case "duration": {
+      const secs = parseDuration(text);
+      if (secs === null) throw new Error(`必须是时长（如 30s、5m、2h、1h30m），收到 '${text}'`);
+      problem = rangeProblem(arg, secs, (b, side) => `${side === "min" ? "不能短于" : "不能长于"} ${b} 秒，收到 '${text}'（${secs} 秒）`);
+      break;
+    }
+    case "json": {
+      try {
+        value = JSON.stringify(JSON.parse(text));
+      } catch (e) {
+        throw new Error(`必须是合法 JSON: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      break;
+    }
+    case "path":
+      if (/[\n\0]/.test(text)) throw new Error("路径不能含换行或 NUL");
+      if (text.startsWith("-")) throw new Error(`路径不能以 - 开头（会被当成选项），收到 '${text}'`);
+    // fallthrough：长度限制同 string
+    case "string":
+      problem = rangeProblem(arg, text.length, (b, side) => `长度${side === "min" ? "不能小于" : "不能大于"} ${b}，收到 ${text.length} 个字符`);
+      break;
+  }
+  if (problem) throw new Error(problem);
+  if (arg.enum && !arg.enum.includes(value)) {
+    throw new Error(`必须是 [${arg.enum.join(", ")}] 之一，收到 '${text}'`);
+  }
+  if (arg.pattern && !new RegExp(`^(?:${arg.pattern})$`).test(value)) {
+    throw new Error(`必须匹配 /${arg.pattern}/，收到 '${text}'`);
+  }
+  return value;
+}
+
 /**
- * 静态校验单个 shortcut 的模板与声明的 args / secrets 是否一致，
- * 以及 enum/default 的合法性。在 ConfigManager.load() 后调用，发现问题立即抛错。
+ * 把调用方给的原始值转成渲染用的值：list 参数得到数组，其余得到字符串。不合法抛错（消息以 参数 'X' 开头）
+ */
+function coerceArg(arg: ShortcutArg, raw: ShortcutArgValue): string | string[] {
+  const label = `参数 '${arg.name}'`;
+  if (Array.isArray(raw) || arg.list) {
+    if (!arg.list) throw new Error(`${label} 不是 list 参数，不能传数组`);
+    const items = Array.isArray(raw) ? raw : [raw];
+    return items.map((item, i) => {
+      if (typeof item !== "string" && typeof item !== "number" && typeof item !== "boolean") {
+        throw new Error(`${label} 第 ${i + 1} 项必须是字符串`);
+      }
+      try {
+        return checkValue(arg, String(item));
+      } catch (e) {
+        throw new Error(`${label} 第 ${i + 1} 项${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+  }
+  if (typeof raw !== "string" && typeof raw !== "number" && typeof raw !== "boolean") {
+    throw new Error(`${label} 必须是字符串`);
+  }
+  try {
+    return checkValue(arg, String(raw));
+  } catch (e) {
+    throw new Error(`${label} ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * #if 块渲不渲：传了值（bool 要是 true，list 要非空）
+ */
+function blockEnabled(arg: ShortcutArg | undefined, value: string | string[] | undefined): boolean {
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (arg?.type === "bool") return value === "true";
+  return true;
+}
+
+/**
+ * shortcut 里所有模板字段：单条命令的 command / stdin，多步的每一步的命令、路径、内容。
+ * escape 表示渲染时代入值要不要 shell-escape（命令要，路径 / 文件内容 / stdin 不要）
+ */
+function shortcutTemplates(cfg: ShortcutConfig): Array<{ field: string; template: string; escape: boolean }> {
+  const out: Array<{ field: string; template: string; escape: boolean }> = [];
+  const add = (field: string, template: string | undefined, escape: boolean) => {
+    if (typeof template === "string") out.push({ field, template, escape });
+  };
+  add("command", cfg.command, true);
+  add("stdin", cfg.stdin, false);
+  (cfg.steps ?? []).forEach((step, i) => {
+    const f = `steps[${i}]`;
+    add(`${f}.command`, step.command, true);
+    add(`${f}.stdin`, step.stdin, false);
+    add(`${f}.upload.localPath`, step.upload?.localPath, false);
+    add(`${f}.upload.remotePath`, step.upload?.remotePath, false);
+    add(`${f}.write.path`, step.write?.path, false);
+    add(`${f}.write.content`, step.write?.content, false);
+    add(`${f}.waitFor.command`, step.waitFor?.command, true);
+  });
+  return out;
+}
+
+/**
+ * 多步 shortcut 的结构校验：每步恰好一种动作、必填字段齐全
+ */
+function validateSteps(prefix: string, cfg: ShortcutConfig): void {
+  if (!Array.isArray(cfg.steps) || cfg.steps.length === 0) {
+    throw new Error(`${prefix} 的 steps 必须是非空数组`);
+  }
+  cfg.steps.forEach((step, i) => {
+    const at = `${prefix} 的 steps[${i}]${step.name ? `（${step.name}）` : ""}`;
+    const actions = (["command", "upload", "write", "waitFor"] as const).filter((k) => step[k] !== undefined);
+    if (actions.length !== 1) {
+      throw new Error(`${at} 必须且只能有 command / upload / write / waitFor 之一${actions.length ? `，现在有 ${actions.join(" + ")}` : ""}`);
+    }
+    if (step.stdin !== undefined && step.command === undefined) {
+      throw new Error(`${at} 的 stdin 只能配合 command 用`);
+    }
+    if (step.upload && (typeof step.upload.localPath !== "string" || typeof step.upload.remotePath !== "string")) {
+      throw new Error(`${at} 的 upload 需要 localPath 和 remotePath`);
+    }
+    if (step.write && (typeof step.write.path !== "string" || typeof step.write.content !== "string")) {
+      throw new Error(`${at} 的 write 需要 path 和 content`);
+    }
+    if (step.waitFor && typeof step.waitFor.command !== "string") {
+      throw new Error(`${at} 的 waitFor 需要 command`);
+    }
+  });
+}
+
+/**
+ * 静态校验单个 shortcut 的模板与声明的 args / secrets 是否一致，块结构是否成对，
+ * 以及 type / pattern / min / max / enum / default 和 output 声明的合法性。在 ConfigManager.load() 后调用，发现问题立即抛错。
  */
 export function validateShortcut(serverName: string, shortcutName: string, cfg: ShortcutConfig): void {
-  const { args: refArgs, secrets: refSecrets } = parsePlaceholders(cfg.command, cfg.stdin);
+  const prefix = `服务器 '${serverName}' 的 shortcut '${shortcutName}'`;
+  if ((cfg.command === undefined) === (cfg.steps === undefined)) {
+    throw new Error(`${prefix} 必须且只能有 command / steps 之一`);
+  }
+  if (cfg.steps) {
+    validateSteps(prefix, cfg);
+    if (cfg.stdin !== undefined) {
+      throw new Error(`${prefix} 用了 steps，stdin 要写到具体步骤里`);
+    }
+    if (cfg.output !== undefined) {
+      throw new Error(`${prefix} 用了 steps，不能配 output（输出解析只用于单条命令）`);
+    }
+  }
+  if (cfg.output !== undefined) {
+    validateOutputSpec(prefix, cfg.output);
+  }
+  const templates = shortcutTemplates(cfg);
+  const { args: refArgs, secrets: refSecrets } = parsePlaceholders(...templates.map((t) => t.template));
   const declaredArgs = new Set((cfg.args ?? []).map((a) => a.name));
   const declaredSecrets = new Set(Object.keys(cfg.secrets ?? {}));
 
@@ -56,46 +341,131 @@ export function validateShortcut(serverName: string, shortcutName: string, cfg:
     }
   }
 
-  // enum / default 静态校验
+  // 块结构：成对嵌套；#each 只能遍历 list 参数
+  const uses: Array<{ name: string; guards: string[] }> = [];
+  for (const { field, template: tpl } of templates) {
+    let nodes: TemplateNode[];
+    try {
+      nodes = parseTemplate(tpl);
+    } catch (e) {
+      throw new Error(`${prefix} 的 ${field} 模板: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    walkTemplate(nodes, (node, guards) => {
+      if (node.t === "arg") uses.push({ name: node.name, guards });
+      if (node.t === "each" && !(cfg.args ?? []).some((a) => a.name === node.name && a.list)) {
+        throw new Error(`${prefix} 的 ${field} 模板: {{#each args.${node.name}}} 只能遍历 list 参数（声明里加 list: true）`);
+      }
+    });
+  }
+
+  // 参数声明静态校验
   for (const arg of cfg.args ?? []) {
+    const argPrefix = `${prefix} 的参数 '${arg.name}'`;
+    const type = arg.type ?? "string";
+    if (!ARG_TYPES.includes(type)) {
+      throw new Error(`${argPrefix} 的 type '${type}' 不认识（可用: ${ARG_TYPES.join(", ")}）`);
+    }
+    if (arg.pattern !== undefined) {
+      try {
+        new RegExp(arg.pattern);
+      } catch (e) {
+        throw new Error(`${argPrefix} 的 pattern 不是合法正则: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    if (arg.min !== undefined || arg.max !== undefined) {
+      if (type === "bool" || type === "json") {
+        throw new Error(`${argPrefix} 是 ${type} 类型，不能设 min / max`);
+      }
+      if ((arg.min !== undefined && typeof arg.min !== "number") || (arg.max !== undefined && typeof arg.max !== "number")) {
+        throw new Error(`${argPrefix} 的 min / max 必须是数字`);
+      }
+      if (arg.min !== undefined && arg.max !== undefined && arg.min > arg.max) {
+        throw new Error(`${argPrefix} 的 min ${arg.min} 大于 max ${arg.max}`);
+      }
+    }
     if (arg.enum && arg.enum.length === 0) {
       throw new Error(
         `服务器 '${serverName}' 的 shortcut '${shortcutName}' 的参数 '${arg.name}' 的 enum 不能为空数组`
       );
     }
-    if (arg.enum && arg.default !== undefined && !arg.enum.includes(arg.default)) {
-      throw new Error(
-        `服务器 '${serverName}' 的 shortcut '${shortcutName}' 的参数 '${arg.name}' 的 default '${arg.default}' 不在 enum [${arg.enum.join(", ")}] 范围内`
-      );
+    for (const item of arg.enum ?? []) {
+      try {
+        checkValue({ ...arg, enum: undefined }, item);
+      } catch (e) {
+        throw new Error(`${argPrefix} 的 enum 值 '${item}' 不合法: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    if (arg.default !== undefined) {
+      try {
+        coerceArg(arg, arg.default);
+      } catch (e) {
+        throw new Error(`${prefix} 的 default 不合法: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    if (arg.required === false && arg.default === undefined) {
+      const bare = uses.find((u) => u.name === arg.name && !u.guards.includes(arg.name));
+      if (bare) {
+        throw new Error(
+          `${argPrefix} 是可选参数且没有 default，{{args.${arg.name}}} 只能写在 {{#if args.${arg.name}}}…{{/if}} 块里`
+        );
+      }
     }
   }
 }
 
+interface RenderContext {
+  declaredArgs: ShortcutArg[];
+  effectiveArgs: Record<string, string | string[]>;
+  secrets: Record<string, string>;
+  escape: boolean;
+  dryRun: boolean;
+}
+
+function renderNodes(nodes: TemplateNode[], ctx: RenderContext, items: string[]): string {
+  const quote = (value: string) => (ctx.escape ? shellQuote(value) : value);
+  return nodes.map((node) => {
+    switch (node.t) {
+      case "text":
+        return node.v;
+      case "this":
+        return quote(items[items.length - 1]);
+      case "arg": {
+        const value = ctx.effectiveArgs[node.name];
+        if (value === undefined) return "";
+        if (Array.isArray(value)) return ctx.escape ? value.map(shellQuote).join(" ") : value.join("\n");
+        return quote(value);
+      }
+      case "secret":
+        // dryRun 时渲染成 <secret:NAME> 占位符，不出真实值
+        return quote(ctx.dryRun ? `<secret:${node.name}>` : ctx.secrets[node.name] ?? "");
+      case "if": {
+        const arg = ctx.declaredArgs.find((a) => a.name === node.name);
+        return renderNodes(blockEnabled(arg, ctx.effectiveArgs[node.name]) ? node.then : node.else, ctx, items);
+      }
+      case "each": {
+        const value = ctx.effectiveArgs[node.name];
+        const list = value === undefined ? [] : Array.isArray(value) ? value : [value];
+        return list.map((item) => renderNodes(node.body, ctx, [...items, item])).join("");
+      }
+    }
+  }).join("");
+}
+
 /**
- * 按占位符渲染一段模板。escape=true 时 args/secrets 走 shell-escape；
- * escape=false 时（heredoc 内）保持字面量。
+ * 渲染一段模板（语法见 parseTemplate）。模板自己的文本原样输出，所有代入的值都经过 quote：
+ * escape=true 时 args/secrets/{{this}} 走 shell-escape，list 参数渲染成多个单引号词；
+ * escape=false 时（heredoc 内）保持字面量，list 参数按行拼接。
  * dryRun=true 时，secrets 渲染为 <secret:NAME> 占位符，而不是真实值。
  */
 function renderTemplate(
   template: string,
-  effectiveArgs: Record<string, string>,
+  declaredArgs: ShortcutArg[],
+  effectiveArgs: Record<string, string | string[]>,
   secrets: Record<string, string>,
   escape: boolean,
   dryRun: boolean
 ): string {
-  return template.replace(PLACEHOLDER_RE, (_match, kind: string, name: string) => {
-    if (kind === "args") {
-      const value = effectiveArgs[name];
-      return escape ? shellQuote(value) : value;
-    }
-    // secret
-    if (dryRun) {
-      const placeholder = `<secret:${name}>`;
-      return escape ? shellQuote(placeholder) : placeholder;
-    }
-    const value = secrets[name] ?? "";
-    return escape ? shellQuote(value) : value;
-  });
+  return renderNodes(parseTemplate(template), { declaredArgs, effectiveArgs, secrets, escape, dryRun }, []);
 }
 
 /**
@@ -124,17 +494,13 @@ export interface RenderedShortcut {
 }
 
 /**
- * 渲染 shortcut（分离形式，推荐）。
- * - command 中的 args/secrets 会被 shell-escape（用单引号包裹）
- * - stdin 中的 args/secrets 保持字面量（不 escape，因为不再走 shell 解析）
- * - dryRun 模式：secrets 渲染为 <secret:NAME> 占位符
+ * 调用参数 → 渲染用的参数值：拒绝未声明的参数，逐个校验规范化并应用 default，检查必填参数
  */
-export function renderShortcutSplit(
+function resolveArgs(
   shortcutName: string,
   cfg: ShortcutConfig,
-  callerArgs: Record<string, string>,
-  mode: RenderMode = "execute"
-): RenderedShortcut {
+  callerArgs: Record<string, ShortcutArgValue>
+): Record<string, string | string[]> {
   const declaredArgs = cfg.args ?? [];
   const declaredArgNames = new Set(declaredArgs.map((a) => a.name));
 
@@ -149,47 +515,142 @@ export function renderShortcutSplit(
     );
   }
 
-  // 2. 应用 default
-  const effectiveArgs: Record<string, string> = {};
+  // 2. 类型 / pattern / 范围 / enum 校验并规范化，再应用 default
+  const effectiveArgs: Record<string, string | string[]> = {};
   for (const arg of declaredArgs) {
-    if (callerArgs[arg.name] !== undefined) {
-      effectiveArgs[arg.name] = callerArgs[arg.name];
-    } else if (arg.default !== undefined) {
-      effectiveArgs[arg.name] = arg.default;
+    const raw = callerArgs[arg.name] !== undefined ? callerArgs[arg.name] : arg.default;
+    if (raw === undefined) continue;
+    try {
+      effectiveArgs[arg.name] = coerceArg(arg, raw);
+    } catch (e) {
+      throw new Error(`shortcut '${shortcutName}' ${e instanceof Error ? e.message : String(e)}`);
     }
   }
 
-  // 3. 缺参检查（应用 default 之后）
-  const { args: refArgs } = parsePlaceholders(cfg.command, cfg.stdin);
+  // 3. 缺参检查（应用 default 之后）：模板引用到的必填参数都要有值，必填 list 至少一项
+  const { args: refArgs } = parsePlaceholders(...shortcutTemplates(cfg).map((t) => t.template));
   const missing: string[] = [];
   for (const a of refArgs) {
-    if (effectiveArgs[a] === undefined) missing.push(a);
+    const arg = declaredArgs.find((d) => d.name === a);
+    if (arg?.required === false) continue;
+    const value = effectiveArgs[a];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) missing.push(a);
   }
   if (missing.length > 0) {
     throw new Error(`shortcut '${shortcutName}' 缺少参数: ${missing.join(", ")}`);
   }
+  return effectiveArgs;
+}
 
-  // 4. enum 动态校验
-  for (const arg of declaredArgs) {
-    const value = effectiveArgs[arg.name];
-    if (value !== undefined && arg.enum && !arg.enum.includes(value)) {
-      throw new Error(
-        `shortcut '${shortcutName}' 参数 '${arg.name}' 必须是 [${arg.enum.join(", ")}] 之一，收到 '${value}'`
-      );
-    }
+/**
+ * 渲染 shortcut（分离形式，推荐）。
+ * - command 中的 args/secrets 会被 shell-escape（用单引号包裹）
+ * - stdin 中的 args/secrets 保持字面量（不 escape，因为不再走 shell 解析）
+ * - dryRun 模式：secrets 渲染为 <secret:NAME> 占位符
+ */
+export function renderShortcutSplit(
+  shortcutName: string,
+  cfg: ShortcutConfig,
+  callerArgs: Record<string, ShortcutArgValue>,
+  mode: RenderMode = "execute"
+): RenderedShortcut {
+  if (cfg.command === undefined) {
+    throw new Error(`shortcut '${shortcutName}' 是多步 shortcut（steps），没有单条命令可渲染`);
   }
-
+  const effectiveArgs = resolveArgs(shortcutName, cfg, callerArgs);
+  const declaredArgs = cfg.args ?? [];
   const secrets = cfg.secrets ?? {};
   const dryRun = mode === "dryRun";
 
-  const command = renderTemplate(cfg.command, effectiveArgs, secrets, true, dryRun);
+  const command = renderTemplate(cfg.command, declaredArgs, effectiveArgs, secrets, true, dryRun);
   if (cfg.stdin === undefined) {
     return { command };
   }
-  const stdin = renderTemplate(cfg.stdin, effectiveArgs, secrets, false, dryRun);
+  const stdin = renderTemplate(cfg.stdin, declaredArgs, effectiveArgs, secrets, false, dryRun);
   return { command, stdin };
 }
 
+/**
+ * 渲染好的一步（多步 shortcut）。kind 决定哪些字段有值
+ */
+export interface RenderedStep {
+  name: string;
+  kind: "command" | "upload" | "write" | "waitFor";
+  /** step.runsOn，其次 shortcut.runsOn；都没写为 undefined，由执行方用调用时的目标服务器 */
+  runsOn?: string;
+  command?: string;
+  stdin?: string;
+  localPath?: string;
+  remotePath?: string;
+  path?: string;
+  content?: string;
+  mode?: number;
+  mkdirs?: boolean;
+  /** 秒：command 的超时 / waitFor 的总时限 */
+  timeout?: number;
+  interval?: number;
+  sudo?: boolean;
+  continueOnError?: boolean;
+}
+
+/**
+ * 渲染多步 shortcut 的全部步骤（参数只校验一次）。dryRun 时 secrets 同样是占位符
+ */
+export function renderShortcutSteps(
+  shortcutName: string,
+  cfg: ShortcutConfig,
+  callerArgs: Record<string, ShortcutArgValue>,
+  mode: RenderMode = "execute"
+): RenderedStep[] {
+  if (!cfg.steps) {
+    throw new Error(`shortcut '${shortcutName}' 不是多步 shortcut（没有 steps）`);
+  }
+  const effectiveArgs = resolveArgs(shortcutName, cfg, callerArgs);
+  const declaredArgs = cfg.args ?? [];
+  const secrets = cfg.secrets ?? {};
+  const dryRun = mode === "dryRun";
+  const render = (tpl: string | undefined, escape: boolean) =>
+    tpl === undefined ? undefined : renderTemplate(tpl, declaredArgs, effectiveArgs, secrets, escape, dryRun);
+
+  return cfg.steps.map((step, i) => {
+    const base = {
+      name: step.name ?? `step ${i + 1}`,
+      runsOn: step.runsOn ?? cfg.runsOn,
+      continueOnError: step.continueOnError,
+    };
+    if (step.upload) {
+      return { ...base, kind: "upload", localPath: render(step.upload.localPath, false), remotePath: render(step.upload.remotePath, false) };
+    }
+    if (step.write) {
+      return {
+        ...base,
+        kind: "write",
+        path: render(step.write.path, false),
+        content: render(step.write.content, false),
+        mode: step.write.mode,
+        mkdirs: step.write.mkdirs,
+      };
+    }
+    if (step.waitFor) {
+      return {
+        ...base,
+        kind: "waitFor",
+        command: render(step.waitFor.command, true),
+        timeout: step.waitFor.timeout,
+        interval: step.waitFor.interval,
+      };
+    }
+    return {
+      ...base,
+      kind: "command",
+      command: render(step.command, true),
+      stdin: render(step.stdin, false),
+      timeout: step.timeout,
+      sudo: step.sudo || cfg.sudo || undefined,
+    };
+  });
+}
+
 /**
  * 兼容老接口：返回拼成 heredoc 的单字符串（dryRun 展示用 / 走 PTY 兜底用）。
  * 新代码请用 renderShortcutSplit。
@@ -197,7 +658,7 @@ export function renderShortcutSplit(
 export function renderShortcut(
   shortcutName: string,
   cfg: ShortcutConfig,
-  callerArgs: Record<string, string>,
+  callerArgs: Record<string, ShortcutArgValue>,
   mode: RenderMode = "execute"
 ): string {
   const { command, stdin } = renderShortcutSplit(shortcutName, cfg, callerArgs, mode);
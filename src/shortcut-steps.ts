@@ -0,0 +1,155 @@
+import { ExecResult } from "./exec-runner.js";
+import { RenderedStep } from "./shortcut-renderer.js";
+import { SSHConnection } from "./ssh-connection.js";
+
+/**
+ * 多步 shortcut（steps）的执行：按顺序一步步跑，默认某步失败就停、后面的记为 skipped。
+ * 连哪台、exec 怎么跑（sudo 包装 / 进度 / kill 登记）由调用方经 StepHooks 提供，这里只管流程。
+ */
+
+export type StepStatus = "ok" | "failed" | "skipped";
+
+export interface StepReport {
+  name: string;
+  kind: RenderedStep["kind"];
+  server: string;
+  status: StepStatus;
+  ms: number;
+  /** command / waitFor 最后一次 exec 的结果 */
+  result?: ExecResult;
+  /** upload / write 的结果说明，或 waitFor 没等到时的说明 */
+  detail?: string;
+  /** 连接 / 执行本身出错（不是命令非零退出） */
+  error?: string;
+  /** waitFor 试了几次 */
+  attempts?: number;
+}
+
+export interface StepHooks {
+  /** 在 server 那台上跑 fn（调用目标用现成连接，其它的池里有就借用、没有临时连） */
+  withServer<T>(server: string, fn: (connection: SSHConnection) => Promise<T>): Promise<T>;
+  /** 跑一条 exec；sudo 为 true 时由调用方包成 sudo 形式 */
+  exec(
+    connection: SSHConnection,
+    server: string,
+    command: string,
+    stdin: string | undefined,
+    timeoutMs: number | undefined,
+    sudo: boolean
+  ): Promise<ExecResult>;
+  /** 每步结束（含 skipped）后回调 */
+  onStep?(report: StepReport, index: number): void;
+}
+
+/** waitFor 的默认 / 上限（秒） */
+const WAIT_DEFAULT_TIMEOUT = 60;
+const WAIT_MAX_TIMEOUT = 600;
+const WAIT_DEFAULT_INTERVAL = 3;
+const WAIT_MAX_INTERVAL = 60;
+/** waitFor 每次探测命令的超时上限 */
+const WAIT_PROBE_TIMEOUT_MS = 30_000;
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(Math.max(n, min), max);
+}
+
+function execOk(result: ExecResult): boolean {
+  return result.exitCode === 0 && !result.timedOut;
+}
+
+async function runStep(
+  step: RenderedStep,
+  server: string,
+  connection: SSHConnection,
+  hooks: StepHooks,
+  defaultTimeoutMs: number | undefined
+): Promise<Omit<StepReport, "name" | "kind" | "server" | "ms">> {
+  switch (step.kind) {
+    case "command": {
+      const timeoutMs = step.timeout ? clamp(step.timeout, 5, 300) * 1000 : defaultTimeoutMs;
+      const result = await hooks.exec(connection, server, step.command!, step.stdin, timeoutMs, step.sudo === true);
+      return { status: execOk(result) ? "ok" : "failed", result };
+    }
+    case "upload": {
+      if (connection.isLocal()) {
+        throw new Error("upload 的目标不能是 local；同机拷贝请用 command 步骤（cp）");
+      }
+      const client = connection.getClient();
+      if (!client) throw new Error("SSH Client 不可用");
+      const sent = await connection.pin(() => connection.getSftpManager().upload(client, step.localPath!, step.remotePath!));
+      const resumed = sent.resumedFrom ? `，从 ${sent.resumedFrom} 字节续传` : "";
+      return { status: "ok", detail: `已上传 ${step.localPath} → ${step.remotePath}（${sent.bytes} 字节${resumed}，sha256 已校验）` };
+    }
+    case "write": {
+      const sftpManager = connection.getSftpManager();
+      const options = { mkdirs: step.mkdirs, mode: step.mode };
+      let written: { path: string; bytes: number };
+      if (connection.isLocal()) {
+        written = await sftpManager.writeLocalFile(step.path!, step.content!, options);
+      } else {
+        const client = connection.getClient();
+        if (!client) throw new Error("SSH Client 不可用");
+        written = await sftpManager.writeRemote(client, step.path!, step.content!, options);
+      }
+      return { status: "ok", detail: `已写入 ${written.path}（${written.bytes} 字节）` };
+    }
+    case "waitFor": {
+      const limitMs = clamp(step.timeout ?? WAIT_DEFAULT_TIMEOUT, 1, WAIT_MAX_TIMEOUT) * 1000;
+      const intervalMs = clamp(step.interval ?? WAIT_DEFAULT_INTERVAL, 1, WAIT_MAX_INTERVAL) * 1000;
+      const deadline = Date.now() + limitMs;
+      let attempts = 0;
+      for (;;) {
+        attempts++;
+        const probeMs = clamp(deadline - Date.now(), 5_000, WAIT_PROBE_TIMEOUT_MS);
+        const result = await hooks.exec(connection, server, step.command!, undefined, probeMs, false);
+        if (execOk(result)) return { status: "ok", result, attempts };
+        if (Date.now() + intervalMs > deadline) {
+          return {
+            status: "failed",
+            result,
+            attempts,
+            detail: `${limitMs / 1000}s 内没等到（试了 ${attempts} 次，下面是最后一次的输出）`,
+          };
+        }
+        await new Promise((r) => setTimeout(r, intervalMs));
+      }
+    }
+  }
+}
+
+/**
+ * 按顺序跑完所有步骤。
+ * @param defaultServer 步骤没写 runsOn 时的目标（调用时的服务器）
+ * @param defaultTimeoutMs command 步骤没写 timeout 时用的超时（调用方传的 timeout）
+ */
+export async function runSteps(
+  steps: RenderedStep[],
+  defaultServer: string,
+  hooks: StepHooks,
+  defaultTimeoutMs?: number
+): Promise<StepReport[]> {
+  const reports: StepReport[] = [];
+  let stopped = false;
+  for (const [i, step] of steps.entries()) {
+    const server = step.runsOn ?? defaultServer;
+    const base = { name: step.name, kind: step.kind, server };
+    let report: StepReport;
+    if (stopped) {
+      report = { ...base, status: "skipped", ms: 0 };
+    } else {
+      const started = Date.now();
+      try {
+        const outcome = await hooks.withServer(server, (connection) =>
+          runStep(step, server, connection, hooks, defaultTimeoutMs)
+        );
+        report = { ...base, ...outcome, ms: Date.now() - started };
+      } catch (e) {
+        report = { ...base, status: "failed", ms: Date.now() - started, error: e instanceof Error ? e.message : String(e) };
+      }
+      if (report.status === "failed" && !step.continueOnError) stopped = true;
+    }
+    reports.push(report);
+    hooks.onStep?.(report, i);
+  }
+  return reports;
+}
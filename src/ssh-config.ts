@@ -0,0 +1,328 @@
+import { readFileSync, existsSync, readdirSync } from "fs";
+import { homedir, userInfo } from "os";
+import { join, dirname, basename, isAbsolute } from "path";
+import { ServerConfig, ProxyJumpConfig, ProxyJumpHop, HostKeyCheckMode } from "./types.js";
+
+const DEFAULT_SSH_CONFIG = join(homedir(), ".ssh", "config");
+
+/** OpenSSH 不带 IdentityFile 时依次尝试的默认私钥 */
+const DEFAULT_IDENTITY_FILES = ["id_ed25519", "id_ecdsa", "id_rsa"];
+
+/** Include 嵌套上限（与 OpenSSH 的 READCONF_MAX_DEPTH 一致） */
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * 一个 Host 块：patterns 是 Host 行上的模式（可含 * ? 和 ! 取反），
+ * options 按出现顺序保存（关键字统一小写）
+ */
+interface HostBlock {
+  patterns: string[];
+  options: Array<[string, string]>;
+}
+
+export interface SshConfigImport {
+  servers: ServerConfig[];
+  /** 解析 / 映射中跳过的内容（Match 块、无法映射的选项等），给 CLI 展示 */
+  warnings: string[];
+}
+
+function expandHome(path: string): string {
+  if (path === "~" || path.startsWith("~/")) {
+    return join(homedir(), path.slice(1));
+  }
+  return path;
+}
+
+/**
+ * 按 OpenSSH 规则拆参数：空白分隔，双引号包住的部分算一个参数
+ */
+function splitArgs(value: string): string[] {
+  const out: string[] = [];
+  const re = /"([^"]*)"|(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(value)) !== null) {
+    out.push(m[1] ?? m[2]);
+  }
+  return out;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function isConcretePattern(pattern: string): boolean {
+  return !/[*?!]/.test(pattern);
+}
+
+/**
+ * Host 块是否作用于 alias：任一正向模式命中、且没有取反模式命中
+ */
+function blockMatches(block: HostBlock, alias: string): boolean {
+  let matched = false;
+  for (const p of block.patterns) {
+    if (p.startsWith("!")) {
+      if (globToRegExp(p.slice(1)).test(alias)) return false;
+    } else if (globToRegExp(p).test(alias)) {
+      matched = true;
+    }
+  }
+  return matched;
+}
+
+/**
+ * 展开 Include 的路径：相对路径相对 ~/.ssh，最后一级允许 * ? 通配（如 config.d/*）
+ */
+function expandInclude(arg: string): string[] {
+  let path = expandHome(arg);
+  if (!isAbsolute(path)) path = join(homedir(), ".ssh", path);
+  const name = basename(path);
+  if (isConcretePattern(name)) return existsSync(path) ? [path] : [];
+  const dir = dirname(path);
+  if (!existsSync(dir)) return [];
+  const re = globToRegExp(name);
+  return readdirSync(dir).filter((f) => re.test(f)).sort().map((f) => join(dir, f));
+}
+
+/**
+ * 解析 ssh_config 成 Host 块列表。Include 的内容就地展开；
+ * 第一个 Host 之前的选项视为 Host *；Match 块整体跳过（记一条 warning）。
+ */
+function parseFile(path: string, blocks: HostBlock[], warnings: string[], depth: number): void {
+  if (depth > MAX_INCLUDE_DEPTH) {
+    warnings.push(`Include 嵌套超过 ${MAX_INCLUDE_DEPTH} 层，已忽略 ${path}`);
+    return;
+  }
+  let current: HostBlock | null = blocks.length > 0 ? blocks[blocks.length - 1] : null;
+  let inMatch = false;
+  const lines = readFileSync(path, "utf-8").split(/\r?\n/);
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+    const m = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.*)$/);
+    if (!m) continue;
+    const key = m[1].toLowerCase();
+    const value = m[2].trim();
+
+    if (key === "host") {
+      current = { patterns: splitArgs(value), options: [] };
+      blocks.push(current);
+      inMatch = false;
+      continue;
+    }
+    if (key === "match") {
+      warnings.push(`不支持 Match 块，已跳过: ${line}`);
+      inMatch = true;
+      continue;
+    }
+    if (inMatch) continue;
+    if (key === "include") {
+      for (const file of splitArgs(value).flatMap(expandInclude)) {
+        parseFile(file, blocks, warnings, depth + 1);
+      }
+      // Include 之后的选项仍归属原来的块
+      continue;
+    }
+    if (!current) {
+      current = { patterns: ["*"], options: [] };
+      blocks.push(current);
+    }
+    current.options.push([key, value.replace(/^"(.*)"$/, "$1")]);
+  }
+}
+
+/**
+ * 某个 alias 最终生效的选项：按出现顺序合并所有命中的 Host 块，同一关键字先出现的生效
+ */
+function optionsFor(blocks: HostBlock[], alias: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const block of blocks) {
+    if (!blockMatches(block, alias)) continue;
+    for (const [key, value] of block.options) {
+      if (!out.has(key)) out.set(key, value);
+    }
+  }
+  return out;
+}
+
+/**
+ * 展开 IdentityFile / HostName 里常用的 % 记号
+ */
+function expandTokens(value: string, tokens: Record<string, string>): string {
+  return value.replace(/%([%a-zA-Z])/g, (whole, t: string) => (t === "%" ? "%" : tokens[t] ?? whole));
+}
+
+/**
+ * 认证方式：IdentityFile > IdentityAgent > ~/.ssh 下的默认私钥 > ssh-agent（SSH_AUTH_SOCK）
+ */
+function authFor(
+  opts: Map<string, string>,
+  tokens: Record<string, string>
+): Pick<ServerConfig, "privateKeyPath" | "agent"> {
+  const identity = opts.get("identityfile");
+  const identityAgent = opts.get("identityagent");
+  const auth: Pick<ServerConfig, "privateKeyPath" | "agent"> = {};
+  if (identity && identity.toLowerCase() !== "none") {
+    auth.privateKeyPath = expandTokens(identity, tokens);
+  }
+  if (identityAgent && identityAgent.toLowerCase() !== "none") {
+    auth.agent = identityAgent === "SSH_AUTH_SOCK" ? true : expandTokens(identityAgent, tokens);
+  }
+  if (!auth.privateKeyPath && !auth.agent) {
+    const found = DEFAULT_IDENTITY_FILES.find((f) => existsSync(join(homedir(), ".ssh", f)));
+    if (found) auth.privateKeyPath = `~/.ssh/${found}`;
+    else auth.agent = true;
+  }
+  return auth;
+}
+
+function hostKeyCheckOf(value: string | undefined): HostKeyCheckMode | undefined {
+  switch (value?.toLowerCase()) {
+    case "yes":
+      return "strict";
+    case "accept-new":
+      return "accept-new";
+    case "no":
+    case "off":
+      return "off";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 把 ProxyCommand 里的 `ssh -W %h:%p <jump>` 认成 ProxyJump（最常见的写法，ssh2 直接能走）；
+ * 其他写法返回 null，原样保留为 proxyCommand
+ */
+function jumpFromProxyCommand(command: string): string | null {
+  const args = splitArgs(command);
+  if (args.length < 4 || basename(args[0]) !== "ssh") return null;
+  const w = args.indexOf("-W");
+  const target = args[args.length - 1];
+  if (w < 0 || args[w + 1] !== "%h:%p" || target.startsWith("-") || w + 1 === args.length - 1) return null;
+  // 除 -W 外只接受 -q 这类无参数开关，带参数的选项（-i / -p / -o）没法等价映射
+  const rest = args.slice(1, -1).filter((a, i) => i + 1 !== w && i + 1 !== w + 1);
+  if (rest.some((a) => a !== "-q")) return null;
+  return target;
+}
+
+export class SshConfigParser {
+  private blocks: HostBlock[] = [];
+  private warnings: string[] = [];
+  private aliases: string[] = [];
+  private path: string;
+
+  constructor(path?: string) {
+    this.path = path || DEFAULT_SSH_CONFIG;
+  }
+
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * 解析并映射成 ServerConfig。每个不带通配的 Host 名是一台服务器；
+   * ProxyJump 里指向其他 Host 名的跳板写成名字引用，由 ConfigManager.resolveJumpChain 展开。
+   */
+  load(): SshConfigImport {
+    this.blocks = [];
+    this.warnings = [];
+    const path = expandHome(this.path);
+    if (!existsSync(path)) {
+      throw new Error(`ssh config 不存在: ${path}`);
+    }
+    parseFile(path, this.blocks, this.warnings, 0);
+
+    const seen = new Set<string>();
+    for (const block of this.blocks) {
+      for (const p of block.patterns) {
+        if (isConcretePattern(p) && !seen.has(p)) {
+          seen.add(p);
+        }
+      }
+    }
+    this.aliases = [...seen];
+
+    const servers: ServerConfig[] = [];
+    for (const alias of this.aliases) {
+      if (alias === "local") {
+        this.warnings.push("Host local 与内置 local shell 重名，已跳过");
+        continue;
+      }
+      try {
+        servers.push(this.toServer(alias));
+      } catch (e) {
+        this.warnings.push(`Host ${alias}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    return { servers, warnings: this.warnings };
+  }
+
+  private toServer(alias: string): ServerConfig {
+    const opts = optionsFor(this.blocks, alias);
+    const host = expandTokens(opts.get("hostname") ?? alias, { h: alias });
+    const username = opts.get("user") ?? userInfo().username;
+    const port = Number(opts.get("port") ?? 22);
+    const tokens = { h: host, r: username, u: userInfo().username, d: homedir(), n: alias, p: String(port) };
+
+    const server: ServerConfig = {
+      name: alias,
+      host,
+      port,
+      username,
+      ...authFor(opts, tokens),
+    };
+
+    const proxyJump = opts.get("proxyjump");
+    const proxyCommand = opts.get("proxycommand");
+    if (proxyJump && proxyJump.toLowerCase() !== "none") {
+      const hops = proxyJump.split(",").map((h, i) => this.toHop(h.trim(), i === 0));
+      server.proxyJump = hops.length === 1 ? hops[0] : hops;
+    } else if (proxyCommand && proxyCommand.toLowerCase() !== "none") {
+      const jump = jumpFromProxyCommand(proxyCommand);
+      if (jump) server.proxyJump = this.toHop(jump, true);
+      else server.proxyCommand = proxyCommand;
+    }
+
+    const hostKeyCheck = hostKeyCheckOf(opts.get("stricthostkeychecking"));
+    if (hostKeyCheck) server.hostKeyCheck = hostKeyCheck;
+
+    if (opts.get("forwardagent")?.toLowerCase() === "yes") {
+      server.forwardAgent = true;
+      if (!server.agent) server.agent = true;
+    }
+    return server;
+  }
+
+  /**
+   * ProxyJump 的一项：[user@]host[:port]。恰好是某个 Host 名且没改 user/port 时写成名字引用，
+   * 否则按该 host 命中的 Host 块展开成内联跳板。
+   * OpenSSH 只让链上第一跳沿用它自己的 ProxyJump，后面各跳的由链本身决定——
+   * 所以后面的跳若自带 ProxyJump，不能写成引用（引用会把它的跳板再展开一遍），改为内联。
+   */
+  private toHop(spec: string, first: boolean): ProxyJumpHop {
+    const m = spec.replace(/^ssh:\/\//, "").match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/);
+    if (!m) throw new Error(`无法解析 ProxyJump 项 '${spec}'`);
+    const [, user, rawHost, port] = m;
+    const hopHost = rawHost.replace(/^\[(.*)\]$/, "$1");
+    const opts = optionsFor(this.blocks, hopHost);
+    const ownJump = opts.has("proxyjump") || opts.has("proxycommand");
+    if (!user && !port && this.aliases.includes(hopHost) && hopHost !== "local" && (first || !ownJump)) {
+      return hopHost;
+    }
+    if (first && ownJump) {
+      this.warnings.push(`跳板 ${spec} 自己的 ProxyJump / ProxyCommand 没有展开（给它单独写一个 Host 块即可按名字引用）`);
+    }
+    const host = expandTokens(opts.get("hostname") ?? hopHost, { h: hopHost });
+    const username = user ?? opts.get("user") ?? userInfo().username;
+    const jump: ProxyJumpConfig = {
+      host,
+      port: Number(port ?? opts.get("port") ?? 22),
+      username,
+      ...authFor(opts, { h: host, r: username, u: userInfo().username, d: homedir(), n: hopHost }),
+    };
+    const hostKeyCheck = hostKeyCheckOf(opts.get("stricthostkeychecking"));
+    if (hostKeyCheck) jump.hostKeyCheck = hostKeyCheck;
+    return jump;
+  }
+}
@@ -0,0 +1,742 @@
+import { Client } from "ssh2";
+import { spawn, ChildProcess } from "child_process";
+import { Duplex } from "stream";
+import { readFileSync } from "fs";
+import { homedir, userInfo } from "os";
+import { join } from "path";
+import { SocksClient } from "socks";
+import { ServerConfig, ConnectionStatus, ProxyConfig, ProxyJumpConfig } from "./types.js";
+import { ShellManager } from "./shell-manager.js";
+import { SFTPManager } from "./sftp-manager.js";
+import { KnownHostsStore, jumpKeyName } from "./known-hosts.js";
+import { classifyPrompt, resolveOtp } from "./otp.js";
+import { RunningExec } from "./exec-runner.js";
+
+// 内置的本地服务器配置
+export const LOCAL_SERVER: ServerConfig = {
+  name: "local",
+  host: "localhost",
+  port: 0,
+  username: process.env.USER || process.env.USERNAME || "local",
+};
+
+export interface ConnectOptions {
+  /** 调用方一次性给的验证码（模型向用户要来的），用于回答 keyboard-interactive 的验证码提示 */
+  otp?: string;
+}
+
+/**
+ * 一次连接里调用方给的 otp：验证码一次性，整条跳板链上只给第一个问验证码的那一跳，
+ * usedBy 记下给了谁（后面的跳再问时报错点名）
+ */
+interface OtpSlot {
+  code?: string;
+  usedBy?: string;
+}
+
+/**
+ * 一条到某台服务器的连接（远端 ssh2 client / 本地 shell），连同它自己的 PTY shell 和 SFTP 通道。
+ * 多台同时在线由 SSHManager 的连接池管理，这里只管一条。
+ */
+export class SSHConnection {
+  private client: Client | null = null;
+  /** ProxyJump 链上的各跳连接，按连接顺序 */
+  private jumpClients: Client[] = [];
+  /** proxyCommand 起的本机进程（其 stdin/stdout 就是到目标的通道） */
+  private proxyProcess: ChildProcess | null = null;
+  private currentServer: ServerConfig | null = null;
+  private isConnected: boolean = false;
+  private shellManager: ShellManager;
+  private sftpManager: SFTPManager;
+  private isLocalConnection: boolean = false;
+  private knownHosts: KnownHostsStore;
+  /** 这条连接上正在跑的 exec（ssh({action:"kill"}) 从这里找） */
+  private runningExecs: Set<RunningExec> = new Set();
+  /** pin 住的进行中操作数（传输这类不走 exec 的长操作） */
+  private pinned = 0;
+
+  constructor(knownHosts?: KnownHostsStore) {
+    this.shellManager = new ShellManager();
+    this.sftpManager = new SFTPManager();
+    this.knownHosts = knownHosts ?? new KnownHostsStore();
+  }
+
+  private expandPath(path: string): string {
+    if (path.startsWith("~")) {
+      return join(homedir(), path.slice(1));
+    }
+    return path;
+  }
+
+  /**
+   * 解析 agent 配置：true → SSH_AUTH_SOCK；字符串 → 展开 ~ 后原样用
+   */
+  private resolveAgent(agent: boolean | string | undefined): string | undefined {
+    if (!agent) return undefined;
+    if (typeof agent === "string") return this.expandPath(agent);
+    const sock = process.env.SSH_AUTH_SOCK;
+    if (!sock) {
+      // launchd / systemd 起的 daemon 通常不继承 SSH_AUTH_SOCK，这里报清楚让人改写成路径
+      throw new Error("agent: true 但当前进程没有 SSH_AUTH_SOCK（daemon 一般不继承它），请把 agent 写成 socket 路径");
+    }
+    return sock;
+  }
+
+  /**
+   * 按配置拼出 ssh2 的认证字段。key / password / agent 可以同时给，ssh2 会依次尝试
+   * （password → publickey → agent）；一个都没有才报错。
+   * @param label 报错时的称呼前缀（目标机为空串，跳板机为 "跳板机"）
+   */
+  private buildAuth(
+    auth: Pick<ServerConfig, "privateKeyPath" | "passphrase" | "password" | "agent" | "totpSecret" | "otpCommand">,
+    label: string
+  ): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    if (auth.privateKeyPath) {
+      try {
+        out.privateKey = readFileSync(this.expandPath(auth.privateKeyPath));
+      } catch {
+        throw new Error(`无法读取${label}私钥文件: ${auth.privateKeyPath}`);
+      }
+      if (auth.passphrase) {
+        out.passphrase = auth.passphrase;
+      }
+    } else if (auth.password) {
+      out.password = auth.password;
+    }
+    const agent = this.resolveAgent(auth.agent);
+    if (agent) {
+      out.agent = agent;
+    }
+    // 只配了验证码来源的堡垒机（纯 keyboard-interactive）也算有认证方式
+    if (!out.privateKey && !out.password && !out.agent && !auth.totpSecret && !auth.otpCommand) {
+      throw new Error(`${label}必须提供 password、privateKeyPath 或 agent`);
+    }
+    // 服务器要 keyboard-interactive 时由 attachKeyboardInteractive 挂的监听器作答
+    out.tryKeyboard = true;
+    return out;
+  }
+
+  /**
+   * 挂 keyboard-interactive 应答：问密码的提示答 password，问验证码的提示依次用调用方给的 otp /
+   * totpSecret / otpCommand 作答（otp 只给整条链上第一个问验证码的提示）。答不上来时记下提示文本并放弃这一轮（finish([])），
+   * 连接随后报错时用 pendingMessage() 换成「去问用户要验证码」的说明。
+   */
+  private attachKeyboardInteractive(
+    client: Client,
+    auth: Pick<ServerConfig, "password" | "totpSecret" | "otpCommand">,
+    serverName: string,
+    label: string,
+    otp: OtpSlot
+  ): { pendingMessage: () => string | null } {
+    let pending: string[] | null = null;
+    let otpError: string | null = null;
+    /** 这一跳要验证码时 otp 已经给了别的跳 */
+    let otpSpentBy: string | null = null;
+
+    client.on("keyboard-interactive", (_name, instructions, _lang, prompts, finish) => {
+      // 有的 sshd 先发一轮没有提示的空请求，直接回空即可
+      if (prompts.length === 0) {
+        finish([]);
+        return;
+      }
+      void (async () => {
+        const answers: string[] = [];
+        for (const p of prompts) {
+          let answer: string | undefined;
+          if (classifyPrompt(p.prompt) === "password") {
+            answer = auth.password;
+          } else {
+            const hop = label.trim() || "目标服务器";
+            let provided: string | undefined;
+            if (otp.code !== undefined && otp.usedBy === undefined) {
+              provided = otp.code;
+              otp.usedBy = hop;
+            }
+            try {
+              answer = await resolveOtp(auth, provided);
+            } catch (e) {
+              otpError = e instanceof Error ? e.message : String(e);
+            }
+            if (answer === undefined && otp.usedBy !== undefined && otp.usedBy !== hop) otpSpentBy = otp.usedBy;
+          }
+          if (answer === undefined) {
+            pending = [instructions, ...prompts.map((q) => q.prompt)].map((t) => t.trim()).filter(Boolean);
+            finish([]);
+            return;
+          }
+          answers.push(answer);
+        }
+        finish(answers);
+      })();
+    });
+
+    return {
+      pendingMessage: () => {
+        if (otpError) return `${label}验证码获取失败: ${otpError}`;
+        if (!pending) return null;
+        if (otpSpentBy) {
+          return `'${serverName}' 的${label || "服务器"}也要验证码（提示：「${pending.join(" / ")}」），` +
+            `但这次带的 otp 已经用在${otpSpentBy}上了（验证码只能用一次）。` +
+            `给${label.trim() || "这台服务器"}配上 totpSecret / otpCommand 才能一次连通整条链`;
+        }
+        return `'${serverName}' 的${label || "服务器"}要求键盘交互认证，提示：「${pending.join(" / ")}」。` +
+          `没有配置 totpSecret / otpCommand 可自动作答——请向用户索取验证码，` +
+          `然后 ssh({ action: "connect", server: "${serverName}", otp: "<验证码>" }) 重连`;
+      },
+    };
+  }
+
+  /**
+   * 当前连接是否开启了 agent 转发（exec / shell 开通道时带上 agentForward）
+   */
+  forwardsAgent(): boolean {
+    return !this.isLocalConnection && !!this.currentServer?.forwardAgent;
+  }
+
+  /**
+   * 检查是否是本地连接
+   */
+  static isLocalServer(config: ServerConfig): boolean {
+    return config.name === "local" || config.host === "local";
+  }
+
+  async connect(config: ServerConfig, options?: ConnectOptions): Promise<void> {
+    if (this.isConnected) {
+      await this.disconnect();
+    }
+
+    // 检查是否是本地连接
+    if (SSHConnection.isLocalServer(config)) {
+      return this.connectLocal();
+    }
+
+    return this.connectSSH(config, options?.otp);
+  }
+
+  /**
+   * 本地连接。连接层只标记状态，**不开 PTY**——纯 exec 走 execLocal(child_process)，根本不需要 PTY。
+   * PTY 在首次 pty 模式调用时懒加载（ensureShell → openShellChannel）：
+   * 优先 node-pty，失败（典型：macOS launchd 托管的 daemon 无 TTY session）降级 ssh loopback。
+   */
+  private async connectLocal(): Promise<void> {
+    this.isConnected = true;
+    this.isLocalConnection = true;
+    this.currentServer = LOCAL_SERVER;
+  }
+
+  /**
+   * SSH loopback：连 127.0.0.1:22 当作 local shell。
+   * 前置：当前用户 ~/.ssh/authorized_keys 里要有本机的一把 pub key。
+   */
+  private async connectLoopbackSSH(): Promise<void> {
+    const username = process.env.USER || userInfo().username;
+    const keyCandidates = [
+      join(homedir(), ".ssh", "id_ed25519"),
+      join(homedir(), ".ssh", "id_rsa"),
+    ];
+    let privateKey: Buffer | null = null;
+    let usedKeyPath: string | null = null;
+    for (const kp of keyCandidates) {
+      try {
+        privateKey = readFileSync(kp);
+        usedKeyPath = kp;
+        break;
+      } catch { /* try next */ }
+    }
+    if (!privateKey) {
+      throw new Error("找不到可用私钥（~/.ssh/id_ed25519 或 ~/.ssh/id_rsa）");
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+      this.client = client;
+
+      client.on("ready", async () => {
+        if (this.client !== client) {
+          client.end();
+          reject(new Error("连接已被取消"));
+          return;
+        }
+        this.isConnected = true;
+        this.isLocalConnection = true; // 对外仍标记 local，保持行为一致
+        this.currentServer = LOCAL_SERVER;
+        try {
+          await this.shellManager.open(client);
+          console.error(`[mcp-ssh-pty] local fallback: ssh ${username}@127.0.0.1 via ${usedKeyPath}`);
+          resolve();
+        } catch (err) {
+          this.cleanup();
+          reject(err);
+        }
+      });
+
+      client.on("error", (err) => {
+        this.cleanup();
+        reject(err);
+      });
+
+      client.on("close", () => {
+        if (this.client === client) this.cleanup();
+      });
+
+      client.connect({
+        host: "127.0.0.1",
+        port: 22,
+        username,
+        privateKey,
+        // loopback 无 MITM 风险，跳过 host key 校验
+        hostVerifier: () => true,
+        // 这条是 loopback（daemon 连它自己那台机的 22 口），不经网络、不会抖，
+        // 保持 30 秒快速判死反而有利于早点发现本机 sshd 出问题。
+        // 跨网络的那几处（远程直连 / 跳板）才放宽到 3 分钟。
+        keepaliveInterval: 10000,
+        keepaliveCountMax: 3,
+      });
+    });
+  }
+
+  /**
+   * SSH 远程连接
+   */
+  private async connectSSH(config: ServerConfig, otp?: string): Promise<void> {
+    // ProxyJump: 先连跳板机，再通过 forwardOut 连目标
+    if (config.proxyJump) {
+      return this.connectViaJump(config, otp);
+    }
+
+    // ProxyCommand：本机命令的 stdio 当通道
+    let commandSock: { sock: Duplex; stderr: () => string } | undefined;
+    if (config.proxyCommand) {
+      commandSock = this.spawnProxyCommand(config);
+    }
+
+    // 如果配置了代理，先建立代理连接
+    let proxySocket: ReturnType<typeof SocksClient.createConnection> extends Promise<infer T> ? T : never;
+    if (config.proxy && !commandSock) {
+      try {
+        proxySocket = await this.createProxyConnection(config.proxy, config.host, config.port || 22);
+      } catch (error) {
+        throw new Error(`代理连接失败: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const verification = this.knownHosts.createVerifier(
+      config.name, config.host, config.port || 22, config.hostKeyCheck
+    );
+
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+      this.client = client;
+      const kbd = this.attachKeyboardInteractive(client, config, config.name, "", { code: otp });
+
+      client.on("ready", async () => {
+        // 检查是否已被 cleanup（竞态保护）
+        if (this.client !== client) {
+          client.end();
+          reject(new Error("连接已被取消"));
+          return;
+        }
+
+        this.isConnected = true;
+        this.isLocalConnection = false;
+        this.currentServer = config;
+
+        // PTY 懒加载（ensureShell）：连接层就绪即返回，不在此处开 shell
+        resolve();
+      });
+
+      client.on("error", (err) => {
+        this.cleanup();
+        // host key 被拒时 ssh2 只报 "Host denied"，换成带指纹的明确说明；
+        // 验证码答不上来时同理，换成让模型去问用户的说明
+        const failure = verification.failure() ?? kbd.pendingMessage();
+        const proxyStderr = commandSock?.stderr();
+        reject(
+          failure ? new Error(failure)
+            : proxyStderr ? new Error(`${err.message}（proxyCommand stderr: ${proxyStderr}）`)
+            : err
+        );
+      });
+
+      client.on("close", () => {
+        // 仅当 client 仍是当前连接时才 cleanup
+        if (this.client === client) {
+          this.cleanup();
+        }
+      });
+
+      const connectConfig: Record<string, unknown> = {
+        host: config.host,
+        port: config.port || 22,
+        username: config.username,
+        // 30 秒一次心跳，6 次无响应才断（3 分钟容忍）。
+        // 原为 10s×3=30 秒：跨境/经代理的链路正常抖动就会超过 30 秒，
+        // 连接被误判成断线。ssh2 不读 ~/.ssh/config，这里必须单独设。
+        keepaliveInterval: 30000,
+        keepaliveCountMax: 6,
+        hostVerifier: verification.hostVerifier,
+      };
+
+      // 如果有代理，使用代理 socket
+      if (commandSock) {
+        connectConfig.sock = commandSock.sock;
+      } else if (proxySocket) {
+        connectConfig.sock = proxySocket.socket;
+      }
+
+      try {
+        Object.assign(connectConfig, this.buildAuth(config, ""));
+        if (config.forwardAgent) {
+          if (!connectConfig.agent) throw new Error("forwardAgent 需要同时配置 agent");
+          connectConfig.agentForward = true;
+        }
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      this.client.connect(connectConfig);
+    });
+  }
+
+  /**
+   * 通过 ProxyJump 跳板链连接：逐跳连上跳板、在上一跳的 forwardOut 隧道里连下一跳，
+   * 最后一跳的隧道交给目标服务器
+   */
+  private async connectViaJump(config: ServerConfig, otp?: string): Promise<void> {
+    const hops = Array.isArray(config.proxyJump) ? config.proxyJump : [config.proxyJump!];
+    const destPort = config.port || 22;
+
+    const verification = this.knownHosts.createVerifier(
+      config.name, config.host, destPort, config.hostKeyCheck
+    );
+
+    const otpSlot: OtpSlot = { code: otp };
+    let jumpStream: NodeJS.ReadWriteStream | undefined;
+    for (let i = 0; i < hops.length; i++) {
+      const hop = hops[i];
+      if (typeof hop === "string") {
+        throw new Error(`proxyJump 引用 '${hop}' 未展开（调用方需先经 ConfigManager.resolveForConnect）`);
+      }
+      const next = i + 1 < hops.length ? hops[i + 1] : null;
+      const label = hops.length > 1 ? `跳板机 ${i + 1}/${hops.length} ` : "跳板机";
+      try {
+        jumpStream = await this.connectHop(
+          config, hop, i, label, jumpStream,
+          next && typeof next !== "string" ? next.host : config.host,
+          next && typeof next !== "string" ? next.port || 22 : destPort,
+          otpSlot
+        );
+      } catch (error) {
+        // 前面已经连上的跳板一并关掉
+        this.cleanup();
+        throw error;
+      }
+    }
+
+    // 最后：通过隧道连接目标服务器
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+      this.client = client;
+      const kbd = this.attachKeyboardInteractive(client, config, config.name, "", otpSlot);
+
+      client.on("ready", async () => {
+        // 检查是否已被 cleanup（竞态保护）
+        if (this.client !== client) {
+          client.end();
+          reject(new Error("连接已被取消"));
+          return;
+        }
+
+        this.isConnected = true;
+        this.isLocalConnection = false;
+        this.currentServer = config;
+
+        // PTY 懒加载（ensureShell）：连接层就绪即返回
+        resolve();
+      });
+
+      client.on("error", (err) => {
+        this.cleanup();
+        const failure = verification.failure() ?? kbd.pendingMessage();
+        reject(failure ? new Error(failure) : err);
+      });
+
+      client.on("close", () => {
+        if (this.client === client) {
+          this.cleanup();
+        }
+      });
+
+      const connectConfig: Record<string, unknown> = {
+        sock: jumpStream,
+        username: config.username,
+        // 经跳板到最终目标这一段，同样 3 分钟容忍
+        keepaliveInterval: 30000,
+        keepaliveCountMax: 6,
+        hostVerifier: verification.hostVerifier,
+      };
+
+      try {
+        Object.assign(connectConfig, this.buildAuth(config, ""));
+        if (config.forwardAgent) {
+          if (!connectConfig.agent) throw new Error("forwardAgent 需要同时配置 agent");
+          connectConfig.agentForward = true;
+        }
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      this.client.connect(connectConfig);
+    });
+  }
+
+  /**
+   * 连上一跳跳板（第一跳直连，之后走上一跳的隧道 sock），再从它 forwardOut 到下一跳，返回这条隧道
+   */
+  private connectHop(
+    config: ServerConfig,
+    jump: ProxyJumpConfig,
+    index: number,
+    label: string,
+    sock: NodeJS.ReadWriteStream | undefined,
+    nextHost: string,
+    nextPort: number,
+    otp: OtpSlot
+  ): Promise<NodeJS.ReadWriteStream> {
+    const jumpPort = jump.port || 22;
+    const jumpVerification = this.knownHosts.createVerifier(
+      jumpKeyName(config.name, index), jump.host, jumpPort, jump.hostKeyCheck
+    );
+    const jumpClient = new Client();
+    this.jumpClients.push(jumpClient);
+    const jumpKbd = this.attachKeyboardInteractive(jumpClient, jump, config.name, label, otp);
+
+    return new Promise<NodeJS.ReadWriteStream>((resolve, reject) => {
+      jumpClient.on("ready", () => {
+        jumpClient.forwardOut(
+          "127.0.0.1", 0,
+          nextHost, nextPort,
+          (err, stream) => {
+            if (err) {
+              reject(new Error(`${label}隧道创建失败（→ ${nextHost}:${nextPort}）: ${err.message}`));
+            } else {
+              resolve(stream);
+            }
+          }
+        );
+      });
+
+      jumpClient.on("error", (err) => {
+        reject(new Error(`${label}连接失败: ${jumpVerification.failure() ?? jumpKbd.pendingMessage() ?? err.message}`));
+      });
+
+      const jumpConfig: Record<string, unknown> = {
+        host: jump.host,
+        port: jumpPort,
+        username: jump.username,
+        // 到跳板这一段同样跨网络，用 3 分钟容忍（见 connectSSH 处的说明）
+        keepaliveInterval: 30000,
+        keepaliveCountMax: 6,
+        hostVerifier: jumpVerification.hostVerifier,
+      };
+      if (sock) {
+        jumpConfig.sock = sock;
+      }
+
+      try {
+        Object.assign(jumpConfig, this.buildAuth(jump, label));
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      jumpClient.connect(jumpConfig);
+    });
+  }
+
+  /**
+   * 起 proxyCommand 进程，把它的 stdout/stdin 包成 ssh2 能用的 sock。
+   * stderr 留最后一段，连接失败时拼进错误信息（否则只能看到 ssh2 的 "Connection lost"）。
+   */
+  private spawnProxyCommand(config: ServerConfig): { sock: Duplex; stderr: () => string } {
+    const port = String(config.port || 22);
+    const command = config.proxyCommand!.replace(/%([%hpr])/g, (_, t: string) =>
+      t === "%" ? "%" : t === "h" ? config.host : t === "p" ? port : config.username
+    );
+    const child = spawn(command, { shell: true, stdio: ["pipe", "pipe", "pipe"] });
+    this.proxyProcess = child;
+    let stderr = "";
+    child.stderr!.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString("utf8")).slice(-1000);
+    });
+    const sock = Duplex.from({ readable: child.stdout!, writable: child.stdin! });
+    child.on("error", (err) => sock.destroy(new Error(`proxyCommand 启动失败: ${err.message}`)));
+    return { sock, stderr: () => stderr.trim() };
+  }
+
+  /**
+   * 通过 SOCKS 代理创建连接
+   */
+  private async createProxyConnection(proxy: ProxyConfig, destHost: string, destPort: number) {
+    return SocksClient.createConnection({
+      proxy: {
+        host: proxy.host,
+        port: proxy.port,
+        type: proxy.type || 5,
+        userId: proxy.username,
+        password: proxy.password,
+      },
+      command: "connect",
+      destination: {
+        host: destHost,
+        port: destPort,
+      },
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    // 先关闭 SFTP 和 shell
+    this.sftpManager.close();
+    this.shellManager.close();
+
+    if (this.client && this.isConnected && !this.isLocalConnection) {
+      this.client.end();
+    }
+    // 从离目标最近的那跳往回关
+    for (const jumpClient of [...this.jumpClients].reverse()) {
+      jumpClient.end();
+    }
+    this.cleanup();
+  }
+
+  private cleanup(): void {
+    this.sftpManager.close();
+    // 收尸：error/close 回调走的是 cleanup 而非 disconnect，必须在这里也关掉底层连接，
+    // 否则 ProxyJump 链上的各跳被丢引用却不 end，TCP 会残留到 keepalive 超时。
+    if (this.client) { try { this.client.end(); } catch { /* ignore */ } }
+    for (const jumpClient of [...this.jumpClients].reverse()) {
+      try { jumpClient.end(); } catch { /* ignore */ }
+    }
+    if (this.proxyProcess) { try { this.proxyProcess.kill(); } catch { /* ignore */ } }
+    this.isConnected = false;
+    this.isLocalConnection = false;
+    this.currentServer = null;
+    this.client = null;
+    this.jumpClients = [];
+    this.proxyProcess = null;
+  }
+
+  getClient(): Client | null {
+    return this.client;
+  }
+
+  getShellManager(): ShellManager {
+    return this.shellManager;
+  }
+
+  getSftpManager(): SFTPManager {
+    return this.sftpManager;
+  }
+
+  isLocal(): boolean {
+    return this.isLocalConnection;
+  }
+
+  /**
+   * 远端是不是 windows 的 sshd（默认 shell 是 cmd，没有 sh）。
+   * 看对方的版本串（OpenSSH_for_Windows_x.y）；@types/ssh2 没暴露它，取运行时字段
+   */
+  isWindowsRemote(): boolean {
+    const ver = (this.client as unknown as { _remoteVer?: string } | null)?._remoteVer;
+    return !this.isLocalConnection && /windows/i.test(ver ?? "");
+  }
+
+  /**
+   * 登记一条正在跑的 exec，返回注销函数（exec 结束时调）
+   */
+  trackExec(running: RunningExec): () => void {
+    this.runningExecs.add(running);
+    return () => this.runningExecs.delete(running);
+  }
+
+  listRunningExecs(): RunningExec[] {
+    return [...this.runningExecs];
+  }
+
+  /**
+   * 占住连接跑完 fn：期间连接池的闲置回收和 LRU 淘汰都跳过这条（传几个 G 的 upload 不该被半路断掉）
+   */
+  async pin<T>(fn: () => Promise<T>): Promise<T> {
+    this.pinned++;
+    try {
+      return await fn();
+    } finally {
+      this.pinned--;
+    }
+  }
+
+  /**
+   * 连接上有没有进行中的事：在跑的 exec、pin 住的传输、开着的 PTY shell
+   */
+  isBusy(): boolean {
+    return this.runningExecs.size > 0 || this.pinned > 0 || this.shellManager.isOpen();
+  }
+
+  /**
+   * 真正打开一条 PTY shell channel：按连接类型选 node-pty / ssh loopback / 远端 client。
+   * local 且还没 client 时先试 node-pty，失败降级 ssh loopback（建 loopback client 并在其上开 shell）。
+   * ensureShell（懒加载）和 resetShell（重开）都复用它。
+   */
+  private async openShellChannel(): Promise<void> {
+    if (this.isLocalConnection && !this.client) {
+      try {
+        await this.shellManager.openLocal();
+        return;
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        console.error(`[mcp-ssh-pty] local PTY failed (${msg}); falling back to ssh loopback 127.0.0.1:22`);
+        await this.connectLoopbackSSH(); // 建 loopback client 并在其上开 shell
+        return;
+      }
+    }
+    if (!this.client) {
+      throw new Error("找不到 SSH client，无法开启 PTY shell");
+    }
+    await this.shellManager.open(this.client, { agentForward: this.forwardsAgent() });
+  }
+
+  /**
+   * 懒加载 PTY shell：仅在确实要走 pty 模式（command mode:"pty" / signal / interactive REPL）时调用。
+   * 已开则直接返回；纯 exec 的 session 永远不触发，也就永远不会被 heredoc 卡死。
+   */
+  async ensureShell(): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("未连接，无法开启 PTY shell");
+    }
+    if (this.shellManager.isOpen()) return;
+    await this.openShellChannel();
+  }
+
+  /**
+   * 硬复位 PTY shell：保留 SSH client（不重连）/ 本地连接信息，只关掉当前 shell channel
+   * 重开一条干净的。比 disconnect+reconnect 快得多。
+   */
+  async resetShell(): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error("未连接，无法重置 shell");
+    }
+    await this.shellManager.hardReset(() => this.openShellChannel());
+  }
+
+  getStatus(): ConnectionStatus {
+    return {
+      connected: this.isConnected,
+      serverName: this.currentServer?.name || null,
+      host: this.isLocalConnection ? "local" : (this.currentServer?.host || null),
+      username: this.currentServer?.username || null,
+    };
+  }
+}
@@ -1,471 +1,248 @@
-import { Client } from "ssh2";
-import { readFileSync } from "fs";
-import { homedir, userInfo } from "os";
-import { join } from "path";
-import { SocksClient } from "socks";
-import { ServerConfig, ConnectionStatus, ProxyConfig, ProxyJumpConfig } from "./types.js";
-import { ShellManager } from "./shell-manager.js";
-import { SFTPManager } from "./sftp-manager.js";
+import { ServerConfig, ConnectionStatus } from "./types.js";
+import { SSHConnection, ConnectOptions } from "./ssh-connection.js";
+import { KnownHostsStore } from "./known-hosts.js";
+
+/**
+ * 连接池上限：一个会话同时保持多少条连接，超出时断开最久没用的那条。
+ * 环境变量 SSH_MCP_POOL_MAX 可改。
+ */
+export const POOL_MAX = (() => {
+  const n = Number(process.env.SSH_MCP_POOL_MAX);
+  return Number.isInteger(n) && n > 0 ? n : 8;
+})();
+
+/**
+ * 池里的连接多久没用就断开。模型在两三台机器之间来回切是常态（mac 隧道连一次 1s+），
+ * 但被遗忘的连接一直挂着会占着远端 sshd 的会话和 PTY。
+ * 环境变量 SSH_MCP_POOL_IDLE_MIN 可改，0 = 不回收。
+ */
+export const POOL_IDLE_MS = (() => {
+  const v = process.env.SSH_MCP_POOL_IDLE_MIN;
+  if (v === undefined || v === "") return 30 * 60 * 1000;
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n * 60 * 1000 : 30 * 60 * 1000;
+})();
+
+const IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface PoolEntry {
+  connection: SSHConnection;
+  lastUsed: number;
+}
 
-// 内置的本地服务器配置
-export const LOCAL_SERVER: ServerConfig = {
-  name: "local",
-  host: "localhost",
-  port: 0,
-  username: process.env.USER || process.env.USERNAME || "local",
-};
+/** status 里每条活连接的摘要 */
+export interface PooledConnectionInfo {
+  server: string;
+  host: string | null;
+  username: string | null;
+  current: boolean;
+  shellOpen: boolean;
+  bufferLines: number;
+  idleSeconds: number;
+}
 
+/**
+ * 会话内的连接池：按服务器名保持多条连接，每条有自己的 PTY shell 和 SFTP 通道。
+ * 「当前连接」是最近一次 connect / 带 server 调用打到的那台，不带 server 的调用都落在它上面。
+ * 带 server 的调用直接拿池里那条，不碰别的连接，所以并发打不同机器也不会串台。
+ */
 export class SSHManager {
-  private client: Client | null = null;
-  private jumpClient: Client | null = null;
-  private currentServer: ServerConfig | null = null;
-  private isConnected: boolean = false;
-  private shellManager: ShellManager;
-  private sftpManager: SFTPManager;
-  private isLocalConnection: boolean = false;
+  private pool: Map<string, PoolEntry> = new Map();
+  /** 正在建立中的连接：同一台的并发 connect 共用一次握手 */
+  private pending: Map<string, Promise<SSHConnection>> = new Map();
+  private currentName: string | null = null;
+  private knownHosts: KnownHostsStore;
+  private sweepTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
-    this.shellManager = new ShellManager();
-    this.sftpManager = new SFTPManager();
+  constructor(knownHosts?: KnownHostsStore) {
+    this.knownHosts = knownHosts ?? new KnownHostsStore();
   }
 
-  private expandPath(path: string): string {
-    if (path.startsWith("~")) {
-      return join(homedir(), path.slice(1));
-    }
-    return path;
+  static isLocalServer(config: ServerConfig): boolean {
+    return SSHConnection.isLocalServer(config);
   }
 
   /**
-   * 检查是否是本地连接
+   * 连到某台服务器并设为当前连接。池里已有活着的同名连接就直接复用（不重新握手）。
    */
-  static isLocalServer(config: ServerConfig): boolean {
-    return config.name === "local" || config.host === "local";
+  async connect(config: ServerConfig, options?: ConnectOptions): Promise<SSHConnection> {
+    const connection = await this.acquire(config, options);
+    this.currentName = config.name;
+    return connection;
   }
 
-  async connect(config: ServerConfig): Promise<void> {
-    if (this.isConnected) {
-      await this.disconnect();
+  /**
+   * 连进池但不改变当前连接（池里已有就直接用）。跨机 transfer 要反复打两端，
+   * 用 withConnection 的临时连接每次都得重新握手
+   */
+  async acquire(config: ServerConfig, options?: ConnectOptions): Promise<SSHConnection> {
+    const existing = this.get(config.name);
+    if (existing) return existing;
+
+    let pending = this.pending.get(config.name);
+    if (!pending) {
+      pending = this.open(config, options);
+      this.pending.set(config.name, pending);
     }
-
-    // 检查是否是本地连接
-    if (SSHManager.isLocalServer(config)) {
-      return this.connectLocal();
+    try {
+      return await pending;
+    } finally {
+      this.pending.delete(config.name);
     }
-
-    return this.connectSSH(config);
   }
 
-  /**
-   * 本地连接。连接层只标记状态，**不开 PTY**——纯 exec 走 execLocal(child_process)，根本不需要 PTY。
-   * PTY 在首次 pty 模式调用时懒加载（ensureShell → openShellChannel）：
-   * 优先 node-pty，失败（典型：macOS launchd 托管的 daemon 无 TTY session）降级 ssh loopback。
-   */
-  private async connectLocal(): Promise<void> {
-    this.isConnected = true;
-    this.isLocalConnection = true;
-    this.currentServer = LOCAL_SERVER;
+  private async open(config: ServerConfig, options?: ConnectOptions): Promise<SSHConnection> {
+    const connection = new SSHConnection(this.knownHosts);
+    await connection.connect(config, options);
+    this.pool.set(config.name, { connection, lastUsed: Date.now() });
+    await this.evictOverflow(config.name);
+    this.startSweep();
+    return connection;
   }
 
   /**
-   * SSH loopback：连 127.0.0.1:22 当作 local shell。
-   * 前置：当前用户 ~/.ssh/authorized_keys 里要有本机的一把 pub key。
+   * 在某台服务器上做一件事，但不改变当前连接、也不往池里塞：
+   * 池里已有就借用，没有就临时连一条、用完即断。批量（fan-out）执行用——
+   * 十几台机器挨个进池会把模型正在用的那几条按 LRU 挤掉。
    */
-  private async connectLoopbackSSH(): Promise<void> {
-    const username = process.env.USER || userInfo().username;
-    const keyCandidates = [
-      join(homedir(), ".ssh", "id_ed25519"),
-      join(homedir(), ".ssh", "id_rsa"),
-    ];
-    let privateKey: Buffer | null = null;
-    let usedKeyPath: string | null = null;
-    for (const kp of keyCandidates) {
-      try {
-        privateKey = readFileSync(kp);
-        usedKeyPath = kp;
-        break;
-      } catch { /* try next */ }
-    }
-    if (!privateKey) {
-      throw new Error("找不到可用私钥（~/.ssh/id_ed25519 或 ~/.ssh/id_rsa）");
+  async withConnection<T>(
+    config: ServerConfig,
+    fn: (connection: SSHConnection) => Promise<T>,
+    options?: ConnectOptions
+  ): Promise<T> {
+    const pooled = this.get(config.name);
+    if (pooled) return fn(pooled);
+    const connection = new SSHConnection(this.knownHosts);
+    await connection.connect(config, options);
+    try {
+      return await fn(connection);
+    } finally {
+      await connection.disconnect();
     }
-
-    return new Promise((resolve, reject) => {
-      const client = new Client();
-      this.client = client;
-
-      client.on("ready", async () => {
-        if (this.client !== client) {
-          client.end();
-          reject(new Error("连接已被取消"));
-          return;
-        }
-        this.isConnected = true;
-        this.isLocalConnection = true; // 对外仍标记 local，保持行为一致
-        this.currentServer = LOCAL_SERVER;
-        try {
-          await this.shellManager.open(client);
-          console.error(`[mcp-ssh-pty] local fallback: ssh ${username}@127.0.0.1 via ${usedKeyPath}`);
-          resolve();
-        } catch (err) {
-          this.cleanup();
-          reject(err);
-        }
-      });
-
-      client.on("error", (err) => {
-        this.cleanup();
-        reject(err);
-      });
-
-      client.on("close", () => {
-        if (this.client === client) this.cleanup();
-      });
-
-      client.connect({
-        host: "127.0.0.1",
-        port: 22,
-        username,
-        privateKey,
-        // loopback 无 MITM 风险，跳过 host key 校验
-        hostVerifier: () => true,
-        // 这条是 loopback（daemon 连它自己那台机的 22 口），不经网络、不会抖，
-        // 保持 30 秒快速判死反而有利于早点发现本机 sshd 出问题。
-        // 跨网络的那几处（远程直连 / 跳板）才放宽到 3 分钟。
-        keepaliveInterval: 10000,
-        keepaliveCountMax: 3,
-      });
-    });
   }
 
   /**
-   * SSH 远程连接
+   * 池里某台的活连接（顺手刷新 LRU 时间）；没有或已断开返回 null
    */
-  private async connectSSH(config: ServerConfig): Promise<void> {
-    // ProxyJump: 先连跳板机，再通过 forwardOut 连目标
-    if (config.proxyJump) {
-      return this.connectViaJump(config);
-    }
-
-    // 如果配置了代理，先建立代理连接
-    let proxySocket: ReturnType<typeof SocksClient.createConnection> extends Promise<infer T> ? T : never;
-    if (config.proxy) {
-      try {
-        proxySocket = await this.createProxyConnection(config.proxy, config.host, config.port || 22);
-      } catch (error) {
-        throw new Error(`代理连接失败: ${error instanceof Error ? error.message : error}`);
-      }
+  get(name: string): SSHConnection | null {
+    const entry = this.pool.get(name);
+    if (!entry) return null;
+    if (!entry.connection.getStatus().connected) {
+      // 远端断开 / keepalive 超时后 SSHConnection 自己已清理，这里把壳摘掉
+      this.pool.delete(name);
+      return null;
     }
-
-    return new Promise((resolve, reject) => {
-      const client = new Client();
-      this.client = client;
-
-      client.on("ready", async () => {
-        // 检查是否已被 cleanup（竞态保护）
-        if (this.client !== client) {
-          client.end();
-          reject(new Error("连接已被取消"));
-          return;
-        }
-
-        this.isConnected = true;
-        this.isLocalConnection = false;
-        this.currentServer = config;
-
-        // PTY 懒加载（ensureShell）：连接层就绪即返回，不在此处开 shell
-        resolve();
-      });
-
-      client.on("error", (err) => {
-        this.cleanup();
-        reject(err);
-      });
-
-      client.on("close", () => {
-        // 仅当 client 仍是当前连接时才 cleanup
-        if (this.client === client) {
-          this.cleanup();
-        }
-      });
-
-      const connectConfig: Record<string, unknown> = {
-        host: config.host,
-        port: config.port || 22,
-        username: config.username,
-        // 30 秒一次心跳，6 次无响应才断（3 分钟容忍）。
-        // 原为 10s×3=30 秒：跨境/经代理的链路正常抖动就会超过 30 秒，
-        // 连接被误判成断线。ssh2 不读 ~/.ssh/config，这里必须单独设。
-        keepaliveInterval: 30000,
-        keepaliveCountMax: 6,
-      };
-
-      // 如果有代理，使用代理 socket
-      if (proxySocket) {
-        connectConfig.sock = proxySocket.socket;
-      }
-
-      if (config.privateKeyPath) {
-        try {
-          const keyPath = this.expandPath(config.privateKeyPath);
-          connectConfig.privateKey = readFileSync(keyPath);
-          if (config.passphrase) {
-            connectConfig.passphrase = config.passphrase;
-          }
-        } catch (error) {
-          reject(new Error(`无法读取私钥文件: ${config.privateKeyPath}`));
-          return;
-        }
-      } else if (config.password) {
-        connectConfig.password = config.password;
-      } else {
-        reject(new Error("必须提供 password 或 privateKeyPath"));
-        return;
-      }
-
-      this.client.connect(connectConfig);
-    });
+    entry.lastUsed = Date.now();
+    return entry.connection;
   }
 
   /**
-   * 通过 ProxyJump 跳板机连接
+   * 当前连接；没有连接或它已断开返回 null
    */
-  private async connectViaJump(config: ServerConfig): Promise<void> {
-    const jump = config.proxyJump!;
-    const jumpPort = jump.port || 22;
-    const destPort = config.port || 22;
-
-    // 第一步：连接跳板机
-    const jumpClient = new Client();
-    this.jumpClient = jumpClient;
-
-    const jumpStream = await new Promise<NodeJS.ReadWriteStream>((resolve, reject) => {
-      jumpClient.on("ready", () => {
-        // 第二步：通过跳板机建立到目标的隧道
-        jumpClient.forwardOut(
-          "127.0.0.1", 0,
-          config.host, destPort,
-          (err, stream) => {
-            if (err) {
-              jumpClient.end();
-              reject(new Error(`跳板机隧道创建失败: ${err.message}`));
-            } else {
-              resolve(stream);
-            }
-          }
-        );
-      });
-
-      jumpClient.on("error", (err) => {
-        try { jumpClient.end(); } catch { /* ignore */ }
-        reject(new Error(`跳板机连接失败: ${err.message}`));
-      });
-
-      const jumpConfig: Record<string, unknown> = {
-        host: jump.host,
-        port: jumpPort,
-        username: jump.username,
-        // 到跳板这一段同样跨网络，用 3 分钟容忍（见 connectSSH 处的说明）
-        keepaliveInterval: 30000,
-        keepaliveCountMax: 6,
-      };
-
-      if (jump.privateKeyPath) {
-        try {
-          jumpConfig.privateKey = readFileSync(this.expandPath(jump.privateKeyPath));
-          if (jump.passphrase) {
-            jumpConfig.passphrase = jump.passphrase;
-          }
-        } catch (error) {
-          reject(new Error(`无法读取跳板机私钥文件: ${jump.privateKeyPath}`));
-          return;
-        }
-      } else if (jump.password) {
-        jumpConfig.password = jump.password;
-      } else {
-        reject(new Error("跳板机必须提供 password 或 privateKeyPath"));
-        return;
-      }
-
-      jumpClient.connect(jumpConfig);
-    });
-
-    // 第三步：通过隧道连接目标服务器
-    return new Promise((resolve, reject) => {
-      const client = new Client();
-      this.client = client;
-
-      client.on("ready", async () => {
-        // 检查是否已被 cleanup（竞态保护）
-        if (this.client !== client) {
-          client.end();
-          reject(new Error("连接已被取消"));
-          return;
-        }
-
-        this.isConnected = true;
-        this.isLocalConnection = false;
-        this.currentServer = config;
-
-        // PTY 懒加载（ensureShell）：连接层就绪即返回
-        resolve();
-      });
-
-      client.on("error", (err) => {
-        this.cleanup();
-        reject(err);
-      });
-
-      client.on("close", () => {
-        if (this.client === client) {
-          this.cleanup();
-        }
-      });
-
-      const connectConfig: Record<string, unknown> = {
-        sock: jumpStream,
-        username: config.username,
-        // 经跳板到最终目标这一段，同样 3 分钟容忍
-        keepaliveInterval: 30000,
-        keepaliveCountMax: 6,
-      };
-
-      if (config.privateKeyPath) {
-        try {
-          connectConfig.privateKey = readFileSync(this.expandPath(config.privateKeyPath));
-          if (config.passphrase) {
-            connectConfig.passphrase = config.passphrase;
-          }
-        } catch (error) {
-          reject(new Error(`无法读取私钥文件: ${config.privateKeyPath}`));
-          return;
-        }
-      } else if (config.password) {
-        connectConfig.password = config.password;
-      } else {
-        reject(new Error("必须提供 password 或 privateKeyPath"));
-        return;
-      }
-
-      this.client.connect(connectConfig);
-    });
+  current(): SSHConnection | null {
+    return this.currentName ? this.get(this.currentName) : null;
   }
 
   /**
-   * 通过 SOCKS 代理创建连接
+   * 断开一条连接（默认当前那条）。返回断开的服务器名，没有可断的返回 null。
    */
-  private async createProxyConnection(proxy: ProxyConfig, destHost: string, destPort: number) {
-    return SocksClient.createConnection({
-      proxy: {
-        host: proxy.host,
-        port: proxy.port,
-        type: proxy.type || 5,
-        userId: proxy.username,
-        password: proxy.password,
-      },
-      command: "connect",
-      destination: {
-        host: destHost,
-        port: destPort,
-      },
-    });
+  async disconnect(name?: string): Promise<string | null> {
+    const target = name ?? this.currentName;
+    if (!target) return null;
+    const entry = this.pool.get(target);
+    if (!entry) return null;
+    this.pool.delete(target);
+    if (this.currentName === target) this.currentName = null;
+    await entry.connection.disconnect();
+    if (this.pool.size === 0) this.stopSweep();
+    return target;
   }
 
-  async disconnect(): Promise<void> {
-    // 先关闭 SFTP 和 shell
-    this.sftpManager.close();
-    this.shellManager.close();
-
-    if (this.client && this.isConnected && !this.isLocalConnection) {
-      this.client.end();
-    }
-    if (this.jumpClient) {
-      this.jumpClient.end();
+  /**
+   * 断开池里所有连接（会话结束 / 进程退出时）
+   */
+  async disconnectAll(): Promise<void> {
+    for (const name of [...this.pool.keys()]) {
+      await this.disconnect(name);
     }
-    this.cleanup();
-  }
-
-  private cleanup(): void {
-    this.sftpManager.close();
-    // 收尸：error/close 回调走的是 cleanup 而非 disconnect，必须在这里也关掉底层连接，
-    // 否则 ProxyJump 的 jumpClient 被丢引用却不 end，TCP 会残留到 keepalive 超时。
-    if (this.client) { try { this.client.end(); } catch { /* ignore */ } }
-    if (this.jumpClient) { try { this.jumpClient.end(); } catch { /* ignore */ } }
-    this.isConnected = false;
-    this.isLocalConnection = false;
-    this.currentServer = null;
-    this.client = null;
-    this.jumpClient = null;
-  }
-
-  getClient(): Client | null {
-    return this.client;
-  }
-
-  getShellManager(): ShellManager {
-    return this.shellManager;
-  }
-
-  getSftpManager(): SFTPManager {
-    return this.sftpManager;
-  }
-
-  isLocal(): boolean {
-    return this.isLocalConnection;
+    this.currentName = null;
+    this.stopSweep();
   }
 
   /**
-   * 真正打开一条 PTY shell channel：按连接类型选 node-pty / ssh loopback / 远端 client。
-   * local 且还没 client 时先试 node-pty，失败降级 ssh loopback（建 loopback client 并在其上开 shell）。
-   * ensureShell（懒加载）和 resetShell（重开）都复用它。
+   * 超过上限时按 LRU 断开，刚建的那条和正忙的（exec / 传输 / PTY shell）不动；全都忙就暂时超出上限
    */
-  private async openShellChannel(): Promise<void> {
-    if (this.isLocalConnection && !this.client) {
-      try {
-        await this.shellManager.openLocal();
-        return;
-      } catch (error) {
-        const msg = error instanceof Error ? error.message : String(error);
-        console.error(`[mcp-ssh-pty] local PTY failed (${msg}); falling back to ssh loopback 127.0.0.1:22`);
-        await this.connectLoopbackSSH(); // 建 loopback client 并在其上开 shell
-        return;
+  private async evictOverflow(keep: string): Promise<void> {
+    while (this.pool.size > POOL_MAX) {
+      let oldest: string | null = null;
+      let oldestAt = Infinity;
+      for (const [name, entry] of this.pool) {
+        if (name !== keep && !entry.connection.isBusy() && entry.lastUsed < oldestAt) {
+          oldest = name;
+          oldestAt = entry.lastUsed;
+        }
       }
+      if (!oldest) return;
+      console.error(`[mcp-ssh-pty] pool full (${POOL_MAX}), closing least recently used '${oldest}'`);
+      await this.disconnect(oldest);
     }
-    if (!this.client) {
-      throw new Error("找不到 SSH client，无法开启 PTY shell");
-    }
-    await this.shellManager.open(this.client);
   }
 
-  /**
-   * 懒加载 PTY shell：仅在确实要走 pty 模式（command mode:"pty" / signal / interactive REPL）时调用。
-   * 已开则直接返回；纯 exec 的 session 永远不触发，也就永远不会被 heredoc 卡死。
-   */
-  async ensureShell(): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error("未连接，无法开启 PTY shell");
+  private startSweep(): void {
+    if (this.sweepTimer || POOL_IDLE_MS === 0) return;
+    this.sweepTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [name, entry] of this.pool) {
+        // 正忙的连接算在用，顺手刷新时间，忙完后再从头计闲置
+        if (entry.connection.isBusy()) {
+          entry.lastUsed = now;
+        } else if (now - entry.lastUsed > POOL_IDLE_MS) {
+          console.error(`[mcp-ssh-pty] closing idle connection '${name}'`);
+          void this.disconnect(name);
+        }
+      }
+    }, IDLE_SWEEP_INTERVAL_MS);
+    // 别让回收定时器拖住进程退出
+    this.sweepTimer.unref();
+  }
+
+  private stopSweep(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
     }
-    if (this.shellManager.isOpen()) return;
-    await this.openShellChannel();
   }
 
   /**
-   * 硬复位 PTY shell：保留 SSH client（不重连）/ 本地连接信息，只关掉当前 shell channel
-   * 重开一条干净的。比 disconnect+reconnect 快得多。
+   * 池里所有活连接（status 用），当前连接排第一
    */
-  async resetShell(): Promise<void> {
-    if (!this.isConnected) {
-      throw new Error("未连接，无法重置 shell");
+  listConnections(): PooledConnectionInfo[] {
+    const now = Date.now();
+    const out: PooledConnectionInfo[] = [];
+    for (const [name, entry] of [...this.pool]) {
+      const status = entry.connection.getStatus();
+      if (!status.connected) {
+        this.pool.delete(name);
+        continue;
+      }
+      const shell = entry.connection.getShellManager();
+      out.push({
+        server: name,
+        host: status.host,
+        username: status.username,
+        current: name === this.currentName,
+        shellOpen: shell.isOpen(),
+        bufferLines: shell.getBufferLineCount(),
+        idleSeconds: Math.round((now - entry.lastUsed) / 1000),
+      });
     }
-    await this.shellManager.hardReset(() => this.openShellChannel());
+    return out.sort((a, b) => Number(b.current) - Number(a.current));
   }
 
+  /**
+   * 当前连接的状态（没有当前连接时 connected=false）
+   */
   getStatus(): ConnectionStatus {
-    return {
-      connected: this.isConnected,
-      serverName: this.currentServer?.name || null,
-      host: this.isLocalConnection ? "local" : (this.currentServer?.host || null),
-      username: this.currentServer?.username || null,
-    };
+    return this.current()?.getStatus() ?? { connected: false, serverName: null, host: null, username: null };
   }
 }
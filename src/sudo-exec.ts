@@ -0,0 +1,37 @@
+/**
+ * sudo:true 的 exec 命令包装：sudo 密码由 daemon 经 stdin 喂给 sudo -S，不经过模型。
+ *
+ * 包装后的脚本先从 stdin 读走第一行（密码），然后：
+ * - sudo -n true 能过（NOPASSWD 或凭据还在缓存里）：不喂密码，剩下的 stdin 原样给命令
+ * - 否则把密码接回用户 stdin 前面交给 sudo -S -k：-k 保证这次一定读密码，
+ *   不会出现 sudo 没问密码、密码那一行被当成命令输入的情况；sudo 逐字节读到换行为止，后面的留给命令
+ *
+ * 命令在 sudo 下用 $SHELL -c 跑，和普通 exec 一样的 shell 语义；外层固定用 sh，fish 这类登录 shell 也能跑。
+ */
+
+function shQuote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+export function wrapSudo(
+  command: string,
+  password: string,
+  stdin?: string
+): { command: string; stdin: string } {
+  if (password.includes("\n")) {
+    throw new Error("sudo 密码里有换行，没法经 stdin 喂给 sudo -S");
+  }
+  const inner = `"\${SHELL:-/bin/sh}" -c ${shQuote(command)}`;
+  const script = [
+    "IFS= read -r __mori_sudo_pw",
+    "if sudo -n true 2>/dev/null; then",
+    "  unset __mori_sudo_pw",
+    `  exec sudo -n -- ${inner}`,
+    "fi",
+    `{ printf '%s\\n' "$__mori_sudo_pw"; cat; } | sudo -S -k -p '' -- ${inner}`,
+  ].join("\n");
+  return {
+    command: `sh -c ${shQuote(script)}`,
+    stdin: `${password}\n${stdin ?? ""}`,
+  };
+}
@@ -8,15 +8,15 @@ import { z } from "zod";
 
 export const SSH_INPUT_SHAPE = {
   action: z
-    .enum(["list", "connect", "disconnect", "status", "notes", "sudo", "shortcuts", "reset_shell"])
+    .enum(["list", "connect", "disconnect", "status", "notes", "sudo", "shortcuts", "reset_shell", "jobs", "kill", "history"])
     .optional()
-    .describe("连接管理操作；reset_shell 关掉当前 PTY 重开一条（保留 SSH 连接）"),
-  server: z.string().optional().describe("服务器名称（connect 时必填）"),
+    .describe("连接管理操作；reset_shell 关掉当前 PTY 重开一条（保留 SSH 连接）；jobs 管理 mode:\"detach\" 起的后台任务（配合 jobOp / name）；kill 取消正在跑的 exec 命令（杀整个进程组）；history 查审计日志（配合 server / since / until / exitStatus / lines）"),
+  server: z.string().optional().describe("服务器名称（connect 时必填）。带 command/shortcut 时路由到这台（连接池里有就复用）；read/signal/reset_shell/disconnect 时指定作用于池里哪条连接；history 时按服务器过滤"),
   content: z.string().optional().describe("备注内容（notes 写入时使用）"),
   command: z.string().optional().describe("要执行的命令。默认走 exec 通道：一发一收、独立、直接返回 stdout/stderr/exitCode，输出无需清洗、绝不会卡死 session。只有 mode:\"pty\"（或 interactive:true）才进持久 PTY shell——见 mode 参数。"),
-  timeout: z.number().optional().describe("命令最大等待时间（秒），默认 5，最大 300。npm install、apt upgrade 这类几分钟的命令调大它。⚠️ 超过 5 分钟的任务不要靠调大 timeout——超时只是我们不再等，远端进程还在跑（sshd 不支持 signal，杀不掉），改用 command 描述里的 tmux detach 写法"),
+  timeout: z.number().optional().describe("命令最大等待时间（秒），默认 5，最大 300。npm install、apt upgrade 这类几分钟的命令调大它。到点会杀掉命令的整个进程组。⚠️ 超过 5 分钟的任务不要靠调大 timeout，改用 mode:\"detach\""),
   read: z.boolean().optional().describe("读取缓冲区"),
-  lines: z.number().optional().describe("读取行数，默认 20，-1 返回全部"),
+  lines: z.number().optional().describe("读取行数，默认 20，-1 返回全部；history 时是最多返回几条（默认 50）"),
   offset: z.number().optional().describe("读取起始偏移，默认 0"),
   clear: z.boolean().optional().describe("读取后清空缓冲区"),
   signal: z
@@ -24,26 +24,79 @@ export const SSH_INPUT_SHAPE = {
     .optional()
     .describe("发送信号：SIGINT/SIGTSTP/SIGQUIT 单字符；RESET 是组合（Ctrl-C + Ctrl-U + 换行）专治续行 prompt 卡死"),
   shortcut: z.string().optional().describe("要执行的 shortcut 名称（运维预配置的命名命令）"),
-  args: z.record(z.string()).optional().describe("shortcut 参数键值对，会被自动 shell-escape"),
+  args: z
+    .record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]))
+    .optional()
+    .describe("shortcut 参数键值对，会被自动 shell-escape。按 shortcut 声明的 type 校验（int / bool / path / duration / json），list 参数传数组"),
   dryRun: z.boolean().optional().describe("仅用于 shortcut：渲染但不执行，secrets 显示为占位符"),
   interactive: z.boolean().optional().describe("仅 pty 模式：启动 REPL（mysql/python/redis-cli）或向 REPL 内输入子命令时设 true，跳过 sentinel 包装。设了它即隐含 mode:\"pty\""),
-  mode: z.enum(["exec", "pty"]).optional().describe("执行通道。exec（默认）：一次性、无状态、独立通道，直接拿 stdout/stderr/exitCode，无 PTY 产物、绝不会被 heredoc/续行符卡死——绝大多数命令用它。pty：持久 PTY shell，跨命令继承 cwd/env，用于交互式 REPL、TUI(vim/top/less)、tail -f + Ctrl-C、必须保留 shell 状态的多步操作。signal/read/reset_shell/interactive 都隐含 pty；PTY 在首次 pty 调用时懒加载。⚠️ 仅 pty 模式有 heredoc/未闭合引号→卡 heredoc>/quote> 的风险：pty 下绝不内联 heredoc 或留未闭合引号/反斜杠/行尾管道，多行内容用 sftp.write 或（默认 exec 通道的）stdin。"),
+  mode: z.enum(["exec", "pty", "detach"]).optional().describe("执行通道。exec（默认）：一次性、无状态、独立通道，直接拿 stdout/stderr/exitCode，无 PTY 产物、绝不会被 heredoc/续行符卡死——绝大多数命令用它。pty：持久 PTY shell，跨命令继承 cwd/env，用于交互式 REPL、TUI(vim/top/less)、tail -f + Ctrl-C、必须保留 shell 状态的多步操作。signal/read/reset_shell/interactive 都隐含 pty；PTY 在首次 pty 调用时懒加载。⚠️ 仅 pty 模式有 heredoc/未闭合引号→卡 heredoc>/quote> 的风险：pty 下绝不内联 heredoc 或留未闭合引号/反斜杠/行尾管道，多行内容用 sftp.write 或（默认 exec 通道的）stdin。detach：长任务（超过 5 分钟的构建/测试/同步）在目标机后台起（tmux，没有则 systemd-run / setsid），立即返回 job 名，之后用 action:\"jobs\" 看进度/等/停；活得过 daemon 重启。"),
+  name: z.string().optional().describe("job 名（mode:\"detach\" 时可选，不给按命令自动起；action:\"jobs\" 的 tail/wait/kill 必填）。字母数字 - _"),
+  jobOp: z.enum(["list", "tail", "wait", "kill"]).optional().describe("仅 action:\"jobs\"：list（默认，列最近 20 个）、tail（状态 + 日志末尾 lines 行，默认 50）、wait（在目标机上等它结束，最多 timeout 秒，默认 60、上限 300）、kill（停掉整个进程组）"),
   raw: z.boolean().optional().describe("仅用于 read：返回未清洗的原始 PTY 流（含 ANSI/控制序列），调试用"),
   stdin: z.string().optional().describe("通过 stdin 喂给命令的字面量内容，在 exec 通道（默认）下生效，适合多行 yaml/sql/python（python3 - / kubectl apply -f - / psql / jq）"),
   cwd: z.string().optional().describe("在哪个目录跑（exec 通道）。exec 每次是全新 shell、cwd 不跨调用持久，用这个省掉 cd x && 前缀，例如 ssh({command:\"npm test\", cwd:\"/repo\"})"),
   exec: z.boolean().optional().describe("已废弃别名，等价 mode:\"exec\"（现已是默认）。新代码请用 mode"),
+  servers: z.array(z.string()).optional().describe("多台并发执行同一条 command（exec 通道）：服务器名、通配符、tag:<标签>（tag:prod+web = 同时带两个）或 group:<组名>，如 [\"web-*\", \"tag:prod\", \"db1\"]。返回每台的状态/用时汇总表和输出摘录；不改变当前连接"),
+  concurrency: z.number().optional().describe("仅 servers：同时跑几台，默认 6，最大 32"),
+  otp: z.string().optional().describe("一次性验证码：connect（或带 server 的命令）时堡垒机要 keyboard-interactive 验证码、又没配 totpSecret/otpCommand，报错会让你去问用户；拿到后带上它重连。只用于本次连接，不保存"),
   onlineOnly: z.boolean().optional().describe("仅用于 list：只返回当前在线（端口探活通过、反向隧道已连）的机器"),
+  tag: z.string().optional().describe("仅用于 list：只返回带该标签的服务器，\"prod+web\" = 同时带两个标签"),
+  sudo: z.boolean().optional().describe("以 root 执行（exec 通道，含 servers 和 shortcut）：服务端把配置里的 sudoPassword 经 stdin 喂给 sudo -S，密码不进上下文；可与 stdin 同时用。命令里不要再写 sudo"),
+  confirm: z.string().optional().describe("命令命中需确认的策略规则时，错误里会给一个 confirm 令牌：向用户说明并得到同意后，带上它原样重发同一调用"),
+  since: z.string().optional().describe("仅用于 history：从什么时候起，ISO 时间 / 日期或相对时长（30m、2h、7d）"),
+  until: z.string().optional().describe("仅用于 history：到什么时候为止，格式同 since"),
+  exitStatus: z.union([z.enum(["ok", "failed"]), z.number()]).optional().describe("仅用于 history：ok（exit 0）、failed（非零 / 超时 / 出错）或具体退出码"),
 };
 
 export const SFTP_INPUT_SHAPE = {
   action: z
-    .enum(["upload", "download", "write", "read"])
-    .describe("操作：upload/download 文件互传，write/read 内联文本读写"),
-  localPath: z.string().optional().describe("本地文件路径（upload/download 用）"),
-  remotePath: z.string().optional().describe("远端文件路径（upload/download 用）"),
-  path: z.string().optional().describe("目标路径（write/read 用，自动按当前连接判断 local/远端）"),
-  content: z.string().optional().describe("要写入的文本（write 必填）"),
-  mode: z.number().optional().describe("权限位十进制数（write 可选，默认 420 即 0o644；可执行用 493 = 0o755）"),
-  mkdirs: z.boolean().optional().describe("write 时父目录不存在自动建（默认 false）"),
+    .enum(["upload", "download", "sync", "transfer", "write", "read", "list", "stat", "mkdir", "remove", "rename", "chmod"])
+    .describe("操作：upload/download 文件互传（目录带 recursive），sync 目录增量同步，transfer 两台服务器之间直接传文件，write/read 内联文本读写，list/stat/mkdir/remove/rename/chmod 目录与文件管理"),
+  localPath: z.string().optional().describe("本地文件 / 目录路径（upload/download/sync 用）"),
+  remotePath: z.string().optional().describe("远端文件 / 目录路径（upload/download/sync 用）"),
+  path: z.string().optional().describe("目标路径（write/read/list/stat/mkdir/remove/rename/chmod 用，自动按当前连接判断 local/远端）"),
+  content: z.string().optional().describe("要写入的内容（write 必填）；encoding:\"base64\" 时是 base64 编码的二进制"),
+  encoding: z.enum(["utf8", "base64"]).optional().describe("read / write 的内容编码：utf8（默认，文本）或 base64（二进制原样读写）"),
+  mode: z.number().optional().describe("权限位十进制数（write 可选，默认 420 即 0o644；可执行用 493 = 0o755）；chmod 必填；mkdir 可选"),
+  mkdirs: z.boolean().optional().describe("write 时父目录不存在自动建；mkdir 时等价 mkdir -p（默认 false）"),
   maxBytes: z.number().optional().describe("read 时最大字节数（默认 1048576）"),
+  offset: z.number().optional().describe("read 从第几个字节开始读（负数从文件末尾往回数，如 -65536 = 最后 64KB）"),
+  length: z.number().optional().describe("read 读多少字节（仍受 maxBytes 限制）"),
+  tail: z.number().optional().describe("read 只要文件最后 N 行（从末尾往回读，大日志也很快）；不能和 offset / length 同时用"),
+  depth: z.number().optional().describe("list 递归几层（默认 1 = 只列这一层，最多 10）"),
+  glob: z.string().optional().describe("list 只返回文件名匹配的项（* ?），如 \"*.log\""),
+  recursive: z.boolean().optional().describe("upload/download 传整个目录时带 true；remove 删非空目录时必须带 true（连内容一起删）"),
+  newPath: z.string().optional().describe("rename 的新路径（同一端内改名 / 移动）"),
+  direction: z.enum(["up", "down"]).optional().describe("sync 必填：up = localPath → remotePath，down = remotePath → localPath"),
+  include: z.array(z.string()).optional().describe("sync 只同步匹配的文件（* ? 不跨目录，** 跨目录；不带 / 的按文件名匹配），如 [\"*.js\", \"assets/**\"]"),
+  exclude: z.array(z.string()).optional().describe("sync 跳过匹配的文件 / 目录（两边都不动），如 [\"node_modules\", \"*.log\"]"),
+  delete: z.boolean().optional().describe("sync 时删掉目标里源没有的文件 / 目录（被 exclude 的不动）"),
+  dryRun: z.boolean().optional().describe("sync 只列出会传 / 会删什么，不动手"),
+  checksum: z.boolean().optional().describe("sync 大小相同时再比 sha256（默认只比大小和修改时间）"),
+  fromServer: z.string().optional().describe("transfer 的源服务器名（local = daemon 本机），不用先 connect"),
+  fromPath: z.string().optional().describe("transfer 的源文件路径（在 fromServer 上）"),
+  toServer: z.string().optional().describe("transfer 的目标服务器名（local = daemon 本机）"),
+  toPath: z.string().optional().describe("transfer 的目标文件路径（在 toServer 上）"),
+};
+
+/** hub 连下游 daemon 时报的 client 名；daemon 只对这个名字的会话开放 sftp_relay */
+export const HUB_CLIENT_NAME = "ssh-hub";
+
+/**
+ * daemon 内部工具 sftp_relay 的参数：hub 跨 node 中转时按块调两端 daemon。
+ * 不在 sftp 里，模型直连 daemon 时看不到也调不了
+ */
+export const SFTP_RELAY_SHAPE = {
+  relay: z
+    .enum(["read", "hash", "write", "commit"])
+    .describe("read 读 fromPath 从 offset 起 length 字节（最多 1048576），hash 报 fromPath 的大小和 sha256，write 把一块写进 toPath 旁的 .part，commit 校验 sha256 后改名"),
+  fromServer: z.string().optional().describe("read / hash：源服务器名（local = daemon 本机）；commit：审计里记的源（node/server）"),
+  fromPath: z.string().optional().describe("read / hash：源文件路径；commit：审计里记的源路径"),
+  toServer: z.string().optional().describe("write / commit：目标服务器名（local = daemon 本机）"),
+  toPath: z.string().optional().describe("write / commit：目标文件路径"),
+  offset: z.number().optional().describe("read / write：这块从第几个字节开始"),
+  length: z.number().optional().describe("read：读多少字节"),
+  data: z.string().optional().describe("write：这块的内容（base64）"),
+  sha256: z.string().optional().describe("commit：整个文件的 sha256，对不上就删掉 .part"),
 };
@@ -1,15 +1,27 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { SSHManager, LOCAL_SERVER } from "./ssh-manager.js";
+import { SSHManager, POOL_MAX, POOL_IDLE_MS } from "./ssh-manager.js";
+import { SSHConnection, LOCAL_SERVER } from "./ssh-connection.js";
 import { ConfigManager } from "./config.js";
 import { NotesManager } from "./notes-manager.js";
-import { ShortcutConfig, ServerConfig } from "./types.js";
-import { saveIfLarge } from "./output-store.js";
+import { ShortcutConfig, ShortcutArgValue, ShortcutOutput, ShortcutOutputFormat, ServerConfig, ProxyJumpConfig } from "./types.js";
+import { saveIfLarge, SaveLimits } from "./output-store.js";
 import { probeTcp } from "./net-probe.js";
-import { SSH_INPUT_SHAPE, SFTP_INPUT_SHAPE } from "./tool-schemas.js";
-import { renderShortcut, renderShortcutSplit } from "./shortcut-renderer.js";
-import { execLocal, execRemote, ExecResult } from "./exec-runner.js";
+import { SSH_INPUT_SHAPE, SFTP_INPUT_SHAPE, SFTP_RELAY_SHAPE, HUB_CLIENT_NAME } from "./tool-schemas.js";
+import { renderShortcut, renderShortcutSplit, renderShortcutSteps, RenderedStep } from "./shortcut-renderer.js";
+import { runSteps, StepReport } from "./shortcut-steps.js";
+import { parseOutput, normalizeOutputSpec, OUTPUT_DEFAULT_MAX_ROWS } from "./output-parser.js";
+import { wrapSudo } from "./sudo-exec.js";
+import { execLocal, execRemote, ExecResult, RunningExec, DEFAULT_TIMEOUT_MS } from "./exec-runner.js";
+import { selectServers, serversWithTags } from "./server-selector.js";
+import { JobRunner, describeJob, JOB_LIST_LIMIT } from "./job-runner.js";
+import { ToolExtra, execProgress, countProgress } from "./progress.js";
+import { AuditLog, AuditEntry, AUDIT_QUERY_LIMIT, formatAuditEntry, parseAuditTime } from "./audit-log.js";
+import { evaluatePolicy, confirmToken, PolicyMatch } from "./policy.js";
+import { readOnlyViolations } from "./read-only.js";
+import { SyncResult } from "./sftp-sync.js";
+import { RELAY_CHUNK_MAX, TransferResult, relayTransfer } from "./sftp-transfer.js";
 
 /**
  * 检查输出是否过大，如果过大则保存到本地文件并截断返回
@@ -40,9 +52,9 @@ function truncateIfLarge(resultObj: Record<string, unknown>): string {
  * 解析执行通道：显式 mode 优先；interactive(REPL 输入) 隐含 pty；否则默认 exec。
  */
 function resolveMode(
-  mode: "exec" | "pty" | undefined,
+  mode: "exec" | "pty" | "detach" | undefined,
   interactive: boolean | undefined
-): "exec" | "pty" {
+): "exec" | "pty" | "detach" {
   if (mode) return mode;
   if (interactive) return "pty";
   return "exec";
@@ -52,34 +64,197 @@ function resolveMode(
  * 跑一条 exec（绕过 PTY）：local 走 child_process，远端走 ssh2 client.exec
  */
 async function runExec(
-  sshManager: SSHManager,
+  connection: SSHConnection,
   command: string,
   stdin: string | undefined,
   timeoutMs: number | undefined,
-  cwd?: string
+  cwd?: string,
+  extra?: ToolExtra
 ): Promise<ExecResult> {
-  if (sshManager.isLocal()) {
-    return execLocal(command, { stdin, timeoutMs, cwd });
+  const progress = execProgress(extra, timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  // 跑着的时候登记在连接上，ssh({action:"kill"}) 才找得到它
+  let untrack: (() => void) | undefined;
+  const onStart = (running: RunningExec) => {
+    untrack = connection.trackExec(running);
+  };
+  try {
+    if (connection.isLocal()) {
+      return await execLocal(command, { stdin, timeoutMs, cwd, onStart, onOutput: progress?.onOutput });
+    }
+    const client = connection.getClient();
+    if (!client) throw new Error("SSH Client 不可用（请先连接）");
+    return await execRemote(client, command, {
+      stdin,
+      timeoutMs,
+      cwd,
+      agentForward: connection.forwardsAgent(),
+      trackProcessGroup: !connection.isWindowsRemote(),
+      onStart,
+      onOutput: progress?.onOutput,
+    });
+  } finally {
+    untrack?.();
+    progress?.stop();
   }
-  const client = sshManager.getClient();
-  if (!client) throw new Error("SSH Client 不可用（请先连接）");
-  return execRemote(client, command, { stdin, timeoutMs, cwd });
 }
 
 /**
- * 一次性寻址的按需连接：带了 server 又要跑命令时，先确保连到它。
- * 已经连着同一台就直接返回（不重连——连一台 mac 要 1s+）；不同或没连才连。
+ * 记一条审计日志：补上时间、MCP session id 和用时，命令 / 参数里出现的该服务器 secret 明文打码
+ */
+function recordAudit(
+  auditLog: AuditLog,
+  configManager: ConfigManager,
+  extra: ToolExtra | undefined,
+  startedAt: number,
+  entry: Omit<AuditEntry, "ts" | "session" | "durationMs">
+): void {
+  auditLog.record(
+    {
+      ts: new Date(startedAt).toISOString(),
+      session: extra?.sessionId ?? `stdio-${process.pid}`,
+      durationMs: Date.now() - startedAt,
+      ...entry,
+    },
+    configManager.getSecretValues(entry.server)
+  );
+}
+
+/**
+ * exec 结果里审计要的字段
+ */
+function execOutcome(result: ExecResult): Pick<AuditEntry, "exitCode" | "signal" | "timedOut" | "cancelled" | "ok"> {
+  return {
+    exitCode: result.exitCode,
+    signal: result.signal,
+    timedOut: result.timedOut || undefined,
+    cancelled: result.cancelled,
+    ok: result.exitCode === 0 && !result.timedOut && !result.cancelled,
+  };
+}
+
+/**
+ * 策略检查的文本：命令，有 stdin 时接在后面（psql / mysql 从 stdin 读的 SQL 也要过规则）
+ */
+function policyText(command: string, stdin: string | undefined): string {
+  return stdin === undefined ? command : `${command}\n${stdin}`;
+}
+
+/**
+ * 执行前过命令策略（全局 policy + 服务器 policy）。targets 是这次要打到的服务器（fan-out 时是多台），
+ * text 是要检查的命令文本（含 stdin）。放行返回 null；被拒或需要确认而 confirm 令牌不对时返回结构化错误。
+ */
+function policyGate(
+  configManager: ConfigManager,
+  targets: string[],
+  text: string,
+  confirm: string | undefined
+): CallToolResult | null {
+  const describe = (server: string, m: PolicyMatch) => ({
+    server,
+    source: m.source,
+    pattern: m.pattern,
+    reason: m.reason,
+    matched: m.matched,
+  });
+  const denied: ReturnType<typeof describe>[] = [];
+  const needConfirm: ReturnType<typeof describe>[] = [];
+  for (const server of targets) {
+    const verdict = evaluatePolicy(configManager.getPolicyLayers(server), text, configManager.getServer(server)?.tags);
+    if (verdict.deny) denied.push(describe(server, verdict.deny));
+    needConfirm.push(...verdict.confirm.map((m) => describe(server, m)));
+  }
+
+  if (denied.length > 0) {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          error: "policy_denied",
+          message: "命令被策略拒绝，没有执行。不要换个写法绕过规则；确实需要就让用户自己去做，或请运维调整 policy",
+          denied,
+        }, null, 2),
+      }],
+      isError: true,
+    };
+  }
+  if (needConfirm.length === 0) return null;
+
+  const token = confirmToken(targets, text);
+  if (confirm === token) return null;
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        error: "confirmation_required",
+        message: confirm
+          ? `confirm 令牌不匹配（命令或目标服务器改过就要重新确认），没有执行。向用户说明并得到同意后带 confirm:"${token}" 重发`
+          : `命令命中需要确认的策略规则，没有执行。先把命令和下面的规则告诉用户，得到明确同意后带 confirm:"${token}" 原样重发同一调用`,
+        rules: needConfirm,
+        confirm: token,
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * readOnly 服务器拒绝执行时的结构化错误
+ */
+function readOnlyRefusal(server: string, message: string, problems?: string[]): CallToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify({
+        error: "read_only",
+        server,
+        message: `${server} 是只读服务器：${message}`,
+        problems,
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * targets 里的只读服务器要求 command 过只读白名单（内置 + readOnlyCommands），且不能 sudo:true。放行返回 null
+ */
+function readOnlyGate(configManager: ConfigManager, targets: string[], command: string, sudo?: boolean): CallToolResult | null {
+  const readOnly = targets.filter((name) => configManager.getServer(name)?.readOnly);
+  if (readOnly.length === 0) return null;
+  if (sudo) return readOnlyRefusal(readOnly.join(", "), "不能用 sudo:true");
+  const problems = readOnlyViolations(command, configManager.getReadOnlyCommands());
+  if (problems.length === 0) return null;
+  return readOnlyRefusal(
+    readOnly.join(", "),
+    "只能跑只读命令（ls / cat / grep / ps / df / systemctl status / docker logs / kubectl get 之类）和标了 readOnly 的 shortcut",
+    problems
+  );
+}
+
+/**
+ * 这条连接上的 detach 任务管理器（控制脚本走 exec 通道，状态全在目标机上）
+ */
+function jobRunnerFor(connection: SSHConnection): JobRunner {
+  return new JobRunner((command, stdin, timeoutMs) => runExec(connection, command, stdin, timeoutMs));
+}
+
+/**
+ * 一次性寻址的按需连接：带了 server 又要跑命令时，拿到那台的连接并设为当前连接。
+ * 连接池里已有就直接复用（不重连——连一台 mac 要 1s+）；没有才连。
+ * 返回的 connection 就是这次调用该用的那条，并发调用各拿各的，不受「当前连接」切换影响。
+ * keepCurrent：只连进池、不切当前连接（transfer 的两端）
  */
 async function ensureConnectedTo(
   sshManager: SSHManager,
   configManager: ConfigManager,
-  serverName: string
-): Promise<{ ok: true } | { ok: false; error: string }> {
-  const status = sshManager.getStatus();
-  if (status.connected && status.serverName === serverName) return { ok: true };
+  serverName: string,
+  otp?: string,
+  keepCurrent = false
+): Promise<{ ok: true; connection: SSHConnection } | { ok: false; error: string }> {
+  const open = (config: ServerConfig, options?: { otp?: string }) =>
+    keepCurrent ? sshManager.acquire(config, options) : sshManager.connect(config, options);
   if (serverName === "local") {
-    await sshManager.connect(LOCAL_SERVER);
-    return { ok: true };
+    return { ok: true, connection: await open(LOCAL_SERVER) };
   }
   const cfg = configManager.getServer(serverName);
   if (!cfg) {
@@ -87,8 +262,8 @@ async function ensureConnectedTo(
     return { ok: false, error: `服务器 '${serverName}' 不存在。可用服务器: ${available.join(", ")}` };
   }
   try {
-    await sshManager.connect(cfg);
-    return { ok: true };
+    const connection = await open(await configManager.resolveForConnect(cfg), { otp });
+    return { ok: true, connection };
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
     const offlineish = /ECONNREFUSED|ETIMEDOUT|EHOSTUNREACH|ENETUNREACH|ECONNRESET/i.test(msg);
@@ -101,12 +276,26 @@ async function ensureConnectedTo(
   }
 }
 
+/**
+ * 取本次调用要操作的已有连接：带 server 用连接池里那台（不会自动去连），否则用当前连接
+ */
+function pickConnection(sshManager: SSHManager, serverName?: string): SSHConnection | null {
+  return serverName ? sshManager.get(serverName) : sshManager.current();
+}
+
+function noConnectionText(serverName?: string): string {
+  return serverName
+    ? `当前没有到 '${serverName}' 的连接，请先 ssh({ action: "connect", server: "${serverName}" })`
+    : "未连接服务器";
+}
+
 /**
  * 把 ExecResult 包装成模型友好的 JSON。stdout/stderr 各自检查是否过大。
  */
 function shapeExecResult(
   _base: Record<string, unknown>,
-  result: ExecResult
+  result: ExecResult,
+  limits?: SaveLimits
 ): string {
   // 贴近原生 Bash：正常成功就只回原始 stdout（真换行、无 JSON 外壳）。
   // stderr 有内容时接在后面；只有异常（非零退出 / 超时 / 信号 / 截断）才在末尾加一行 [ ] 标注。
@@ -114,26 +303,34 @@ function shapeExecResult(
 
   // stdout 过长：存盘，正文只留尾部 2000 字符，加一行指路（原生 Bash 也会截断大输出）
   let stdout = result.stdout;
-  const save = saveIfLarge(stdout);
+  const save = saveIfLarge(stdout, limits);
   if (save.saved) {
-    parts.push(`[输出过长：完整 ${save.totalChars} 字符已存至 ${save.filePath}，下面只是末尾 2000 字符]`);
     stdout = save.tail ?? "";
+    parts.push(`[输出过长：完整 ${save.totalChars} 字符已存至 ${save.filePath}，下面只是末尾 ${stdout.length} 字符]`);
   }
   if (stdout) parts.push(stdout);
   if (result.stderr) parts.push(`--- stderr ---\n${result.stderr}`);
 
   const flags: string[] = [];
   if (result.timedOut) flags.push("超时");
+  if (result.cancelled) flags.push("已取消");
   if (typeof result.exitCode === "number" && result.exitCode !== 0) flags.push(`exit ${result.exitCode}`);
   if (result.signal) flags.push(`signal ${result.signal}`);
   if (result.truncated && !save.saved) flags.push("输出已截断");
   if (flags.length) parts.push(`[${flags.join(" · ")}]`);
+  if (result.timedOut || result.cancelled) {
+    parts.push(
+      result.killed
+        ? `[已杀掉整个进程组（pgid ${result.pgid}），命令没有跑完]`
+        : result.pgid !== undefined
+          ? `[没能确认杀掉进程组 ${result.pgid}，它可能还在跑：ps -o pid,stat,args -g ${result.pgid} 看看]`
+          : "[没拿到进程组 id（windows 目标机等），杀不掉，进程可能还在跑]"
+    );
+  }
   // 超时时把正确做法放在这里：模型正好在这一刻需要它，比写在工具描述里管用得多
   if (result.timedOut) {
     parts.push(
-      "[超时只是我们不再等，进程多半仍在远端跑（sshd 不支持 signal，杀不掉）。" +
-      "长任务改用 tmux 起：mkdir -p ~/.mori/jobs && tmux new -d -s <名> '<命令> > ~/.mori/jobs/<名>.log 2>&1; echo rc=$? > ~/.mori/jobs/<名>.status'；" +
-      "之后 cat 那个 .status 就知道完没完]"
+      "[长任务别靠调大 timeout：改用 mode:\"detach\" 起（立即返回 job 名），之后 ssh({action:\"jobs\", jobOp:\"wait\", name}) 等它结束]"
     );
   }
 
@@ -141,6 +338,332 @@ function shapeExecResult(
   return text.length ? text : "(exit 0，无输出)";
 }
 
+/** 解析结果存盘后，正文里的行最多占多少字符 */
+const PARSED_PREVIEW_CHARS = 4000;
+
+/**
+ * shortcut 声明了 output 时的返回：stdout 解析成 rows 的 JSON。
+ * 超过 maxRows 或全部行序列化后过大，就把全部行存盘，正文只留前面的行并指路。解析失败抛错（调用方回退原始输出）
+ */
+function shapeParsedOutput(
+  base: Record<string, unknown>,
+  spec: ShortcutOutputFormat | ShortcutOutput,
+  result: ExecResult
+): string {
+  const parsed = parseOutput(spec, result.stdout);
+  const maxRows = normalizeOutputSpec(spec).maxRows ?? OUTPUT_DEFAULT_MAX_ROWS;
+  const total = parsed.rows.length;
+  let rows = parsed.rows.slice(0, maxRows);
+  const save = saveIfLarge(JSON.stringify(parsed.rows, null, 2), rows.length < total ? { threshold: 0 } : undefined);
+  if (save.saved) {
+    let size = 0;
+    let n = 0;
+    while (n < rows.length && (size += JSON.stringify(rows[n]).length) <= PARSED_PREVIEW_CHARS) n++;
+    rows = rows.slice(0, n);
+  }
+  return JSON.stringify({
+    ...base,
+    format: parsed.format,
+    columns: parsed.columns,
+    rowCount: total,
+    returned: rows.length,
+    rows,
+    skipped: parsed.skipped || undefined,
+    stderr: result.stderr || undefined,
+    truncated: result.truncated || undefined,
+    hint: save.saved
+      ? `只返回了前 ${rows.length} 行；全部 ${total} 行（JSON 数组）已存至 ${save.filePath}，可用 Read / Grep 查看`
+      : undefined,
+  }, null, 2);
+}
+
+/** fan-out 默认并发数和上限 */
+const FANOUT_DEFAULT_CONCURRENCY = 6;
+const FANOUT_MAX_CONCURRENCY = 32;
+/** fan-out 每台的 stdout 摘录：超过就整段存盘、只留尾部，十几台的输出拼在一起才不会撑爆上下文 */
+const FANOUT_EXCERPT_LIMITS: SaveLimits = { threshold: 1500, tail: 800 };
+
+interface FanOutRow {
+  server: string;
+  ms: number;
+  result?: ExecResult;
+  error?: string;
+}
+
+/**
+ * sudo:true：把命令包成经 stdin 喂密码的 sudo -S 形式（见 sudo-exec.ts），密码取服务器的 sudoPassword / password
+ */
+async function sudoExec(
+  configManager: ConfigManager,
+  connection: SSHConnection,
+  serverName: string,
+  command: string,
+  stdin: string | undefined
+): Promise<{ command: string; stdin: string }> {
+  if (connection.isWindowsRemote() || (connection.isLocal() && process.platform === "win32")) {
+    throw new Error("windows 上没有 sudo，sudo:true 不可用");
+  }
+  const { password } = await configManager.resolveSudoPassword(serverName);
+  if (!password) {
+    throw new Error(
+      `服务器 '${serverName}' 没配 sudoPassword，也没有登录 password 可回退。` +
+        "在配置里加 sudoPassword（可写 secret: 引用），或目标机配了 NOPASSWD 时直接在命令里写 sudo"
+    );
+  }
+  return wrapSudo(command, password, stdin);
+}
+
+/**
+ * 在多台服务器上并发跑同一条 exec 命令（concurrency 控并发），返回汇总表 + 每台的输出摘录。
+ * 连接走 withConnection：池里有就借用，没有临时连、用完断，不改变当前连接。
+ */
+async function runFanOut(
+  sshManager: SSHManager,
+  configManager: ConfigManager,
+  patterns: string[],
+  command: string,
+  opts: {
+    stdin?: string;
+    timeoutMs?: number;
+    cwd?: string;
+    concurrency?: number;
+    /** 每台都以 sudo 执行（各用各的 sudo 密码） */
+    sudo?: boolean;
+    /** 选好服务器后、开跑前的检查（命令策略）；返回非 null 就不跑、直接返回它 */
+    gate?: (names: string[]) => CallToolResult | null;
+    onDone?: (row: FanOutRow) => void;
+  },
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  const selection = selectServers(patterns, configManager.listServers(), configManager.getGroups());
+  if (selection.names.length === 0) {
+    const available = ["local", ...configManager.listServers().map((s) => s.name)];
+    return {
+      content: [{ type: "text", text: `servers 没有选中任何服务器（${patterns.join(", ")}）。可用服务器: ${available.join(", ")}` }],
+      isError: true,
+    };
+  }
+  const blocked = opts.gate?.(selection.names);
+  if (blocked) return blocked;
+
+  const runOne = async (name: string): Promise<FanOutRow> => {
+    const started = Date.now();
+    try {
+      let config: ServerConfig;
+      if (name === "local") {
+        config = LOCAL_SERVER;
+      } else {
+        config = await configManager.resolveForConnect(configManager.getServer(name)!);
+      }
+      const result = await sshManager.withConnection(config, async (connection) => {
+        const run = opts.sudo
+          ? await sudoExec(configManager, connection, name, command, opts.stdin)
+          : { command, stdin: opts.stdin };
+        return runExec(connection, run.command, run.stdin, opts.timeoutMs, opts.cwd);
+      });
+      return { server: name, ms: Date.now() - started, result };
+    } catch (e) {
+      return { server: name, ms: Date.now() - started, error: e instanceof Error ? e.message : String(e) };
+    }
+  };
+
+  const limit = Math.min(Math.max(opts.concurrency ?? FANOUT_DEFAULT_CONCURRENCY, 1), FANOUT_MAX_CONCURRENCY);
+  const rows: FanOutRow[] = new Array(selection.names.length);
+  let next = 0;
+  let done = 0;
+  const worker = async () => {
+    while (next < selection.names.length) {
+      const i = next++;
+      rows[i] = await runOne(selection.names[i]);
+      opts.onDone?.(rows[i]);
+      done++;
+      const r = rows[i];
+      const state = r.error ? "error" : r.result!.timedOut ? "timeout" : `exit ${r.result!.exitCode ?? "?"}`;
+      countProgress(extra, done, selection.names.length, `${done}/${selection.names.length} 完成（${r.server}: ${state}）`);
+    }
+  };
+  const started = Date.now();
+  await Promise.all(Array.from({ length: Math.min(limit, selection.names.length) }, worker));
+
+  const okCount = rows.filter((r) => r.result && r.result.exitCode === 0 && !r.result.timedOut).length;
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+  const statusOf = (r: FanOutRow) =>
+    r.error ? "error" : r.result!.timedOut ? "timeout" : r.result!.exitCode === null ? `signal ${r.result!.signal ?? "?"}` : `exit ${r.result!.exitCode}`;
+
+  const width = Math.max(6, ...rows.map((r) => r.server.length));
+  const lines: string[] = [
+    `${rows.length} 台：${okCount} 成功 · ${rows.length - okCount} 失败 · 总用时 ${seconds(Date.now() - started)}`,
+    "",
+    `${"server".padEnd(width)}  ${"status".padEnd(10)}  time`,
+    ...rows.map((r) => `${r.server.padEnd(width)}  ${statusOf(r).padEnd(10)}  ${seconds(r.ms)}`),
+  ];
+  if (selection.unknown.length) lines.push("", `不存在的服务器: ${selection.unknown.join(", ")}`);
+  if (selection.unmatched.length) lines.push("", `没有匹配任何服务器的模式: ${selection.unmatched.join(", ")}`);
+
+  for (const r of rows) {
+    lines.push("", `=== ${r.server} · ${statusOf(r)} · ${seconds(r.ms)} ===`);
+    lines.push(r.error ? `连接/执行失败: ${r.error}` : shapeExecResult({ server: r.server, command }, r.result!, FANOUT_EXCERPT_LIMITS));
+  }
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    isError: okCount === 0,
+  };
+}
+
+/**
+ * 多步 shortcut 一步的状态文字（汇总表和分段标题共用）
+ */
+function stepStatus(r: StepReport): string {
+  if (r.status === "skipped") return "skipped";
+  if (r.error) return "error";
+  if (r.kind === "waitFor") return r.status === "ok" ? `ok x${r.attempts}` : "not ready";
+  if (!r.result) return r.status;
+  return r.result.timedOut ? "timeout" : r.result.exitCode === null ? `signal ${r.result.signal ?? "?"}` : `exit ${r.result.exitCode}`;
+}
+
+/**
+ * 执行多步 shortcut（steps）：校验目标 → 只读 / 策略检查 → 按顺序跑 → 汇总表 + 每步输出摘录。
+ * 调用目标上的步骤用现成连接，其它目标走 withConnection（不改变当前连接）。审计记一条 shortcut。
+ */
+async function runStepShortcut(
+  sshManager: SSHManager,
+  configManager: ConfigManager,
+  auditLog: AuditLog,
+  connection: SSHConnection,
+  currentName: string,
+  shortcut: string,
+  cfg: ShortcutConfig,
+  args: Record<string, ShortcutArgValue>,
+  opts: { dryRun?: boolean; timeoutMs?: number; confirm?: string },
+  extra?: ToolExtra
+): Promise<CallToolResult> {
+  let preview: RenderedStep[];
+  try {
+    preview = renderShortcutSteps(shortcut, cfg, args, "dryRun");
+  } catch (e) {
+    return { content: [{ type: "text", text: e instanceof Error ? e.message : String(e) }], isError: true };
+  }
+  const targetOf = (step: RenderedStep) => step.runsOn ?? currentName;
+  const targets = [...new Set(preview.map(targetOf))];
+  const unknown = targets.filter((t) => t !== "local" && !configManager.getServer(t));
+  if (unknown.length > 0) {
+    return {
+      content: [{ type: "text", text: `shortcut '${shortcut}' 的步骤指向不存在的服务器: ${unknown.join(", ")}` }],
+      isError: true,
+    };
+  }
+
+  if (opts.dryRun) {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          server: currentName,
+          shortcut,
+          args,
+          dryRun: true,
+          steps: preview.map((step) => ({ ...step, runsOn: targetOf(step) })),
+        }, null, 2),
+      }],
+    };
+  }
+
+  for (const target of targets) {
+    if (!configManager.getServer(target)?.readOnly) continue;
+    if (!cfg.readOnly) {
+      return readOnlyRefusal(target, `shortcut '${shortcut}' 没有标 readOnly，它的步骤不能在这台上跑`);
+    }
+    const writes = preview.filter((step) => targetOf(step) === target && (step.kind === "write" || step.kind === "upload"));
+    if (writes.length > 0) {
+      return readOnlyRefusal(target, `shortcut '${shortcut}' 的步骤 ${writes.map((w) => w.name).join(", ")} 要写文件`);
+    }
+    const sudoSteps = preview.filter((step) => targetOf(step) === target && step.sudo);
+    if (sudoSteps.length > 0) {
+      return readOnlyRefusal(target, `shortcut '${shortcut}' 的步骤 ${sudoSteps.map((w) => w.name).join(", ")} 要以 sudo 执行`);
+    }
+  }
+
+  // 策略按 dryRun 渲染的各步命令检查，目标取所有步骤用到的服务器
+  const policyTexts = preview
+    .filter((step) => step.command !== undefined)
+    .map((step) => policyText(step.command!, step.stdin));
+  if (policyTexts.length > 0) {
+    const blocked = policyGate(configManager, targets, policyTexts.join("\n"), opts.confirm);
+    if (blocked) return blocked;
+  }
+
+  let steps: RenderedStep[];
+  try {
+    steps = renderShortcutSteps(shortcut, await configManager.resolveShortcutSecrets(shortcut, cfg), args);
+  } catch (e) {
+    return { content: [{ type: "text", text: e instanceof Error ? e.message : String(e) }], isError: true };
+  }
+
+  const startedAt = Date.now();
+  const reports = await runSteps(
+    steps,
+    currentName,
+    {
+      withServer: async (server, fn) => {
+        if (server === currentName) return fn(connection);
+        const config = server === "local"
+          ? LOCAL_SERVER
+          : await configManager.resolveForConnect(configManager.getServer(server)!);
+        return sshManager.withConnection(config, fn);
+      },
+      exec: async (conn, server, command, stdin, timeoutMs, sudo) => {
+        const run = sudo ? await sudoExec(configManager, conn, server, command, stdin) : { command, stdin };
+        return runExec(conn, run.command, run.stdin, timeoutMs);
+      },
+      onStep: (r, i) => countProgress(extra, i + 1, steps.length, `${i + 1}/${steps.length} ${r.name}（${r.server}: ${stepStatus(r)}）`),
+    },
+    opts.timeoutMs
+  );
+
+  // 失败但标了 continueOnError 的步骤不算整体失败
+  const fatal = reports.find((r, i) => r.status === "failed" && !steps[i].continueOnError);
+  recordAudit(auditLog, configManager, extra, startedAt, {
+    tool: "ssh",
+    kind: "shortcut",
+    server: currentName,
+    mode: "exec",
+    shortcut,
+    args,
+    error: fatal ? `步骤 ${fatal.name}（${fatal.server}）失败` : undefined,
+    ok: !fatal,
+  });
+
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+  const count = (status: StepReport["status"]) => reports.filter((r) => r.status === status).length;
+  const nameWidth = Math.max(4, ...reports.map((r) => r.name.length));
+  const serverWidth = Math.max(6, ...reports.map((r) => r.server.length));
+  const lines: string[] = [
+    `shortcut '${shortcut}'：${reports.length} 步，${count("ok")} 成功 · ${count("failed")} 失败 · ${count("skipped")} 跳过 · 总用时 ${seconds(Date.now() - startedAt)}`,
+    "",
+    `#   ${"step".padEnd(nameWidth)}  ${"server".padEnd(serverWidth)}  ${"status".padEnd(10)}  time`,
+    ...reports.map((r, i) =>
+      `${String(i + 1).padEnd(2)}  ${r.name.padEnd(nameWidth)}  ${r.server.padEnd(serverWidth)}  ${stepStatus(r).padEnd(10)}  ${r.status === "skipped" ? "-" : seconds(r.ms)}`
+    ),
+  ];
+  reports.forEach((r, i) => {
+    if (r.status === "skipped") return;
+    lines.push("", `=== ${i + 1}. ${r.name} · ${r.server} · ${stepStatus(r)} · ${seconds(r.ms)} ===`);
+    if (r.error) {
+      lines.push(`连接/执行失败: ${r.error}`);
+      return;
+    }
+    if (r.detail) lines.push(r.detail);
+    if (r.result) lines.push(shapeExecResult({ server: r.server, shortcut, step: r.name }, r.result, FANOUT_EXCERPT_LIMITS));
+  });
+  if (fatal && count("skipped") > 0) lines.push("", `[在 ${fatal.name} 失败后停下，后面的步骤没有执行]`);
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    isError: !!fatal,
+  };
+}
+
 /**
  * 把 shortcuts 字典转成模型可见的摘要列表（不暴露 command 模板和 secret 值）。
  * detail 决定字段粒度。getSource 用于 full 模式标注每条来自全局还是服务器级。
@@ -148,7 +671,7 @@ function shapeExecResult(
 function summarizeShortcuts(
   shortcuts: Record<string, ShortcutConfig> | undefined,
   detail: "names" | "brief" | "full",
-  getSource?: (name: string) => "global" | "server" | null
+  getSource?: (name: string) => "global" | "tag" | "server" | null
 ): unknown {
   if (!shortcuts) return [];
   const entries = Object.entries(shortcuts);
@@ -158,6 +681,10 @@ function summarizeShortcuts(
       name,
       description: cfg.description,
       runsOn: cfg.runsOn,
+      readOnly: cfg.readOnly,
+      sudo: cfg.sudo,
+      steps: cfg.steps?.length,
+      output: cfg.output === undefined ? undefined : normalizeOutputSpec(cfg.output).format,
     }));
   }
   return entries.map(([name, cfg]) => ({
@@ -165,16 +692,266 @@ function summarizeShortcuts(
     description: cfg.description,
     runsOn: cfg.runsOn,
     source: getSource ? getSource(name) ?? undefined : undefined,
+    readOnly: cfg.readOnly,
+    sudo: cfg.sudo,
+    steps: cfg.steps?.map((step, i) => ({ name: step.name ?? `step ${i + 1}`, runsOn: step.runsOn ?? cfg.runsOn })),
+    output: cfg.output === undefined ? undefined : normalizeOutputSpec(cfg.output).format,
     args: cfg.args ?? [],
     secretKeys: Object.keys(cfg.secrets ?? {}),
   }));
 }
 
+/** sync / 目录传输结果里每个清单最多列几项 */
+const SYNC_LIST_LIMIT = 50;
+
+/**
+ * sync / 目录递归传输的结果：汇总数字 + 传了 / 建了 / 删了 / 跳过了哪些（各最多 50 项）
+ */
+function describeSync(action: string, r: SyncResult): string {
+  const cap = (items: string[]) =>
+    items.length > SYNC_LIST_LIMIT ? [...items.slice(0, SYNC_LIST_LIMIT), `…另有 ${items.length - SYNC_LIST_LIMIT} 项`] : items;
+  return JSON.stringify({
+    action,
+    direction: r.direction,
+    from: r.from,
+    to: r.to,
+    dryRun: r.dryRun || undefined,
+    files: r.transferred.length,
+    bytes: r.bytes,
+    unchanged: r.unchanged,
+    deleted: r.deleted.length,
+    seconds: Number((r.ms / 1000).toFixed(1)),
+    transferred: cap(r.transferred.map((f) => `${f.path} (${f.reason}, ${f.bytes}B)`)),
+    createdDirs: r.createdDirs.length ? cap(r.createdDirs) : undefined,
+    deletedPaths: r.deleted.length ? cap(r.deleted) : undefined,
+    skipped: r.skipped.length ? cap(r.skipped) : undefined,
+  }, null, 2);
+}
+
+/**
+ * 单文件传输校验用：在远端跑 sha256sum（没有就 shasum，windows 用 Get-FileHash），
+ * 比经 SFTP 把整个文件读回来算快得多。跑不出来返回 null，由调用方退回 SFTP 读
+ */
+function remoteSha256(connection: SSHConnection): (path: string) => Promise<string | null> {
+  return async (path) => {
+    const quoted = `'${path.replace(/'/g, connection.isWindowsRemote() ? "''" : "'\\''")}'`;
+    const command = connection.isWindowsRemote()
+      ? `powershell -NoProfile -Command "(Get-FileHash -Algorithm SHA256 -LiteralPath ${quoted}).Hash"`
+      : `sha256sum -- ${quoted} 2>/dev/null || shasum -a 256 -- ${quoted}`;
+    try {
+      const result = await runExec(connection, command, undefined, 300_000);
+      if (result.exitCode !== 0) return null;
+      return /\b([0-9a-fA-F]{64})\b/.exec(result.stdout)?.[1].toLowerCase() ?? null;
+    } catch {
+      return null;
+    }
+  };
+}
+
+function describeTransfer(action: string, r: TransferResult): string {
+  return JSON.stringify({
+    action,
+    from: r.from,
+    to: r.to,
+    bytes: r.bytes,
+    transferred: r.transferred,
+    resumedFrom: r.resumedFrom,
+    sha256: r.sha256,
+    seconds: r.seconds,
+    mbPerSecond: Number((r.bytesPerSecond / 1024 / 1024).toFixed(2)),
+    verifySeconds: r.verifySeconds,
+  }, null, 2);
+}
+
+/** transfer 的一端：local 是 daemon 本机（client 为 null，走本机 fs），其它按需连进池、不切当前连接 */
+interface TransferEnd {
+  server: string;
+  connection: SSHConnection;
+  client: ReturnType<SSHConnection["getClient"]>;
+}
+
+async function transferEnd(
+  sshManager: SSHManager,
+  configManager: ConfigManager,
+  serverName: string
+): Promise<{ ok: true; end: TransferEnd } | { ok: false; error: string }> {
+  const conn = await ensureConnectedTo(sshManager, configManager, serverName, undefined, true);
+  if (!conn.ok) return conn;
+  const client = conn.connection.isLocal() ? null : conn.connection.getClient();
+  if (!conn.connection.isLocal() && !client) return { ok: false, error: `'${serverName}' 的 SSH Client 不可用` };
+  return { ok: true, end: { server: serverName, connection: conn.connection, client } };
+}
+
+/**
+ * sftp transfer：fromServer:fromPath → toServer:toPath，不用先 connect、不改当前连接。
+ * 一端是 local 就是续传 upload / download；两端都是远端时在两条 SFTP 通道之间直接搬，不落本机盘
+ */
+async function runTransfer(
+  sshManager: SSHManager,
+  configManager: ConfigManager,
+  auditLog: AuditLog,
+  args: { fromServer?: string; fromPath?: string; toServer?: string; toPath?: string },
+  extra: ToolExtra
+): Promise<CallToolResult> {
+  const { fromServer, fromPath, toServer, toPath } = args;
+  if (!fromServer || !fromPath || !toServer || !toPath) {
+    return {
+      content: [{ type: "text", text: "transfer 需要 fromServer / fromPath / toServer / toPath 四个参数" }],
+      isError: true,
+    };
+  }
+  if (fromServer === "local" && toServer === "local") {
+    return {
+      content: [{ type: "text", text: "两端都是 local：同机拷贝用 ssh({ command: \"cp …\" })" }],
+      isError: true,
+    };
+  }
+  if (fromServer === toServer && fromPath === toPath) {
+    return { content: [{ type: "text", text: "源和目标是同一个文件" }], isError: true };
+  }
+  if (configManager.getServer(toServer)?.readOnly) {
+    return readOnlyRefusal(toServer, "不能作为 transfer 的目标（只能当 fromServer）");
+  }
+  const from = await transferEnd(sshManager, configManager, fromServer);
+  if (!from.ok) return { content: [{ type: "text", text: from.error }], isError: true };
+  const to = await transferEnd(sshManager, configManager, toServer);
+  if (!to.ok) return { content: [{ type: "text", text: to.error }], isError: true };
+  const src = from.end;
+  const dst = to.end;
+
+  const onProgress = (done: number, total: number) =>
+    countProgress(extra, done, total, `${(done / 1024 / 1024).toFixed(1)}M / ${(total / 1024 / 1024).toFixed(1)}M`);
+  const transferAudit = { tool: "sftp" as const, kind: "transfer" as const, server: toServer, path: toPath, fromServer, fromPath };
+  const startedAt = Date.now();
+  let result: TransferResult;
+  try {
+    // 两端都 pin 住：传输期间池的闲置回收 / LRU 淘汰不碰它们
+    result = await src.connection.pin(() => dst.connection.pin(async () => {
+      if (!src.client) {
+        return dst.connection.getSftpManager().upload(dst.client!, fromPath, toPath, { remoteSha256: remoteSha256(dst.connection), onProgress });
+      }
+      if (!dst.client) {
+        return src.connection.getSftpManager().download(src.client, fromPath, toPath, { remoteSha256: remoteSha256(src.connection), onProgress });
+      }
+      return relayTransfer(
+        await src.connection.getSftpManager().getSftp(src.client),
+        fromPath,
+        await dst.connection.getSftpManager().getSftp(dst.client),
+        toPath,
+        { fromSha256: remoteSha256(src.connection), toSha256: remoteSha256(dst.connection), onProgress }
+      );
+    }));
+  } catch (e) {
+    recordAudit(auditLog, configManager, extra, startedAt, {
+      ...transferAudit,
+      error: e instanceof Error ? e.message : String(e),
+      ok: false,
+    });
+    throw e;
+  }
+  recordAudit(auditLog, configManager, extra, startedAt, { ...transferAudit, bytes: result.transferred, ok: true });
+  return {
+    content: [{ type: "text", text: describeTransfer("transfer", { ...result, from: `${fromServer}:${fromPath}`, to: `${toServer}:${toPath}` }) }],
+  };
+}
+
+/**
+ * hub 跨 node 中转的一步（内部工具 sftp_relay，见 hub.ts）：relay read 从 fromServer 读一块，relay hash 报源文件的大小和 sha256，
+ * relay write 往 toServer 的 .part 写一块，relay commit 校验 sha256 后改名并记审计（fromServer / fromPath 是 hub 传来的 node/server 标注）
+ */
+async function runRelayStep(
+  sshManager: SSHManager,
+  configManager: ConfigManager,
+  auditLog: AuditLog,
+  args: {
+    relay: "read" | "hash" | "write" | "commit";
+    fromServer?: string;
+    fromPath?: string;
+    toServer?: string;
+    toPath?: string;
+    offset?: number;
+    length?: number;
+    data?: string;
+    sha256?: string;
+  },
+  extra: ToolExtra
+): Promise<CallToolResult> {
+  const fail = (text: string): CallToolResult => ({ content: [{ type: "text", text }], isError: true });
+  if (args.relay === "read") {
+    if (!args.fromServer || !args.fromPath) return fail("relay read 需要 fromServer / fromPath");
+    const from = await transferEnd(sshManager, configManager, args.fromServer);
+    if (!from.ok) return fail(from.error);
+    const offset = Math.max(0, Math.floor(args.offset ?? 0));
+    const length = Math.min(Math.max(1, Math.floor(args.length ?? RELAY_CHUNK_MAX)), RELAY_CHUNK_MAX);
+    const chunk = await from.end.connection.getSftpManager().readChunk(from.end.client, args.fromPath, offset, length);
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({ size: chunk.size, offset, bytes: chunk.data.length, data: chunk.data.toString("base64") }),
+      }],
+    };
+  }
+
+  if (args.relay === "hash") {
+    if (!args.fromServer || !args.fromPath) return fail("relay hash 需要 fromServer / fromPath");
+    const from = await transferEnd(sshManager, configManager, args.fromServer);
+    if (!from.ok) return fail(from.error);
+    const { connection, client } = from.end;
+    const hashed = await connection.pin(() =>
+      connection.getSftpManager().hashSource(client, args.fromPath!, client ? remoteSha256(connection) : undefined)
+    );
+    return { content: [{ type: "text", text: JSON.stringify({ from: args.fromPath, ...hashed }) }] };
+  }
+
+  if (!args.toServer || !args.toPath) return fail(`relay ${args.relay} 需要 toServer / toPath`);
+  if (configManager.getServer(args.toServer)?.readOnly) {
+    return readOnlyRefusal(args.toServer, "不能作为 transfer 的目标（只能当 fromServer）");
+  }
+  const to = await transferEnd(sshManager, configManager, args.toServer);
+  if (!to.ok) return fail(to.error);
+  const sftpManager = to.end.connection.getSftpManager();
+  if (args.relay === "write") {
+    if (args.data === undefined || args.offset === undefined) return fail("relay write 需要 offset / data");
+    const written = await sftpManager.writeChunk(to.end.client, args.toPath, args.offset, Buffer.from(args.data, "base64"));
+    return { content: [{ type: "text", text: JSON.stringify({ partBytes: written }) }] };
+  }
+
+  if (!args.sha256) return fail("relay commit 需要 sha256");
+  const commitAudit = {
+    tool: "sftp" as const,
+    kind: "transfer" as const,
+    server: args.toServer,
+    path: args.toPath,
+    fromServer: args.fromServer,
+    fromPath: args.fromPath,
+  };
+  const startedAt = Date.now();
+  let committed: { bytes: number; sha256: string };
+  try {
+    committed = await to.end.connection.pin(() => sftpManager.commitChunks(
+      to.end.client,
+      args.toPath!,
+      args.sha256!,
+      to.end.client ? remoteSha256(to.end.connection) : undefined
+    ));
+  } catch (e) {
+    recordAudit(auditLog, configManager, extra, startedAt, {
+      ...commitAudit,
+      error: e instanceof Error ? e.message : String(e),
+      ok: false,
+    });
+    throw e;
+  }
+  recordAudit(auditLog, configManager, extra, startedAt, { ...commitAudit, bytes: committed.bytes, ok: true });
+  return { content: [{ type: "text", text: JSON.stringify({ to: args.toPath, ...committed }) }] };
+}
+
 export function registerTools(
   server: McpServer,
   sshManager: SSHManager,
   configManager: ConfigManager,
-  notesManager: NotesManager
+  notesManager: NotesManager,
+  auditLog: AuditLog
 ): void {
   server.registerTool(
     "ssh",
@@ -182,17 +959,36 @@ export function registerTools(
       description: `SSH 远程服务器连接管理和命令执行（命令默认走无头 exec 通道；交互式/持久场景可选 mode:"pty"）。
 
 ## 连接管理 (action)
-- list: 列出所有可用服务器（每条带 online 端口探活 + 备注摘要 + 全局 hints）；传 onlineOnly=true 只列当前在线（反向隧道已连）的机器
-- connect: 连接服务器（需提供 server 参数，自动附带完整备注 + 全局 hints + 该服务器 hints）
-- disconnect: 断开当前连接
-- status: 查看连接状态和 shell 缓冲区行数
+- list: 列出所有可用服务器（每条带 online 端口探活 + tags + 备注摘要 + 全局 hints，另附 groups）；传 onlineOnly=true 只列当前在线（反向隧道已连）的机器，传 tag 只列带该标签的（tag:"prod+web" = 同时带两个）
+- connect: 连接服务器（需提供 server 参数，自动附带完整备注 + 全局 hints + 该服务器 hints）。堡垒机要验证码而报错「请向用户索取验证码」时，问用户要到后带 otp 参数重连
+- disconnect: 断开当前连接（带 server 则断开指定那台）
+- status: 查看当前连接、shell 缓冲区行数，以及连接池里所有活着的连接
+- kill: 取消这条连接（带 server 则指定那台）上正在跑的 exec 命令，杀掉它们整个进程组并回报是否真的停了
+- jobs: 管理 mode:"detach" 起的后台任务（jobOp: list / tail / wait / kill，见「长任务」一节）
+- history: 查审计日志——本机 daemon 上每条命令 / shortcut / 文件写入传输都有记录（服务器、exit、用时、session）。
+  可按 server、since / until（ISO 时间或 30m / 2h / 7d）、exitStatus（ok / failed / 退出码）过滤，lines 控制条数（默认 50）。
+  例：ssh({ action: "history", server: "web1", since: "2h", exitStatus: "failed" })
 - notes: 读写服务器备注（配合 content 参数写入）
-- sudo: 获取服务器的 sudo 密码（需在配置中设置 sudoPassword，或回退到登录 password）
+- sudo: 查服务器有没有配 sudo 密码（sudoPassword，或回退到登录 password）；配置开了 revealSudoPassword 才返回明文，否则用命令的 sudo:true
 - shortcuts: 列出当前（或指定 server 的）所有 shortcut 详情（名称/描述/参数 schema）
 
+## 连接池
+一个 session 里连过的机器会保持连接（每台有自己的 PTY shell 和 SFTP 通道），再 connect 或带 server 调用直接复用、不重新握手。
+不带 server 的调用落在「当前连接」（最近一次 connect / 带 server 调用的那台）；在几台机器之间来回跑命令就每次带上 server。
+${POOL_IDLE_MS > 0 ? `闲置 ${POOL_IDLE_MS / 60000} 分钟或超过上限（${POOL_MAX} 条）` : `超过上限（${POOL_MAX} 条）`}的连接会被自动断开（正在跑命令、传文件或开着 PTY shell 的不断）。
+
+## 只读服务器
+list 里带 readOnly:true 的机器（connect 响应里也会写明）只能跑只读命令和标了 readOnly 的 shortcut，
+不能 mode:"pty" / "detach"、不能 sudo:true、不能 sftp write / upload；违反时返回 error:"read_only" 和具体原因。要改东西请让用户自己来。
+
+## 命令策略（policy）
+运维可在配置里给命令设 deny / confirm 规则，command 和 shortcut 执行前检查：
+- 返回 error:"policy_denied"：被禁止，没有执行。不要换写法绕过，告诉用户是哪条规则拦的
+- 返回 error:"confirmation_required"：先把命令和命中的规则告诉用户，用户明确同意后带上返回里的 confirm 令牌原样重发同一调用
+
 ## Hints（指令性提示）
-运维者在 ssh-servers.json 顶层 globalHints 或服务器条目 hints 字段里配置的"模型必读"指引。
-list 响应附带 globalHints；connect 响应附带 globalHints + 该服务器 hints。
+运维者在 ssh-servers.json 顶层 globalHints、tagHints（按服务器标签）或服务器条目 hints 字段里配置的"模型必读"指引。
+list 响应附带 globalHints；connect 响应附带 globalHints + 该服务器（含其标签）的 hints。
 典型用途：跨 MCP 拓扑决策、不要手动 cp jar、新特性提醒等。遇到 hints 字段务必按其指示行动。
 
 ## Shortcuts（命名命令模板）
@@ -214,9 +1010,19 @@ list 响应附带 globalHints；connect 响应附带 globalHints + 该服务器
 - args 自动 shell-escape：command 模板里的 args 被自动单引号包裹，无需也不应在 args 值里手动加引号
 - args 多行内容：当 shortcut 配置了 stdin 字段时，对应 args 通过 heredoc 字面量传递，可含任意换行/引号
 - args 枚举校验：声明了 enum 的参数若传非法值，会立即报错
+- args 类型校验：声明了 type（int / bool / path / duration / json）、pattern、min / max 的参数按声明校验，不合法立即报错；int / bool 可直接传数字 / 布尔
 - args 默认值：声明了 default 的参数可不传，自动用默认值
+- 可选参数：required:false 的参数可不传，模板里 {{#if args.X}}…{{else}}…{{/if}} 按传没传（bool 看真假）选一段渲染
+- list 参数：声明了 list:true 的传数组，如 args:{ files:["a.log","b.log"] }，渲染成多个单引号词，或由模板 {{#each args.X}}…{{this}}…{{/each}} 逐项展开
 - secrets：数据库密码等敏感配置仅用于服务端渲染，不会回传到模型上下文
-- runsOn 元数据：标注 shortcut 实际执行的目标机器（用于 ssh 跳板等场景），不影响执行
+- sudo：配置里标了 sudo:true 的 shortcut 以 root 执行（exec 通道，服务端代喂 sudo 密码）；调用时带 sudo:true 也行
+- runsOn：单条命令的 shortcut 里只是说明（标注实际执行的目标机器，用于 ssh 跳板等场景），不影响执行
+- 多步 shortcut（摘要里带 steps 步数）：按顺序跑 command / upload / write / waitFor 各步，每步可指定自己的目标服务器（runsOn），
+  默认某步失败即停、后面的记 skipped；结果是汇总表（step / server / status / time）+ 每步输出摘录。
+  只走 exec 通道，dryRun 返回每一步渲染后的样子；timeout 作用于没有自己 timeout 的 command 步骤
+- 结构化输出（摘要里带 output 格式）：exit 0 时 stdout 按 json / jsonl / tsv / csv / regex / lines 解析，
+  返回 { format, columns, rowCount, returned, rows }；行多或结果大时全部行存盘、只返回前面的行并给出文件路径。
+  命令失败或解析不了时照常返回原始输出（附解析失败原因）。只走 exec 通道
 - dryRun：返回渲染后的命令字符串但不执行，secrets 显示为 <secret:NAME> 占位符
 - shortcut 在当前 PTY shell 中执行，行为和普通 command 一致，支持 timeout 参数
 
@@ -238,20 +1044,21 @@ mode:"pty"（或 interactive:true）才进；PTY 在首次 pty 调用时懒加
 - 连续依赖 cd / source / venv 的多步操作
 
 ### 长任务：超过 5 分钟就别占着这次调用等（构建 / 测试 / 同步 / 大批量传输）
-timeout 上限 300 秒，而且**超时只是我们不再等** —— 远端进程还在跑（OpenSSH 的 sshd 不实现
-signal 请求，我们杀不掉它）。所以长任务不要靠调大 timeout，用 tmux 起，一次调用起完就返回：
+timeout 上限 300 秒，超时会杀掉整个进程组——跑了一半的构建就白跑了。所以长任务不要靠调大 timeout，
+用 mode:"detach" 起，一次调用起完就返回：
 
-  ssh({command:"mkdir -p ~/.mori/jobs && tmux new -d -s job-build 'cd /repo && npm run build > ~/.mori/jobs/build.log 2>&1; echo rc=$? > ~/.mori/jobs/build.status'"})
+  ssh({command:"npm run build", cwd:"/repo", mode:"detach", name:"build"})
 
-之后按需要查（每次都是一条独立的快命令，不占用等待）：
-- 完没完：cat ~/.mori/jobs/build.status —— 文件不存在就是还在跑，有 rc=0 就是成功跑完
-- 看输出：tail -50 ~/.mori/jobs/build.log
-- 还在不在：tmux ls | grep job-build
-- 停掉它：tmux kill-session -t job-build
+之后按需要查（每次都是一条独立的快命令；状态全在目标机 ~/.mori/jobs/ 里，daemon 重启也不丢）：
+- 有哪些：ssh({action:"jobs"}) —— running / done rc=0 / failed rc=N / killed / unknown
+- 看输出：ssh({action:"jobs", jobOp:"tail", name:"build", lines:50})
+- 等它完：ssh({action:"jobs", jobOp:"wait", name:"build", timeout:300}) —— 在目标机上等，完了立刻返回
+- 停掉它：ssh({action:"jobs", jobOp:"kill", name:"build"}) —— 杀整个进程组
 
-必须用 tmux，**别用 nohup / disown / 结尾 &**：daemon 被重启时会杀掉自己进程组里的所有后台
-进程，nohup + disown 都挡不住（2026-08-17 实测），ppid=1 也不管用。tmux 起的才活得下来。
-目标机没有 tmux 时（比如 windows）改用那台机器自己的办法（任务计划 / Start-Process）。
+detach 用 tmux 起（没有 tmux 退到 systemd-run --user / setsid），任务脱离 daemon 的进程组，活得过
+daemon 重启。**别自己写 nohup / disown / 结尾 &**：daemon 被重启时会杀掉自己进程组里的所有后台进程，
+nohup + disown 都挡不住（2026-08-17 实测）。windows 目标机不支持 detach，改用任务计划 / Start-Process。
+不给 name 时按命令自动起名（npm-run-1），返回里带实际用的名字。同名任务还在跑时报错、不覆盖。
 
 🚫 仅 pty 模式的铁律：mode:"pty" 时 command 绝不内联 heredoc（<<EOF）/ 绝不留未闭合的引号、反斜杠、行尾管道
 ——会把 PTY 卡死在 heredoc>/quote> 续行符、sentinel 永远等不到、整条 session 报废。
@@ -314,6 +1121,13 @@ ssh({ command: "pip install tensorflow", timeout: 120 })  # 等待最多 120 秒
 ssh({ action: "status" })
 ssh({ action: "disconnect" })
 
+### 多台并发跑同一条命令（fan-out）
+ssh({ servers: ["web-*", "db1"], command: "df -h /" })
+ssh({ servers: ["*"], command: "systemctl is-active nginx", concurrency: 10 })
+ssh({ servers: ["tag:prod+web"], command: "nginx -t" })  # 同时带 prod 和 web 标签的机器
+ssh({ servers: ["group:edge"], command: "uptime" })       # ssh-servers.json 顶层 groups 里的组
+返回汇总表（每台 exit / 用时）+ 每台输出摘录；单台输出过长会存盘只留尾部。不改变当前连接。
+
 ### 通过 stdin 喂多行内容（默认 exec 通道）
 ssh({ command: "python3 -", stdin: "import json\\nprint(json.dumps({'ok':1}))" })
 ssh({ command: "kubectl apply -f -", stdin: "<整段 yaml>" })
@@ -341,32 +1155,31 @@ ssh({ signal: "SIGINT" })               # Ctrl+C 停止
 ssh({ action: "notes" })                         # 读取当前服务器的备注
 ssh({ action: "notes", content: "1panel 管理, openresty, *.example.com SSL" })  # 写入备注
 
-### 获取 sudo 密码
-ssh({ action: "sudo" })                          # 获取当前连接服务器的 sudo 密码
-ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo 密码（无需先连接）
-
-⚠️ 使用 sudo 密码时的安全建议：
-- 优先用 sudo -S 从 stdin 读取，避免密码出现在 ps/history 中：
-  ssh({ command: "echo '密码' | sudo -S -p '' your-command" })
-- 如无必要，优先让目标机配置 NOPASSWD，避免密码流转
+### 以 root 执行（sudo:true）
+ssh({ command: "systemctl restart nginx", sudo: true })             # 服务端经 stdin 把 sudoPassword 喂给 sudo -S
+ssh({ command: "tee /etc/app.conf", stdin: "...", sudo: true })      # 与 stdin 可同时用
+ssh({ servers: ["tag:web"], command: "apt-get update", sudo: true }) # fan-out 每台用自己的密码
+- 密码不进上下文；命令里不要再写 sudo，也不要 echo 密码
+- 只走 exec 通道（不能配 mode:"pty" / "detach"）；shortcut 配了 sudo:true 的自动以 sudo 执行
+- ssh({ action: "sudo" }) 只告诉你有没有配 sudo 密码；只有配置开了 revealSudoPassword 才返回明文
 
 ## 输出过长处理
 如输出超过 8000 字符，完整内容会保存到本地文件，仅返回尾部摘要 + 文件路径，可通过 Read/Grep 工具查看。`,
       inputSchema: SSH_INPUT_SHAPE,
     },
-    async ({ action, server: serverName, content, command, timeout, read, lines, offset, clear, signal, shortcut, args, dryRun, interactive, raw, stdin, exec, mode, onlineOnly, cwd }): Promise<CallToolResult> => {
+    async ({ action, server: serverName, content, command, timeout, read, lines, offset, clear, signal, shortcut, args, dryRun, interactive, raw, stdin, exec, mode, name, jobOp, onlineOnly, tag, cwd, otp, servers, concurrency, since, until, exitStatus, confirm, sudo }, extra): Promise<CallToolResult> => {
       try {
         // 1. 发送信号
         if (signal) {
-          const status = sshManager.getStatus();
-          if (!status.connected) {
+          const connection = pickConnection(sshManager, serverName);
+          if (!connection) {
             return {
-              content: [{ type: "text", text: "未连接服务器" }],
+              content: [{ type: "text", text: noConnectionText(serverName) }],
               isError: true,
             };
           }
 
-          const shellManager = sshManager.getShellManager();
+          const shellManager = connection.getShellManager();
           if (!shellManager.isOpen()) {
             return {
               content: [{ type: "text", text: "当前无活跃 PTY shell（exec 模式命令不可中断）。需要可中断/可发信号的会话，请先用 mode:\"pty\" 跑命令。" }],
@@ -393,15 +1206,16 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
 
         // 2. 读取缓冲区
         if (read) {
-          const status = sshManager.getStatus();
-          if (!status.connected) {
+          const connection = pickConnection(sshManager, serverName);
+          if (!connection) {
             return {
-              content: [{ type: "text", text: "未连接服务器" }],
+              content: [{ type: "text", text: noConnectionText(serverName) }],
               isError: true,
             };
           }
 
-          const shellManager = sshManager.getShellManager();
+          const status = connection.getStatus();
+          const shellManager = connection.getShellManager();
           if (!shellManager.isOpen()) {
             return {
               content: [{
@@ -429,13 +1243,30 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
 
         // 3a. 执行 shortcut（命名命令模板）
         if (shortcut) {
-          const status = sshManager.getStatus();
-          if (!status.connected) {
+          if (mode === "detach") {
+            return {
+              content: [{ type: "text", text: "shortcut 不支持 mode:\"detach\"（渲染后的命令带 secret，不能落盘到目标机）。长任务请用 command" }],
+              isError: true,
+            };
+          }
+          // 与 command 一样：带了 server 就路由到池里那台（没有则先连）
+          let connection: SSHConnection | null;
+          if (serverName) {
+            const conn = await ensureConnectedTo(sshManager, configManager, serverName, otp);
+            if (!conn.ok) {
+              return { content: [{ type: "text", text: conn.error }], isError: true };
+            }
+            connection = conn.connection;
+          } else {
+            connection = sshManager.current();
+          }
+          if (!connection) {
             return {
               content: [{ type: "text", text: "未连接服务器，请先使用 ssh({ action: 'connect', server: '服务器名' }) 连接" }],
               isError: true,
             };
           }
+          const status = connection.getStatus();
 
           const currentName = status.serverName!;
           const effective = configManager.getEffectiveShortcuts(currentName);
@@ -450,6 +1281,29 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
             };
           }
 
+          // 多步 shortcut：只走 exec 通道，各步骤自己决定目标和 cwd
+          if (effective[shortcut].steps) {
+            if (resolveMode(mode, interactive) !== "exec" || cwd) {
+              return {
+                content: [{ type: "text", text: `shortcut '${shortcut}' 是多步 shortcut，只走 exec 通道，不能配 mode:"pty" / interactive / cwd（要换目录在步骤命令里 cd）` }],
+                isError: true,
+              };
+            }
+            const timeoutMs = timeout ? Math.min(Math.max(timeout, 5), 300) * 1000 : undefined;
+            return runStepShortcut(
+              sshManager,
+              configManager,
+              auditLog,
+              connection,
+              currentName,
+              shortcut,
+              sudo ? { ...effective[shortcut], sudo: true } : effective[shortcut],
+              args ?? {},
+              { dryRun, timeoutMs, confirm },
+              extra
+            );
+          }
+
           // dryRun: 渲染后直接返回，secrets 占位符化，不执行
           if (dryRun) {
             let rendered: string;
@@ -475,9 +1329,39 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
             };
           }
 
+          const effMode = resolveMode(mode, interactive);
+          const useSudo = sudo || effective[shortcut].sudo === true;
+          if (useSudo && effMode !== "exec") {
+            return {
+              content: [{ type: "text", text: `shortcut '${shortcut}' 以 sudo 执行，只支持 exec 通道，不能配 mode:"${effMode}" / interactive` }],
+              isError: true,
+            };
+          }
+          if (effective[shortcut].output !== undefined && effMode !== "exec") {
+            return {
+              content: [{ type: "text", text: `shortcut '${shortcut}' 配了 output 解析，只支持 exec 通道，不能配 mode:"${effMode}" / interactive` }],
+              isError: true,
+            };
+          }
+          if (configManager.getServer(currentName)?.readOnly) {
+            if (!effective[shortcut].readOnly) {
+              return readOnlyRefusal(currentName, `shortcut '${shortcut}' 没有标 readOnly，不能在这台上跑`);
+            }
+            if (effMode !== "exec") {
+              return readOnlyRefusal(currentName, "不能用 mode:\"pty\" / interactive");
+            }
+            if (useSudo) {
+              return readOnlyRefusal(currentName, `shortcut '${shortcut}' 以 sudo 执行，不能在这台上跑`);
+            }
+          }
+
+          // 策略按 dryRun 渲染的文本检查（args 已代入、secret 是占位符），拦得住经 args 传进来的 DROP DATABASE
           let split;
           try {
-            split = renderShortcutSplit(shortcut, effective[shortcut], args ?? {});
+            const preview = renderShortcutSplit(shortcut, effective[shortcut], args ?? {}, "dryRun");
+            const blocked = policyGate(configManager, [currentName], policyText(preview.command, preview.stdin), confirm);
+            if (blocked) return blocked;
+            split = renderShortcutSplit(shortcut, await configManager.resolveShortcutSecrets(shortcut, effective[shortcut]), args ?? {});
           } catch (e) {
             return {
               content: [{ type: "text", text: e instanceof Error ? e.message : String(e) }],
@@ -489,11 +1373,40 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
             ? Math.min(Math.max(timeout, 5), 300) * 1000
             : undefined;
 
-          const effMode = resolveMode(mode, interactive);
           // shortcut 配了 stdin（必须喂 stdin）或解析为 exec 模式：走 exec 通道（绕开 PTY）
+          // 审计只记 shortcut 名和 args，不记渲染后的命令（里面有 secret 明文）
+          const shortcutAudit = { tool: "ssh" as const, kind: "shortcut" as const, server: currentName, shortcut, args: args ?? {}, cwd, sudo: useSudo || undefined };
+          const startedAt = Date.now();
           if (split.stdin !== undefined || effMode === "exec") {
             try {
-              const execResult = await runExec(sshManager, split.command, split.stdin, timeoutMs, cwd);
+              const run = useSudo
+                ? await sudoExec(configManager, connection, currentName, split.command, split.stdin)
+                : split;
+              const execResult = await runExec(connection, run.command, run.stdin, timeoutMs, cwd, extra);
+              recordAudit(auditLog, configManager, extra, startedAt, { ...shortcutAudit, mode: "exec", ...execOutcome(execResult) });
+              // 声明了 output：成功时返回解析后的行；失败（非零退出 / 超时）或解析不了就照常返回原始输出
+              const output = effective[shortcut].output;
+              let parseError: string | undefined;
+              if (output !== undefined && execResult.exitCode === 0 && !execResult.timedOut) {
+                try {
+                  return {
+                    content: [{
+                      type: "text",
+                      text: shapeParsedOutput({ server: status.serverName, shortcut, args: args ?? {} }, output, execResult),
+                    }],
+                  };
+                } catch (e) {
+                  parseError = e instanceof Error ? e.message : String(e);
+                }
+              }
+              if (parseError) {
+                return {
+                  content: [{
+                    type: "text",
+                    text: `${shapeExecResult({ server: status.serverName, shortcut }, execResult)}\n[按 output（${normalizeOutputSpec(output!).format}）解析失败：${parseError}。上面是原始输出]`,
+                  }],
+                };
+              }
               return {
                 content: [{
                   type: "text",
@@ -509,21 +1422,30 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
                 isError: execResult.exitCode !== 0 && !execResult.timedOut,
               };
             } catch (e) {
+              const msg = e instanceof Error ? e.message : String(e);
+              recordAudit(auditLog, configManager, extra, startedAt, { ...shortcutAudit, mode: "exec", error: msg, ok: false });
               return {
-                content: [{ type: "text", text: `exec 失败: ${e instanceof Error ? e.message : String(e)}` }],
+                content: [{ type: "text", text: `exec 失败: ${msg}` }],
                 isError: true,
               };
             }
           }
 
           // pty 模式：懒开 PTY shell（保留 cwd / env / interactive 行为）
-          await sshManager.ensureShell();
-          const shellManager = sshManager.getShellManager();
+          await connection.ensureShell();
+          const shellManager = connection.getShellManager();
           const result = await shellManager.send(
             split.command,
             timeoutMs ? { maxTimeout: timeoutMs } : undefined,
             { interactive: interactive ?? false }
           );
+          recordAudit(auditLog, configManager, extra, startedAt, {
+            ...shortcutAudit,
+            cwd: undefined,
+            mode: "pty",
+            exitCode: result.exitCode,
+            ok: result.exitCode !== undefined ? result.exitCode === 0 : result.complete,
+          });
 
           // 注意：不返回 rendered（含 secret 明文），只返回 shortcut name + args
           return {
@@ -540,32 +1462,137 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
           };
         }
 
+        // 3a'. 多台并发执行（fan-out）：只走 exec 通道
+        if (servers) {
+          if (!command) {
+            return {
+              content: [{ type: "text", text: "servers 需要配合 command 使用（多台并发跑同一条命令）" }],
+              isError: true,
+            };
+          }
+          if (resolveMode(mode, interactive) !== "exec") {
+            return {
+              content: [{ type: "text", text: "servers 只支持 exec 模式（多台并发没有持久 PTY 可言，也不起 detach 任务）" }],
+              isError: true,
+            };
+          }
+          const timeoutMs = timeout
+            ? Math.min(Math.max(timeout, 5), 300) * 1000
+            : undefined;
+          const onDone = (row: FanOutRow) =>
+            recordAudit(auditLog, configManager, extra, Date.now() - row.ms, {
+              tool: "ssh",
+              kind: "command",
+              server: row.server,
+              mode: "exec",
+              fanOut: true,
+              sudo: sudo || undefined,
+              command,
+              cwd,
+              stdinBytes: stdin === undefined ? undefined : Buffer.byteLength(stdin),
+              ...(row.result ? execOutcome(row.result) : { error: row.error, ok: false }),
+            });
+          const gate = (names: string[]) =>
+            readOnlyGate(configManager, names, command, sudo) ?? policyGate(configManager, names, policyText(command, stdin), confirm);
+          return await runFanOut(sshManager, configManager, servers, command, { stdin, timeoutMs, cwd, concurrency, sudo, gate, onDone }, extra);
+        }
+
         // 3. 执行命令
         if (command) {
           // 一次性寻址：带了 server 就按需先连（已连同一台则跳过、不重连），一次调用打到目标机
+          let connection: SSHConnection | null;
           if (serverName) {
-            const conn = await ensureConnectedTo(sshManager, configManager, serverName);
+            const conn = await ensureConnectedTo(sshManager, configManager, serverName, otp);
             if (!conn.ok) {
               return { content: [{ type: "text", text: conn.error }], isError: true };
             }
+            connection = conn.connection;
+          } else {
+            connection = sshManager.current();
           }
-          const status = sshManager.getStatus();
-          if (!status.connected) {
+          if (!connection) {
             return {
               content: [{ type: "text", text: "未连接服务器，请先使用 ssh({ action: 'connect', server: '服务器名' }) 连接（或 ssh({ node, server, command }) 一步到位）" }],
               isError: true,
             };
           }
 
+          const status = connection.getStatus();
           const timeoutMs = timeout
             ? Math.min(Math.max(timeout, 5), 300) * 1000
             : undefined;
 
           const effMode = resolveMode(mode, interactive);
+          if (sudo && effMode !== "exec") {
+            return {
+              content: [{ type: "text", text: `sudo:true 只支持 exec 通道，不能配 mode:"${effMode}"` }],
+              isError: true,
+            };
+          }
+          if (effMode !== "exec" && configManager.getServer(status.serverName!)?.readOnly) {
+            return readOnlyRefusal(status.serverName!, `不能用 mode:"${effMode}"（只读服务器只走 exec 通道跑只读命令）`);
+          }
+          const blocked = readOnlyGate(configManager, [status.serverName!], command, sudo)
+            ?? policyGate(configManager, [status.serverName!], policyText(command, stdin), confirm);
+          if (blocked) return blocked;
+
+          const commandAudit = {
+            tool: "ssh" as const,
+            kind: "command" as const,
+            server: status.serverName!,
+            mode: effMode,
+            sudo: sudo || undefined,
+            command,
+            cwd: effMode === "pty" ? undefined : cwd,
+            stdinBytes: stdin === undefined ? undefined : Buffer.byteLength(stdin),
+          };
+          const startedAt = Date.now();
+          // detach：在目标机后台起 job，立即返回
+          if (effMode === "detach") {
+            if (connection.isLocal() && process.platform === "win32") {
+              return {
+                content: [{ type: "text", text: "windows 上不支持 mode:\"detach\"（没有 tmux / setsid），长任务改用任务计划或 Start-Process" }],
+                isError: true,
+              };
+            }
+            if (stdin !== undefined) {
+              return {
+                content: [{ type: "text", text: "mode:\"detach\" 不支持 stdin（任务在后台跑，没有人喂它）。把内容先 sftp write 成文件再在命令里读" }],
+                isError: true,
+              };
+            }
+            try {
+              const job = await jobRunnerFor(connection).start(command, { name, cwd });
+              recordAudit(auditLog, configManager, extra, startedAt, { ...commandAudit, kind: "detach", ok: true });
+              return {
+                content: [{
+                  type: "text",
+                  text: [
+                    `已在 ${status.serverName} 起 job「${job.name}」（${job.runner}）`,
+                    job.runner === "tmux" ? `  tmux session : mcp-${job.name}` : undefined,
+                    `  日志         : ~/.mori/jobs/${job.name}.log`,
+                    `  看进度       : ssh({action:"jobs", jobOp:"tail", name:"${job.name}"})`,
+                    `  等它结束     : ssh({action:"jobs", jobOp:"wait", name:"${job.name}", timeout:300})`,
+                  ].filter(Boolean).join("\n"),
+                }],
+              };
+            } catch (e) {
+              const msg = e instanceof Error ? e.message : String(e);
+              recordAudit(auditLog, configManager, extra, startedAt, { ...commandAudit, kind: "detach", error: msg, ok: false });
+              return {
+                content: [{ type: "text", text: msg }],
+                isError: true,
+              };
+            }
+          }
           // exec 模式（默认）：独立通道、一发一收、直接拿 exitCode，不碰 PTY shell
           if (effMode === "exec") {
             try {
-              const execResult = await runExec(sshManager, command, stdin, timeoutMs, cwd);
+              const run = sudo
+                ? await sudoExec(configManager, connection, status.serverName!, command, stdin)
+                : { command, stdin };
+              const execResult = await runExec(connection, run.command, run.stdin, timeoutMs, cwd, extra);
+              recordAudit(auditLog, configManager, extra, startedAt, { ...commandAudit, ...execOutcome(execResult) });
               return {
                 content: [{
                   type: "text",
@@ -577,21 +1604,28 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
                 isError: execResult.exitCode !== 0 && !execResult.timedOut,
               };
             } catch (e) {
+              const msg = e instanceof Error ? e.message : String(e);
+              recordAudit(auditLog, configManager, extra, startedAt, { ...commandAudit, error: msg, ok: false });
               return {
-                content: [{ type: "text", text: `exec 失败: ${e instanceof Error ? e.message : String(e)}` }],
+                content: [{ type: "text", text: `exec 失败: ${msg}` }],
                 isError: true,
               };
             }
           }
 
           // pty 模式：懒开持久 PTY shell
-          await sshManager.ensureShell();
-          const shellManager = sshManager.getShellManager();
+          await connection.ensureShell();
+          const shellManager = connection.getShellManager();
           const result = await shellManager.send(
             command,
             timeoutMs ? { maxTimeout: timeoutMs } : undefined,
             { interactive: interactive ?? false }
           );
+          recordAudit(auditLog, configManager, extra, startedAt, {
+            ...commandAudit,
+            exitCode: result.exitCode,
+            ok: result.exitCode !== undefined ? result.exitCode === 0 : result.complete,
+          });
 
           return {
             content: [{
@@ -611,25 +1645,38 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
 
         switch (effectiveAction) {
           case "list": {
-            const servers = configManager.listServers();
+            const tagFilter = tag?.split("+").map((t) => t.trim()).filter(Boolean) ?? [];
+            const servers = tagFilter.length > 0
+              ? serversWithTags(configManager.listServers(), tagFilter)
+              : configManager.listServers();
             const status = sshManager.getStatus();
+            const isPooled = (name: string) => sshManager.get(name) !== null;
 
             // 端口探活：判断每台机器当前是否可达（≈ 反向隧道是否在线）。
             // - 直连 / 隧道暴露（127.0.0.1:220x）：直接探 host:port
-            // - proxyJump：探跳板机端口（跳板通了链路才可能通）
+            // - proxyJump：探第一跳跳板的端口（跳板通了链路才可能通；多层跳板只有第一跳本机能直接探）
             // - proxy(SOCKS)：无法直接探，online 留 undefined（未知，不误判离线）
             const probeServer = (s: ServerConfig): Promise<boolean | undefined> => {
               if (s.proxy) return Promise.resolve(undefined);
-              if (s.proxyJump) return probeTcp(s.proxyJump.host, s.proxyJump.port ?? 22);
+              if (s.proxyJump) {
+                let first: ProxyJumpConfig;
+                try {
+                  first = configManager.resolveJumpChain(s)[0];
+                } catch {
+                  return Promise.resolve(undefined); // 引用写错了，connect 时会报具体原因
+                }
+                return probeTcp(first.host, first.port ?? 22);
+              }
               return probeTcp(s.host, s.port ?? 22);
             };
             const onlineFlags = await Promise.all(servers.map(probeServer));
 
-            const list = [
+            const list: Array<Record<string, unknown>> = tagFilter.length > 0 ? [] : [
               {
                 name: LOCAL_SERVER.name,
                 online: true, // local 就是 MCP 自身所在机器，永远在线
-                connected: status.serverName === LOCAL_SERVER.name,
+                connected: isPooled(LOCAL_SERVER.name),
+                current: status.serverName === LOCAL_SERVER.name || undefined,
                 type: "built-in",
                 notes: notesManager.readSummary(LOCAL_SERVER.name),
                 shortcuts: summarizeShortcuts(configManager.getEffectiveShortcuts("local"), "names"),
@@ -637,8 +1684,11 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
               ...servers.map((s, i) => ({
                 name: s.name,
                 online: onlineFlags[i],
-                connected: status.serverName === s.name,
+                connected: isPooled(s.name),
+                current: status.serverName === s.name || undefined,
                 type: "configured",
+                tags: s.tags,
+                readOnly: s.readOnly || undefined,
                 notes: notesManager.readSummary(s.name),
                 shortcuts: summarizeShortcuts(configManager.getEffectiveShortcuts(s.name), "names"),
               })),
@@ -649,6 +1699,8 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
 
             const hints = configManager.getGlobalHints();
             const payload: Record<string, unknown> = { servers: visible };
+            const groups = configManager.getGroups();
+            if (Object.keys(groups).length > 0) payload.groups = groups;
             if (hints) payload.hints = hints;
 
             return {
@@ -665,6 +1717,7 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
             }
 
             if (serverName === "local") {
+              const reused = sshManager.get("local") !== null;
               await sshManager.connect(LOCAL_SERVER);
               const notes = notesManager.read("local");
               const hintCount = (configManager.getGlobalHints()?.length ?? 0) + (configManager.getServerHints("local")?.length ?? 0);
@@ -676,7 +1729,7 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
                 content: [{
                   type: "text",
                   text: JSON.stringify({
-                    message: `已连接 local（默认 exec；交互式/持久 shell 用 mode:"pty"）${tail}`,
+                    message: `${reused ? "已切换到 local，复用已有连接" : "已连接 local"}（默认 exec；交互式/持久 shell 用 mode:"pty"）${tail}`,
                     shortcuts: summarizeShortcuts(configManager.getEffectiveShortcuts("local"), "brief"),
                   }, null, 2),
                 }],
@@ -695,8 +1748,9 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
               };
             }
 
+            const reused = sshManager.get(serverName) !== null;
             try {
-              await sshManager.connect(serverConfig);
+              await sshManager.connect(await configManager.resolveForConnect(serverConfig), { otp });
             } catch (e) {
               const msg = e instanceof Error ? e.message : String(e);
               const offlineish = /ECONNREFUSED|ETIMEDOUT|EHOSTUNREACH|ENETUNREACH|ECONNRESET/i.test(msg);
@@ -721,7 +1775,12 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
               content: [{
                 type: "text",
                 text: JSON.stringify({
-                  message: `已连接 '${serverName}'（默认 exec；交互式/持久 shell 用 mode:"pty"）${tail}`,
+                  message: serverConfig.readOnly
+                    ? `${reused ? `已切换到 '${serverName}'，复用已有连接` : `已连接 '${serverName}'`}（只读服务器）${tail}`
+                    : `${reused ? `已切换到 '${serverName}'，复用已有连接` : `已连接 '${serverName}'`}（默认 exec；交互式/持久 shell 用 mode:"pty"）${tail}`,
+                  readOnly: serverConfig.readOnly
+                    ? "只能跑只读命令（ls / cat / grep / ps / df / systemctl status / docker logs / kubectl get 之类，不能重定向写文件）和标了 readOnly 的 shortcut；不能用 mode:\"pty\" / \"detach\" 和 sudo:true，sftp 只能 read / download / list / stat"
+                    : undefined,
                   shortcuts: summarizeShortcuts(configManager.getEffectiveShortcuts(serverName), "brief"),
                 }, null, 2),
               }],
@@ -729,15 +1788,16 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
           }
 
           case "reset_shell": {
-            const status = sshManager.getStatus();
-            if (!status.connected) {
+            const connection = pickConnection(sshManager, serverName);
+            if (!connection) {
               return {
-                content: [{ type: "text", text: "未连接，无法重置 shell" }],
+                content: [{ type: "text", text: serverName ? noConnectionText(serverName) : "未连接，无法重置 shell" }],
                 isError: true,
               };
             }
+            const status = connection.getStatus();
             try {
-              await sshManager.resetShell();
+              await connection.resetShell();
               return {
                 content: [{
                   type: "text",
@@ -755,41 +1815,183 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
             }
           }
 
-          case "disconnect": {
-            const status = sshManager.getStatus();
-            if (!status.connected) {
+          case "kill": {
+            const connection = pickConnection(sshManager, serverName);
+            if (!connection) {
+              return { content: [{ type: "text", text: noConnectionText(serverName) }], isError: true };
+            }
+            const running = connection.listRunningExecs();
+            const where = connection.getStatus().serverName;
+            if (running.length === 0) {
+              return { content: [{ type: "text", text: `${where} 上没有正在跑的 exec 命令（detach 任务用 ssh({action:"jobs", jobOp:"kill", name})）` }] };
+            }
+            const results = await Promise.all(running.map(async (r) => ({ r, ok: await r.kill() })));
+            const lines = results.map(({ r, ok }) => {
+              const secs = Math.round((Date.now() - r.startedAt) / 1000);
+              const cmd = r.command.length > 80 ? `${r.command.slice(0, 80)}…` : r.command;
+              const state = ok
+                ? `已杀掉（pgid ${r.pgid}）`
+                : r.pgid === undefined ? "没拿到进程组 id，杀不掉" : `没能确认杀掉（pgid ${r.pgid}）`;
+              return `${state}  ${secs}s  ${cmd}`;
+            });
+            return {
+              content: [{ type: "text", text: `${where} 上 ${results.length} 条 exec 命令：\n${lines.join("\n")}` }],
+              isError: results.some(({ ok }) => !ok),
+            };
+          }
+
+          case "jobs": {
+            // 带 server 就看那台（没连则先连），否则看当前连接
+            let connection: SSHConnection | null;
+            if (serverName) {
+              const conn = await ensureConnectedTo(sshManager, configManager, serverName, otp);
+              if (!conn.ok) {
+                return { content: [{ type: "text", text: conn.error }], isError: true };
+              }
+              connection = conn.connection;
+            } else {
+              connection = sshManager.current();
+            }
+            if (!connection) {
+              return { content: [{ type: "text", text: noConnectionText() }], isError: true };
+            }
+            const status = connection.getStatus();
+            const runner = jobRunnerFor(connection);
+            const op = jobOp ?? (name ? "tail" : "list");
+
+            try {
+              if (op === "list") {
+                const { jobs, total, diskKb } = await runner.list();
+                if (jobs.length === 0) {
+                  return { content: [{ type: "text", text: `${status.serverName} 上没有 detach 任务（~/.mori/jobs 为空）` }] };
+                }
+                const out = [`${status.serverName} 上的 job（最近 ${jobs.length} / 共 ${total} 个，~/.mori/jobs 占用 ${diskKb}K）：`];
+                out.push(...jobs.map((j) => describeJob(j)));
+                if (total > JOB_LIST_LIMIT) {
+                  out.push(`[只列了最近 ${JOB_LIST_LIMIT} 个。已结束的 job 文件不会自动删（可能还要看日志），不要了就删 ~/.mori/jobs/<name>.*]`);
+                }
+                return { content: [{ type: "text", text: out.join("\n") }] };
+              }
+
+              if (!name) {
+                return {
+                  content: [{ type: "text", text: `jobOp:"${op}" 需要 name 参数（ssh({action:"jobs"}) 看有哪些 job）` }],
+                  isError: true,
+                };
+              }
+
+              if (op === "kill") {
+                if (configManager.getServer(status.serverName!)?.readOnly) {
+                  return readOnlyRefusal(status.serverName!, "不能停 job");
+                }
+                const r = await runner.kill(name);
+                const text = !r.wasRunning
+                  ? `job「${name}」没在跑，无需停止：\n${describeJob(r.job)}`
+                  : r.killed
+                    ? `已停止 job「${name}」（整个进程组）：\n${describeJob(r.job)}`
+                    : `已向 job「${name}」发送 TERM/KILL，但进程仍在：\n${describeJob(r.job)}`;
+                return { content: [{ type: "text", text }], isError: r.wasRunning && !r.killed };
+              }
+
+              const r = op === "wait"
+                ? await runner.wait(name, timeout ?? 60, lines ?? 50)
+                : await runner.tail(name, lines ?? 50);
+              const parts = [describeJob(r.job)];
+              if (op === "wait" && r.job.state === "running") {
+                parts.push(`[等了 ${Math.min(timeout ?? 60, 300)} 秒还在跑，可以再 wait 一次]`);
+              }
+              if (r.job.state === "unknown") {
+                parts.push("[没有 .status、进程也不在了：多半是机器重启或进程被外部杀掉，看日志末尾判断]");
+              }
+              let log = r.log;
+              const save = saveIfLarge(log);
+              if (save.saved) {
+                log = save.tail ?? "";
+                parts.push(`[日志过长：完整 ${save.totalChars} 字符已存至 ${save.filePath}，下面只是末尾 ${log.length} 字符]`);
+              }
+              parts.push(log ? `--- log ---\n${log}` : "(日志为空)");
               return {
-                content: [{ type: "text", text: "当前没有活跃的连接" }],
+                content: [{ type: "text", text: parts.join("\n") }],
+                isError: r.job.state === "failed",
+              };
+            } catch (e) {
+              return {
+                content: [{ type: "text", text: e instanceof Error ? e.message : String(e) }],
+                isError: true,
+              };
+            }
+          }
+
+          case "history": {
+            let query;
+            try {
+              query = {
+                server: serverName,
+                since: since ? parseAuditTime(since) : undefined,
+                until: until ? parseAuditTime(until) : undefined,
+                exitStatus,
+                limit: lines && lines > 0 ? lines : AUDIT_QUERY_LIMIT,
               };
+            } catch (e) {
+              return { content: [{ type: "text", text: e instanceof Error ? e.message : String(e) }], isError: true };
             }
+            const entries = auditLog.query(query);
+            if (entries.length === 0) {
+              return { content: [{ type: "text", text: `审计日志里没有符合条件的记录（${auditLog.getDir()}）` }] };
+            }
+            return {
+              content: [{
+                type: "text",
+                text: [`审计日志 ${entries.length} 条（最新在前）：`, ...entries.map(formatAuditEntry)].join("\n"),
+              }],
+            };
+          }
 
-            const name = status.serverName;
-            await sshManager.disconnect();
+          case "disconnect": {
+            // 带 server 断开池里那台，否则断开当前连接；其他连接不受影响
+            const name = await sshManager.disconnect(serverName);
+            if (!name) {
+              return {
+                content: [{ type: "text", text: serverName ? `当前没有到 '${serverName}' 的连接` : "当前没有活跃的连接" }],
+              };
+            }
 
+            const remaining = sshManager.listConnections().map((c) => c.server);
             return {
-              content: [{ type: "text", text: `已断开与 '${name}' 的连接` }],
+              content: [{
+                type: "text",
+                text: `已断开与 '${name}' 的连接${remaining.length ? `（仍连着: ${remaining.join(", ")}）` : ""}`,
+              }],
             };
           }
 
           case "status": {
-            const status = sshManager.getStatus();
-            const shellManager = sshManager.getShellManager();
+            const connection = sshManager.current();
+            const connections = sshManager.listConnections();
 
-            if (status.connected) {
+            if (connection) {
+              const shellManager = connection.getShellManager();
               return {
                 content: [{
                   type: "text",
                   text: JSON.stringify({
                     connected: true,
-                    server: status.serverName,
+                    server: connection.getStatus().serverName,
                     shellOpen: shellManager.isOpen(),
                     bufferLines: shellManager.getBufferLineCount(),
+                    connections,
                   }, null, 2),
                 }],
               };
             } else {
               return {
-                content: [{ type: "text", text: JSON.stringify({ connected: false }, null, 2) }],
+                content: [{
+                  type: "text",
+                  text: JSON.stringify({
+                    connected: false,
+                    connections: connections.length ? connections : undefined,
+                  }, null, 2),
+                }],
               };
             }
           }
@@ -858,8 +2060,16 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
               };
             }
 
-            const sudoPassword = serverConfig.sudoPassword ?? serverConfig.password;
-            if (!sudoPassword) {
+            let resolved: { password?: string; source?: "sudoPassword" | "password" };
+            try {
+              resolved = await configManager.resolveSudoPassword(targetServer);
+            } catch (e) {
+              return {
+                content: [{ type: "text", text: e instanceof Error ? e.message : String(e) }],
+                isError: true,
+              };
+            }
+            if (!resolved.password) {
               return {
                 content: [{
                   type: "text",
@@ -872,15 +2082,28 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
               };
             }
 
-            const source = serverConfig.sudoPassword ? "sudoPassword" : "password (回退)";
+            const source = resolved.source === "sudoPassword" ? "sudoPassword" : "password (回退)";
+            if (!configManager.canRevealSudoPassword(targetServer)) {
+              return {
+                content: [{
+                  type: "text",
+                  text: JSON.stringify({
+                    server: targetServer,
+                    hasPassword: true,
+                    source,
+                    message: "sudo 密码不回传。需要 root 权限时给命令加 sudo:true，服务端会自己把密码喂给 sudo -S，例如 ssh({ command: \"systemctl restart nginx\", sudo: true })。确实要明文时由用户在配置里开 revealSudoPassword。",
+                  }, null, 2),
+                }],
+              };
+            }
             return {
               content: [{
                 type: "text",
                 text: JSON.stringify({
                   server: targetServer,
                   source,
-                  sudoPassword,
-                  warning: "密码已进入上下文。使用时优先 `echo '密码' | sudo -S -p '' <命令>`，避免 ps/history 泄漏。",
+                  sudoPassword: resolved.password,
+                  warning: "密码已进入上下文。能用 sudo:true 的地方优先用它（服务端代喂密码，不经过上下文）。",
                 }, null, 2),
               }],
             };
@@ -957,13 +2180,28 @@ ssh({ action: "sudo", server: "my-server" })    # 获取指定服务器的 sudo
 ## 操作
 - upload:   localPath(本机) → remotePath(当前连着的远端)。二进制安全、无大小上限。仅远程连接。
 - download: remotePath(当前连着的远端) → localPath(本机)。同上。仅远程连接。
-- write:    把内联文本直接写到目标文件（local / 远程都支持；仅文本 utf8）
-- read:     直接读出目标文件文本内容（local / 远程都支持；仅文本 utf8，默认 1MB 上限）
+  单文件先写到目标旁的 .<文件名>.part，两端 sha256 对上才改名成目标；上次断了再调一次同样的参数就从断点续传。
+  返回大小、实际传输字节、是否续传、sha256、用时和速率（MB/s）
+  整个目录带 recursive:true（逐个文件传，符号链接跳过）
+- sync:     目录增量同步（最小 rsync）：direction up = localPath → remotePath，down 反过来。只传大小 / 修改时间变了的文件
+  （checksum:true 再比 sha256），include / exclude 过滤，delete:true 删目标里多余的，dryRun:true 只列清单。仅远程连接
+- transfer: fromServer:fromPath → toServer:toPath，两台服务器之间直接传单个文件（经 daemon 内存中转，不落本机盘）。
+  不用先 connect、不改当前连接；local 可作任一端。续传 / sha256 校验 / .part 改名同 upload
+- write:    把内联内容直接写到目标文件（local / 远程都支持；默认 utf8 文本，encoding:"base64" 写二进制）
+- read:     直接读出目标文件内容（local / 远程都支持；默认 utf8、1MB 上限）。offset / length 读中间一段，
+  tail:N 只读最后 N 行（从末尾往回读，几 GB 的日志也快），encoding:"base64" 原样拿二进制
+- list:     列目录（类型 / 权限 / 大小 / 修改时间），depth 递归几层，glob 按文件名过滤
+- stat:     单个路径的类型 / 权限 / 大小 / 修改时间（符号链接带指向）
+- mkdir:    建目录，mkdirs:true 即 mkdir -p，mode 可选
+- remove:   删文件或空目录；非空目录要带 recursive:true
+- rename:   path → newPath，同一端内改名 / 移动
+- chmod:    改权限位（mode 必填）
 
 ## upload/download 要先"连对端"
 它们传的是「本机 ↔ 当前 SSH 连着的 server」之间。要传给谁，就先 ssh connect 到谁，再 upload/download。
 连着 local（本机自己）时 upload/download 会被拒——同机文件用 write/read 或 ssh 的 cp/mv。
-二进制 / 大文件一律走 upload/download，别用 read→write 搬（utf8 往返会损坏、会被 1MB 截断）。
+大文件一律走 upload/download（或服务器之间 transfer）；小的二进制要过上下文时 read / write 都带 encoding:"base64"，
+别用默认的 utf8 搬（往返会损坏）。
 
 ## 何时用 write 而不是 ssh.command
 **强烈推荐**任何"多行内容落盘"场景都用 sftp.write，不要用 ssh.command 拼 cat heredoc / echo / base64 decode：
@@ -982,60 +2220,183 @@ sftp({ action: "write", path: "/etc/myapp/conf.d/x.toml", content: "...", mkdirs
 ### 读 local 文件
 sftp({ action: "read", path: "/var/log/app.log" })
 
+### 大日志只看末尾 / 中间一段
+sftp({ action: "read", path: "/var/log/syslog", tail: 200 })
+sftp({ action: "read", path: "/var/log/syslog", offset: -65536 })              // 最后 64KB
+sftp({ action: "read", path: "/data/dump.sql", offset: 104857600, length: 20000 })
+
+### 二进制
+sftp({ action: "read", path: "/etc/ssl/certs/ca.der", encoding: "base64" })
+sftp({ action: "write", path: "/srv/app/logo.png", content: "iVBORw0KGgo…", encoding: "base64" })
+
+### 目录管理
+sftp({ action: "list", path: "/var/log", glob: "*.log" })
+sftp({ action: "list", path: "/srv/app", depth: 3 })
+sftp({ action: "mkdir", path: "/srv/app/releases/42", mkdirs: true })
+sftp({ action: "rename", path: "/srv/app/current.new", newPath: "/srv/app/current" })
+sftp({ action: "chmod", path: "/srv/app/run.sh", mode: 493 })
+sftp({ action: "remove", path: "/srv/app/releases/40", recursive: true })
+
 ### 文件 → 文件 传输（旧 upload/download 接口仍保留）
 sftp({ action: "upload", localPath: "/tmp/big.tar.gz", remotePath: "/srv/big.tar.gz" })
 sftp({ action: "download", remotePath: "/var/log/app.log", localPath: "/tmp/app.log" })
 
+### 服务器 → 服务器
+sftp({ action: "transfer", fromServer: "db1", fromPath: "/backup/db.sql.gz", toServer: "db2", toPath: "/restore/db.sql.gz" })
+
+### 目录传输 / 同步
+sftp({ action: "upload", localPath: "./dist", remotePath: "/srv/app/dist", recursive: true })
+sftp({ action: "sync", direction: "up", localPath: "./dist", remotePath: "/srv/app/dist", exclude: ["*.map"], delete: true, dryRun: true })
+sftp({ action: "sync", direction: "down", remotePath: "/var/log/app", localPath: "/tmp/app-logs", include: ["*.log"] })
+
 ## 参数说明
-- path:     write/read 时使用，根据当前连接是 local 还是远程自动判断目标
+- path:     write/read 及目录管理各操作使用，根据当前连接是 local 还是远程自动判断目标
 - content:  write 时必填，纯文本（utf-8）
-- mode:     write 时可选，权限位（十进制数，如 0o755 写成 493；默认 0o644 = 420）
-- mkdirs:   write 时可选，父目录不存在自动 mkdir -p
+- mode:     write / mkdir 时可选、chmod 必填，权限位（十进制数，如 0o755 写成 493；write 默认 0o644 = 420）
+- mkdirs:   write 时可选，父目录不存在自动 mkdir -p；mkdir 时即 -p
 - maxBytes: read 时可选，最大读取字节，超过会截断并标记 truncated（默认 1MB）
+- offset / length / tail: read 时可选，offset 负数从末尾往回数；tail 不能和 offset / length 同时用
+- encoding: read / write 时可选，utf8（默认）或 base64。base64 的 read 返回 JSON（content 是 base64，带 start / end）
+- depth / glob: list 时可选，默认只列一层（最多 10 层、500 项）
+- recursive: remove 非空目录时必须带
+- newPath:  rename 的新路径
+- direction / include / exclude / delete / dryRun / checksum: sync 用（include / exclude 的 * ? 不跨目录、** 跨目录，不带 / 的按文件名匹配）
+- fromServer / fromPath / toServer / toPath: transfer 用（服务器名同 ssh 的 server，local = daemon 本机）
 
 ## 注意
-- 目录列表、文件删除、改权限等操作仍走 ssh 工具的 shell 命令
+- 目录和文件管理用 list / stat / mkdir / remove / rename / chmod，不用拼 ls / rm / chmod 命令（windows 目标机、奇怪的登录 shell 上也能用）
+- 只读服务器（list 里 readOnly:true）上 write / upload / mkdir / remove / rename / chmod、direction:"up" 的 sync 会被拒，也不能当 transfer 的 toServer
 - 上传时仍禁止 id_rsa / .pem / authorized_keys 等敏感文件名（防止误传密钥）`,
       inputSchema: SFTP_INPUT_SHAPE,
     },
-    async ({ action, localPath, remotePath, path, content, mode, mkdirs, maxBytes }): Promise<CallToolResult> => {
+    async ({ action, localPath, remotePath, path, content, mode, mkdirs, maxBytes, depth, glob, recursive, newPath, direction, include, exclude, delete: deleteExtra, dryRun, checksum, fromServer, fromPath, toServer, toPath, offset, length, encoding, tail }, extra): Promise<CallToolResult> => {
       try {
-        const status = sshManager.getStatus();
-        if (!status.connected) {
+        // transfer 按服务器名寻址两端，不依赖当前连接
+        if (action === "transfer") {
+          return await runTransfer(sshManager, configManager, auditLog, { fromServer, fromPath, toServer, toPath }, extra);
+        }
+
+        const connection = sshManager.current();
+        if (!connection) {
           return {
             content: [{ type: "text", text: "未连接服务器，请先使用 ssh({ action: 'connect', server: '服务器名' }) 连接" }],
             isError: true,
           };
         }
 
-        const sftpManager = sshManager.getSftpManager();
-        const isLocal = sshManager.isLocal();
+        const status = connection.getStatus();
+        const sftpManager = connection.getSftpManager();
+        const isLocal = connection.isLocal();
 
-        // upload / download：走传统 SFTP，仍只支持远端连接
-        if (action === "upload" || action === "download") {
+        const modifies = ["write", "upload", "mkdir", "remove", "rename", "chmod"].includes(action)
+          || (action === "sync" && direction === "up" && !dryRun);
+        if (modifies && configManager.getServer(status.serverName!)?.readOnly) {
+          return readOnlyRefusal(status.serverName!, `不能 ${action}（只能 read / download / list / stat）`);
+        }
+
+        // upload / download / sync：走传统 SFTP，仍只支持远端连接
+        if (action === "upload" || action === "download" || action === "sync") {
           if (isLocal) {
             return {
-              content: [{ type: "text", text: "local 连接不支持 upload/download；同机文件操作请用 sftp({action:'write'/'read'}) 或 ssh.command(cp/mv)" }],
+              content: [{ type: "text", text: "local 连接不支持 upload/download/sync；同机文件操作请用 sftp({action:'write'/'read'}) 或 ssh.command(cp/mv/rsync)" }],
               isError: true,
             };
           }
           if (!localPath || !remotePath) {
             return {
-              content: [{ type: "text", text: "upload/download 需要同时提供 localPath 和 remotePath" }],
+              content: [{ type: "text", text: `${action} 需要同时提供 localPath 和 remotePath` }],
+              isError: true,
+            };
+          }
+          if (action === "sync" && !direction) {
+            return {
+              content: [{ type: "text", text: "sync 需要 direction：up（localPath → remotePath）或 down（remotePath → localPath）" }],
               isError: true,
             };
           }
-          const client = sshManager.getClient();
+          const client = connection.getClient();
           if (!client) {
             return {
               content: [{ type: "text", text: "SSH Client 不可用" }],
               isError: true,
             };
           }
-          const result = action === "upload"
-            ? await sftpManager.upload(client, localPath, remotePath)
-            : await sftpManager.download(client, remotePath, localPath);
-          return { content: [{ type: "text", text: result }] };
+
+          // sync 和目录递归传输：逐个文件走 fastPut / fastGet，目录传输就是「全部重传、不删」的 sync
+          if (action === "sync" || recursive) {
+            const syncAudit = {
+              tool: "sftp" as const,
+              kind: action,
+              server: status.serverName!,
+              localPath,
+              remotePath,
+              direction: action === "sync" ? direction : undefined,
+              recursive: action === "sync" ? undefined : true,
+            };
+            const startedAt = Date.now();
+            let synced: SyncResult;
+            try {
+              synced = await connection.pin(() => sftpManager.sync(client, {
+                direction: action === "sync" ? direction! : action === "upload" ? "up" : "down",
+                localPath,
+                remotePath,
+                include,
+                exclude,
+                delete: action === "sync" && deleteExtra,
+                dryRun: action === "sync" && dryRun,
+                compare: action !== "sync" ? "always" : checksum ? "checksum" : "sizeMtime",
+                onFile: (done, total, file) => countProgress(extra, done, total, `${done}/${total} ${file}`),
+              }));
+            } catch (e) {
+              recordAudit(auditLog, configManager, extra, startedAt, {
+                ...syncAudit,
+                error: e instanceof Error ? e.message : String(e),
+                ok: false,
+              });
+              throw e;
+            }
+            if (!synced.dryRun) {
+              recordAudit(auditLog, configManager, extra, startedAt, {
+                ...syncAudit,
+                files: synced.transferred.length,
+                bytes: synced.bytes,
+                ok: true,
+              });
+            }
+            return { content: [{ type: "text", text: describeSync(action, synced) }] };
+          }
+
+          const isDir = action === "upload"
+            ? (await sftpManager.stat(null, localPath).catch(() => null))?.type === "dir"
+            : (await sftpManager.stat(client, remotePath).catch(() => null))?.type === "dir";
+          if (isDir) {
+            return {
+              content: [{ type: "text", text: `${action === "upload" ? localPath : remotePath} 是目录：整个目录传带 recursive:true，只传变了的用 action:"sync"` }],
+              isError: true,
+            };
+          }
+          const transferAudit = { tool: "sftp" as const, kind: action, server: status.serverName!, localPath, remotePath };
+          const startedAt = Date.now();
+          const transferOptions = {
+            remoteSha256: remoteSha256(connection),
+            onProgress: (done: number, total: number) =>
+              countProgress(extra, done, total, `${(done / 1024 / 1024).toFixed(1)}M / ${(total / 1024 / 1024).toFixed(1)}M`),
+          };
+          let result: TransferResult;
+          try {
+            result = await connection.pin(() => action === "upload"
+              ? sftpManager.upload(client, localPath, remotePath, transferOptions)
+              : sftpManager.download(client, remotePath, localPath, transferOptions));
+          } catch (e) {
+            recordAudit(auditLog, configManager, extra, startedAt, {
+              ...transferAudit,
+              error: e instanceof Error ? e.message : String(e),
+              ok: false,
+            });
+            throw e;
+          }
+          recordAudit(auditLog, configManager, extra, startedAt, { ...transferAudit, bytes: result.transferred, ok: true });
+          return { content: [{ type: "text", text: describeTransfer(action, result) }] };
         }
 
         // write / read：local 走 fs，远端走 SFTP
@@ -1046,6 +2407,78 @@ sftp({ action: "download", remotePath: "/var/log/app.log", localPath: "/tmp/app.
           };
         }
 
+        const client = isLocal ? null : connection.getClient()!;
+        const target = isLocal ? "local" : status.serverName;
+
+        if (action === "list") {
+          const listed = await sftpManager.list(client, path, { depth, glob });
+          const when = (iso: string) => iso.replace("T", " ").replace(/\.\d+Z$/, "Z");
+          const sizeWidth = Math.max(4, ...listed.entries.map((e) => String(e.size).length));
+          const rows = listed.entries.map((e) =>
+            `${e.type.padEnd(7)}  ${e.mode}  ${String(e.size).padStart(sizeWidth)}  ${when(e.mtime)}  ${e.path}${e.type === "dir" ? "/" : ""}`
+          );
+          const parts = [
+            `${listed.path}（${target}）：${listed.entries.length} 项${listed.truncated ? "（到上限停了，后面还有；缩小 depth 或加 glob）" : ""}`,
+          ];
+          if (rows.length) parts.push(`${"type".padEnd(7)}  mode  ${"size".padStart(sizeWidth)}  ${"mtime".padEnd(20)}  path`, ...rows);
+          if (listed.errors) parts.push("", "读不了的目录：", ...listed.errors);
+          let listText = parts.join("\n");
+          const save = saveIfLarge(listText);
+          if (save.saved) {
+            listText = `[列表过长：完整 ${save.totalChars} 字符已存至 ${save.filePath}，下面只是末尾部分]\n${save.tail}`;
+          }
+          return { content: [{ type: "text", text: listText }] };
+        }
+
+        if (action === "stat") {
+          const info = await sftpManager.stat(client, path);
+          return { content: [{ type: "text", text: JSON.stringify({ action: "stat", target, ...info }, null, 2) }] };
+        }
+
+        if (action === "mkdir" || action === "remove" || action === "rename" || action === "chmod") {
+          if (action === "rename" && !newPath) {
+            return { content: [{ type: "text", text: "rename 需要提供 newPath 参数" }], isError: true };
+          }
+          if (action === "chmod" && mode === undefined) {
+            return { content: [{ type: "text", text: "chmod 需要提供 mode 参数（十进制数，如 0o755 写成 493）" }], isError: true };
+          }
+          const opAudit = {
+            tool: "sftp" as const,
+            kind: action,
+            server: status.serverName!,
+            path,
+            newPath: action === "rename" ? newPath : undefined,
+            fileMode: action === "chmod" || action === "mkdir" ? mode : undefined,
+            recursive: action === "remove" ? recursive : undefined,
+          };
+          const startedAt = Date.now();
+          let detail: Record<string, unknown> = {};
+          try {
+            if (action === "mkdir") {
+              await sftpManager.mkdir(client, path, { parents: mkdirs, mode });
+            } else if (action === "remove") {
+              detail = { removed: await sftpManager.remove(client, path, { recursive }) };
+            } else if (action === "rename") {
+              await sftpManager.rename(client, path, newPath!);
+              detail = { newPath };
+            } else {
+              await sftpManager.chmod(client, path, mode!);
+              detail = { mode: mode!.toString(8).padStart(4, "0") };
+            }
+          } catch (e) {
+            recordAudit(auditLog, configManager, extra, startedAt, {
+              ...opAudit,
+              error: e instanceof Error ? e.message : String(e),
+              ok: false,
+            });
+            throw e;
+          }
+          recordAudit(auditLog, configManager, extra, startedAt, { ...opAudit, ok: true });
+          return {
+            content: [{ type: "text", text: JSON.stringify({ action, target, path, ...detail }, null, 2) }],
+          };
+        }
+
         if (action === "write") {
           if (content === undefined) {
             return {
@@ -1053,9 +2486,35 @@ sftp({ action: "download", remotePath: "/var/log/app.log", localPath: "/tmp/app.
               isError: true,
             };
           }
-          const writeResult = isLocal
-            ? await sftpManager.writeLocalFile(path, content, { mkdirs, mode })
-            : await sftpManager.writeRemote(sshManager.getClient()!, path, content, { mkdirs, mode });
+          if (offset !== undefined || length !== undefined || tail !== undefined) {
+            return {
+              content: [{ type: "text", text: "offset / length / tail 只用于 read；write 总是写整个文件" }],
+              isError: true,
+            };
+          }
+          if (encoding === "base64" && !/^[A-Za-z0-9+/\s]*={0,2}\s*$/.test(content)) {
+            return {
+              content: [{ type: "text", text: "encoding 是 base64，但 content 不是合法的 base64" }],
+              isError: true,
+            };
+          }
+          const body = encoding === "base64" ? Buffer.from(content, "base64") : content;
+          const writeAudit = { tool: "sftp" as const, kind: "write" as const, server: status.serverName!, path, bytes: Buffer.byteLength(body) };
+          const startedAt = Date.now();
+          let writeResult;
+          try {
+            writeResult = isLocal
+              ? await sftpManager.writeLocalFile(path, body, { mkdirs, mode })
+              : await sftpManager.writeRemote(connection.getClient()!, path, body, { mkdirs, mode });
+          } catch (e) {
+            recordAudit(auditLog, configManager, extra, startedAt, {
+              ...writeAudit,
+              error: e instanceof Error ? e.message : String(e),
+              ok: false,
+            });
+            throw e;
+          }
+          recordAudit(auditLog, configManager, extra, startedAt, { ...writeAudit, ok: true });
           return {
             content: [{
               type: "text",
@@ -1069,16 +2528,71 @@ sftp({ action: "download", remotePath: "/var/log/app.log", localPath: "/tmp/app.
         }
 
         // read
+        if (tail !== undefined && (offset !== undefined || length !== undefined)) {
+          return {
+            content: [{ type: "text", text: "tail 不能和 offset / length 同时用：要最后几行用 tail，要某一段字节用 offset + length" }],
+            isError: true,
+          };
+        }
+        const badNumbers = [
+          offset !== undefined && !Number.isInteger(offset) && `offset 必须是整数（负数从文件末尾往回数），收到 ${offset}`,
+          length !== undefined && !(Number.isInteger(length) && length >= 0) && `length 必须是 ≥ 0 的整数，收到 ${length}`,
+          maxBytes !== undefined && !(Number.isInteger(maxBytes) && maxBytes >= 0) && `maxBytes 必须是 ≥ 0 的整数，收到 ${maxBytes}`,
+          tail !== undefined && !(Number.isInteger(tail) && tail >= 1) && `tail 必须是 ≥ 1 的整数（最后几行），收到 ${tail}`,
+        ].filter(Boolean);
+        if (badNumbers.length > 0) {
+          return {
+            content: [{ type: "text", text: badNumbers.join("；") }],
+            isError: true,
+          };
+        }
+        const readOptions = { encoding, maxBytes, offset, length, tail };
         const readResult = isLocal
-          ? await sftpManager.readLocalFile(path, { maxBytes })
-          : await sftpManager.readRemote(sshManager.getClient()!, path, { maxBytes });
+          ? await sftpManager.readLocalFile(path, readOptions)
+          : await sftpManager.readRemote(connection.getClient()!, path, readOptions);
+        const range = `字节 ${readResult.start}–${readResult.end}，文件共 ${readResult.bytes} 字节`;
+
+        // 二进制：base64 放在 JSON 里，带上读的是哪一段
+        if (encoding === "base64") {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                action: "read",
+                target,
+                path: readResult.path,
+                bytes: readResult.bytes,
+                start: readResult.start,
+                end: readResult.end,
+                truncated: readResult.truncated || undefined,
+                encoding: "base64",
+                content: readResult.content,
+              }, null, 2),
+            }],
+          };
+        }
+
+        // 从中间 / 末尾读：不知道是第几行，不编行号，头上注明是哪一段
+        if (readResult.start > 0) {
+          if (tail !== undefined) {
+            const head = readResult.truncated
+              ? `[不到 ${tail} 行就到了读取上限，只有最后这些（第一行可能不完整）：${range}]`
+              : `[最后 ${tail} 行：${range}]`;
+            return { content: [{ type: "text", text: `${head}\n${readResult.content}` }] };
+          }
+          const cut = readResult.truncated ? `\n[超过读取上限，后面没读；调大 maxBytes 或分段读]` : "";
+          return { content: [{ type: "text", text: `[${range}]\n${readResult.content}${cut}` }] };
+        }
+
         // 贴近原生 Read：带行号（cat -n 风格），内容直接是文本、无 JSON 外壳
         const lines = readResult.content.split("\n");
         if (lines.length > 1 && lines[lines.length - 1] === "") lines.pop(); // 去掉文件末尾换行造成的空行
         const numbered = lines.map((ln, i) => `${String(i + 1).padStart(6)}\t${ln}`).join("\n");
         let readText = readResult.content === "" ? "(空文件)" : numbered;
         if (readResult.truncated) {
-          readText += `\n[文件共 ${readResult.bytes} 字节，超过读取上限，上面只是前面部分]`;
+          readText += `\n[${range}，超过读取上限，上面只是前面部分]`;
+        } else if (readResult.end < readResult.bytes) {
+          readText += `\n[${range}，后面还有]`;
         }
         return { content: [{ type: "text", text: readText }] };
       } catch (error: unknown) {
@@ -1090,4 +2604,30 @@ sftp({ action: "download", remotePath: "/var/log/app.log", localPath: "/tmp/app.
       }
     }
   );
+
+  // hub 跨 node 中转的内部工具：默认禁用（tools/list 里没有、调了也报错），只在 hub 连上来的会话里打开
+  const relayTool = server.registerTool(
+    "sftp_relay",
+    {
+      description: "hub 跨 node 中转文件的内部步骤（hub 按块调用），不要直接调；跨机传文件用 sftp({ action: \"transfer\" })。",
+      inputSchema: SFTP_RELAY_SHAPE,
+    },
+    async (args, extra): Promise<CallToolResult> => {
+      try {
+        return await runRelayStep(sshManager, configManager, auditLog, args, extra);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        return {
+          content: [{ type: "text", text: `错误: ${message}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+  relayTool.disable();
+  const onInitialized = server.server.oninitialized;
+  server.server.oninitialized = () => {
+    onInitialized?.();
+    if (server.server.getClientVersion()?.name === HUB_CLIENT_NAME) relayTool.enable();
+  };
 }
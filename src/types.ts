@@ -6,6 +6,14 @@ export interface ProxyConfig {
   password?: string;
 }
 
+/**
+ * host key 校验策略：
+ * - accept-new（默认）：首次连接钉住 host key（TOFU），之后不一致就拒绝
+ * - strict：没钉过的 key 也拒绝，必须先 mcp-ssh-pty trust <server>
+ * - off：不校验（旧行为；仅用于确实会频繁换 key 的测试机）
+ */
+export type HostKeyCheckMode = "strict" | "accept-new" | "off";
+
 export interface ProxyJumpConfig {
   host: string;
   port?: number;
@@ -13,22 +21,135 @@ export interface ProxyJumpConfig {
   password?: string;
   privateKeyPath?: string;
   passphrase?: string;
+  /** 跳板机用 ssh-agent 认证，语义同 ServerConfig.agent */
+  agent?: boolean | string;
+  /** keyboard-interactive 验证码来源，语义同 ServerConfig.totpSecret / otpCommand */
+  totpSecret?: string;
+  otpCommand?: string;
+  /** 跳板机自己的 host key 校验策略，默认 accept-new */
+  hostKeyCheck?: HostKeyCheckMode;
 }
 
+/**
+ * 一跳跳板：内联配置，或 ssh-servers.json 里另一台服务器的名字
+ * （沿用它的地址和认证；它自己若也有 proxyJump，会接在这一跳前面）
+ */
+export type ProxyJumpHop = ProxyJumpConfig | string;
+
+/**
+ * shortcut 参数类型（不写 = string）：
+ * - int：整数，min / max 限定取值范围
+ * - bool：true/false（也认 1/0、yes/no），渲染成 true / false，常配合 {{#args.X}} 块用
+ * - path：不能含换行 / NUL，不能以 - 开头（免得被当成选项）
+ * - duration：30、90s、5m、2h、1d、1h30m 这类时长，min / max 按秒算；按原样渲染
+ * - json：必须能 JSON.parse，渲染成紧凑 JSON
+ */
+export type ShortcutArgType = "string" | "int" | "bool" | "path" | "duration" | "json";
+
+/** 调用方传入的参数值：list 参数可以给数组，其余给字符串 / 数字 / 布尔都会转成字符串再校验 */
+export type ShortcutArgValue = string | number | boolean | string[];
+
 export interface ShortcutArg {
   name: string;
   description?: string;
+  type?: ShortcutArgType;
   enum?: string[];
-  default?: string;
+  /** 正则，要求整个值匹配（自动加 ^ $） */
+  pattern?: string;
+  /** int 是数值、duration 是秒数、string / path 是长度 */
+  min?: number;
+  max?: number;
+  /**
+   * false = 可以不传。没有 default 的可选参数只能出现在自己的块里：
+   * {{#if args.X}}…{{/if}} 只在传了 X（bool 为 true、list 非空）时渲染
+   */
+  required?: boolean;
+  /** 多值参数：传数组，命令里渲染成多个单引号包裹的词（stdin 里按行拼接），每一项分别校验 */
+  list?: boolean;
+  default?: ShortcutArgValue;
+}
+
+/**
+ * 多步 shortcut 的一步：command / upload / write / waitFor 四选一。
+ * 路径、内容、命令都能用模板（同 ShortcutConfig.command），命令里代入的值照样 shell-escape
+ */
+export interface ShortcutStep {
+  /** 步骤名，出现在结果汇总里（不写用序号） */
+  name?: string;
+  /** 在哪台执行：服务器名或 local。不写用 shortcut 的 runsOn，再没有就是调用时的目标服务器 */
+  runsOn?: string;
+  /** exec 通道跑的命令 */
+  command?: string;
+  stdin?: string;
+  /** daemon 本机文件传到 runsOn 那台（不能是 local） */
+  upload?: { localPath: string; remotePath: string };
+  /** 文本写到 runsOn 那台（local 也行） */
+  write?: { path: string; content: string; mode?: number; mkdirs?: boolean };
+  /** 每隔 interval 秒（默认 3）跑一次 command，exit 0 即通过；timeout 秒（默认 60，最多 600）内没通过算失败 */
+  waitFor?: { command: string; timeout?: number; interval?: number };
+  /** command 的超时（秒），规则同 ssh 的 timeout */
+  timeout?: number;
+  /** command 以 sudo 执行；shortcut 标了 sudo 时每个 command 步骤都以 sudo 执行 */
+  sudo?: boolean;
+  /** 这步失败也接着跑后面的（默认失败即停，后面的记为 skipped） */
+  continueOnError?: boolean;
+}
+
+export type ShortcutOutputFormat = "json" | "jsonl" | "tsv" | "csv" | "regex" | "lines";
+
+/**
+ * shortcut 输出的解析方式：exit 0 时把 stdout 解析成结构化的行返回（见 output-parser.ts）
+ */
+export interface ShortcutOutput {
+  format: ShortcutOutputFormat;
+  /** regex：逐行匹配的正则，命名分组 (?<name>…) 即字段 */
+  pattern?: string;
+  /** tsv / csv：给了就不把第一行当表头 */
+  columns?: string[];
+  /** 最多返回多少行（默认 100，上限 5000）；超出的行和过大的结果照样存盘可查 */
+  maxRows?: number;
 }
 
 export interface ShortcutConfig {
-  command: string;
+  /** 单条命令；和 steps 二选一 */
+  command?: string;
   stdin?: string;
+  /** 多步流程（本地构建 → 上传 → 重启 → 等健康检查），按顺序执行，默认失败即停 */
+  steps?: ShortcutStep[];
   description?: string;
+  /** 单条命令时只是说明性的元数据；多步时是各步骤的默认执行目标 */
   runsOn?: string;
   args?: ShortcutArg[];
+  /** 值可以写 secret 引用（secret:名 / env:变量 / cmd:命令），执行前才解析，同 ServerConfig.password */
   secrets?: Record<string, string>;
+  /** 只读操作：readOnly 服务器上只有标了它的 shortcut 能跑 */
+  readOnly?: boolean;
+  /** 以 sudo 执行（走 exec 通道，sudo 密码由服务端经 stdin 喂给 sudo -S） */
+  sudo?: boolean;
+  /** 输出解析：写格式名（"json"）或对象；只用于单条命令的 shortcut，且只走 exec 通道 */
+  output?: ShortcutOutputFormat | ShortcutOutput;
+}
+
+/**
+ * 一条策略规则。pattern 两种写法：
+ * - "/正则/flags"：在整条命令文本（含 stdin）里搜索，如 "/drop\\s+database/i"
+ * - 其他按 glob（* ?）匹配命令里的单个片段：按 ; && || | 和换行切开后逐段整段比较，如 "reboot*"、"rm -rf /"
+ */
+export interface PolicyRule {
+  pattern: string;
+  /** 命中时告诉模型的原因 */
+  reason?: string;
+  /** 只对带其中任一 tag 的服务器生效（不写 = 对所有服务器） */
+  tags?: string[];
+}
+
+/**
+ * 命令策略：deny 命中直接拒绝；confirm 命中要带 confirm 令牌重发同一调用才执行。
+ * 规则字符串等价于 { pattern: 字符串 }。
+ */
+export interface PolicyConfig {
+  deny?: Array<string | PolicyRule>;
+  confirm?: Array<string | PolicyRule>;
 }
 
 export interface ServerConfig {
@@ -36,13 +157,55 @@ export interface ServerConfig {
   host: string;
   port: number;
   username: string;
+  /**
+   * password / passphrase / sudoPassword / totpSecret（以及 proxy.password、跳板机上的同名字段）
+   * 除了明文还可以写引用，连接前才解析、不会写回配置文件：
+   * - "secret:prod-db"：本地加密 vault 里的条目（mcp-ssh-pty secret set prod-db）
+   * - "env:PROD_DB_PASSWORD"：daemon 进程的环境变量
+   * - "cmd:pass show prod/db"：在 daemon 本机跑命令，取 stdout 第一行
+   */
   password?: string;
   privateKeyPath?: string;
   passphrase?: string;
+  /** 用 ssh-agent 认证：true = 取 SSH_AUTH_SOCK；字符串 = agent socket 路径（或 windows 的 pageant / 命名管道） */
+  agent?: boolean | string;
+  /**
+   * keyboard-interactive 认证（常见于要 TOTP 的堡垒机）的验证码来源，二选一：
+   * - totpSecret：base32 的 TOTP 种子，daemon 本地算 6 位码
+   * - otpCommand：在 daemon 本机跑的命令，stdout 第一行即验证码（如 `op item get bastion --otp`）
+   * 都不配时，服务器问验证码会让 connect 失败并把提示文本回传，由模型向用户索取后带 otp 参数重连。
+   */
+  totpSecret?: string;
+  otpCommand?: string;
+  /**
+   * 把本机 agent 转发到远端（exec 通道和 PTY shell 都生效），远端 git pull / ssh 下一跳可直接用本机 key。
+   * 需要同时配置 agent。远端 root 能借用转发过去的 agent，只对可信机器开。
+   */
+  forwardAgent?: boolean;
+  /** sudo:true 执行时由服务端经 stdin 喂给 sudo -S；不配则回退到 password */
   sudoPassword?: string;
+  /** 允许 action:"sudo" 把 sudo 密码明文返回给模型（默认不允许），覆盖全局 revealSudoPassword */
+  revealSudoPassword?: boolean;
   proxy?: ProxyConfig;
-  proxyJump?: ProxyJumpConfig;
+  /**
+   * 用本机命令的 stdin/stdout 作为到目标的通道（同 OpenSSH ProxyCommand），
+   * 支持 %h %p %r %% 记号，如 "cloudflared access ssh --hostname %h"。有 proxyJump 时不生效
+   */
+  proxyCommand?: string;
+  /** 跳板机；多层堡垒按顺序写数组（第一个是离本机最近的那跳），如 ["office-gw", "dmz"] */
+  proxyJump?: ProxyJumpHop | ProxyJumpHop[];
+  /** host key 校验策略，默认 accept-new（见 HostKeyCheckMode） */
+  hostKeyCheck?: HostKeyCheckMode;
+  /** 分类标签，如 ["prod", "web"]。list 可按 tag 过滤，servers 选择器可写 tag:prod；tagShortcuts / tagHints 按它生效 */
+  tags?: string[];
   shortcuts?: Record<string, ShortcutConfig>;
+  /**
+   * 只读服务器（生产库从库、客户机器）：ssh 只能跑只读白名单里的命令和标了 readOnly 的 shortcut，
+   * 不能用 mode:"pty" / "detach"，sftp 不能 write / upload。list 和 connect 会标出来
+   */
+  readOnly?: boolean;
+  /** 该服务器自己的命令策略，与全局 policy 叠加生效（两边的规则都要过） */
+  policy?: PolicyConfig;
   /**
    * 连接该服务器时注入到 connect 响应的指令性提示（区别于描述性的 notes）
    * 例如 "部署这台必须走 deploy_kg shortcut，不要手动 cp jar"
@@ -69,6 +232,40 @@ export interface ServersConfig {
    * local shell 专属的指令性提示（只在连 local 时生效）。
    */
   localHints?: string | string[];
+  /**
+   * 按 tag 挂的 shortcut：对带该 tag 的服务器生效。
+   * 优先级：全局 shortcuts < tagShortcuts < 服务器自己的 shortcuts（同名时后者覆盖前者）。
+   */
+  tagShortcuts?: Record<string, Record<string, ShortcutConfig>>;
+  /**
+   * 按 tag 挂的指令性提示：连接带该 tag 的服务器时与服务器级 hints 一起注入（tag 的在前）。
+   */
+  tagHints?: Record<string, string | string[]>;
+  /**
+   * 命名的服务器组，成员是选择器：服务器名、通配符（web-*）、tag:prod、tag:prod+web（同时带两个 tag）
+   * 或 group:<另一个组>。servers 参数里写 group:<组名> 即展开。
+   */
+  groups?: Record<string, string[]>;
+  /**
+   * 追加到内置只读白名单的条目（见 read-only.ts）：不带空格是命令名，带空格按 glob 整段匹配，
+   * 如 ["redis-cli info*", "nginx -T"]
+   */
+  readOnlyCommands?: string[];
+  /**
+   * 允许 action:"sudo" 把 sudo 密码明文返回给模型（默认 false：只能用 sudo:true 让服务端代喂密码）。
+   * 服务器上的 revealSudoPassword 优先
+   */
+  revealSudoPassword?: boolean;
+  /**
+   * 全局命令策略：对所有服务器（含 local）的 command / shortcut 生效，在执行前检查。
+   * 规则可用 tags 限定到带某些 tag 的服务器，如 { pattern: "reboot*", tags: ["prod"] }。
+   */
+  policy?: PolicyConfig;
+  /**
+   * 把 ~/.ssh/config 里的 Host 实时并入服务器列表：true = ~/.ssh/config，字符串 = 其他路径。
+   * 同名时本文件里的条目优先；并入的条目不会被写回本文件（要固化用 mcp-ssh-pty import-ssh-config）。
+   */
+  sshConfigInclude?: boolean | string;
 }
 
 export interface CommandResult {
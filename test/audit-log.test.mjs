@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AuditLog } from "../dist/audit-log.js";
+
+const ago = (min) => new Date(Date.now() - min * 60_000).toISOString();
+const entry = (min, command) => ({ ts: ago(min), session: "t", tool: "ssh", kind: "command", server: "web1", command, ok: true });
+
+test("since：结束得晚、开始得早的记录不挡住它前面写入的新记录", () => {
+  const dir = mkdtempSync(join(tmpdir(), "audit-"));
+  try {
+    const log = new AuditLog(dir);
+    log.record(entry(120, "old"));
+    log.record(entry(10, "a"));
+    log.record(entry(5, "b"));
+    // 一小时前开始、刚刚结束的长传输最后才写入
+    log.record({ ts: ago(60), session: "t", tool: "sftp", kind: "transfer", server: "web1", path: "/x", ok: true });
+    const since = new Date(Date.now() - 30 * 60_000);
+    assert.deepEqual(log.query({ since }).map((e) => e.command), ["b", "a"]);
+    assert.equal(log.query({ since: new Date(Date.now() - 90 * 60_000) }).length, 3);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { commandSegments, evaluatePolicy } from "../dist/policy.js";
+
+const denyReboot = [{ source: "global", policy: { deny: ["reboot*"] } }];
+const denied = (command) => assert.ok(evaluatePolicy(denyReboot, command).deny, command);
+
+test("按 ; && || | & 和换行切片段，去掉重定向", () => {
+  assert.deepEqual(commandSegments("cd /tmp && ls -la | grep x; echo done"), ["cd /tmp", "ls -la", "grep x", "echo done"]);
+  assert.deepEqual(commandSegments("make >build.log 2>&1 &\nuptime"), ["make", "uptime"]);
+  assert.deepEqual(commandSegments("echo hi >| out.txt"), ["echo hi"]);
+  assert.deepEqual(commandSegments("sort < in.txt"), ["sort"]);
+});
+
+test("剥掉 sudo 和它带值的选项", () => {
+  assert.deepEqual(commandSegments("sudo reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("sudo -u root reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("sudo -uroot -g wheel -n reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("sudo --user=root -E cat /etc/shadow"), ["cat /etc/shadow"]);
+  assert.deepEqual(commandSegments("sudo -h host -p '' -C 3 -r role -t type -U alice ls"), ["ls"]);
+});
+
+test("剥掉 env 赋值和 env / nohup / exec / command / nice / time / timeout", () => {
+  assert.deepEqual(commandSegments("FOO=1 BAR=2 reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("env reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("env -i -u HOME PATH=/bin reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("nohup reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("exec reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("exec -a name reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("command reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("nice -n 10 reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("time -p reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("timeout 30 reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("timeout -s KILL -k 5 2m reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("sudo nohup nice timeout 5s env X=1 reboot"), ["reboot"]);
+});
+
+test("去掉子 shell / 命令组括号，命令词按文件名比", () => {
+  assert.deepEqual(commandSegments("(reboot)"), ["reboot"]);
+  assert.deepEqual(commandSegments("{ reboot; }"), ["reboot"]);
+  assert.deepEqual(commandSegments("/sbin/reboot"), ["reboot"]);
+  assert.deepEqual(commandSegments("./deploy.sh --prod"), ["deploy.sh --prod"]);
+  assert.deepEqual(commandSegments("ls /var/log"), ["ls /var/log"]);
+});
+
+test("只剩包装本身时原样保留", () => {
+  assert.deepEqual(commandSegments("env"), ["env"]);
+  assert.deepEqual(commandSegments("sudo -s"), ["-s"]);
+  assert.deepEqual(commandSegments("timeout 5"), ["timeout 5"]);
+});
+
+test("deny reboot* 拦得住各种写法", () => {
+  for (const command of [
+    "reboot",
+    "cd /; sudo reboot",
+    "sudo -u root reboot",
+    "env reboot",
+    "nohup reboot &",
+    "exec reboot",
+    "command reboot",
+    "/sbin/reboot",
+    "(reboot)",
+    "{ reboot; }",
+    "timeout 10 /usr/sbin/reboot now",
+  ]) denied(command);
+  assert.equal(evaluatePolicy(denyReboot, "uptime; cat /var/log/reboot.log").deny, undefined);
+});
@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readOnlyViolations } from "../dist/read-only.js";
+
+const allowed = (command, extra) => assert.deepEqual(readOnlyViolations(command, extra), [], command);
+const refused = (command, extra) => assert.notEqual(readOnlyViolations(command, extra).length, 0, command);
+
+test("白名单里的只读命令放行", () => {
+  allowed("ls -la /var/log");
+  allowed("cat /etc/os-release | grep ID");
+  allowed("cd /srv && git log --oneline -n 5");
+  allowed("systemctl status nginx");
+  allowed("journalctl -u nginx -n 100 2>&1");
+  allowed("find / -name '*.log' 2>/dev/null");
+  allowed("date -u +%s");
+  allowed("date -Iseconds");
+  allowed("hostname -f");
+  allowed("dmesg -T");
+  allowed("ss -tulpn");
+  allowed("git diff --stat");
+  allowed("sort -rn counts.txt");
+  allowed("tree -L 2 /srv");
+  allowed("file -b /bin/ls");
+});
+
+test("不在白名单里的命令拒绝", () => {
+  refused("rm -rf /tmp/x");
+  refused("ls; reboot");
+  refused("systemctl restart nginx");
+  refused("cat /etc/passwd | tee /tmp/x");
+});
+
+test("readOnlyCommands 追加白名单", () => {
+  refused("redis-cli info memory");
+  allowed("redis-cli info memory", ["redis-cli info*"]);
+  allowed("nginx -T", ["nginx"]);
+});
+
+test("写文件的重定向拒绝，/dev/null 和 fd 复制放行", () => {
+  refused("echo hi > /tmp/x");
+  refused("echo hi >> /tmp/x");
+  refused("echo hi >| /tmp/x");
+  refused("echo hi >|/tmp/x");
+  refused("ls 2> /tmp/err");
+  refused("ls &> /tmp/all");
+  refused("echo pwned >&/tmp/x");
+  refused("cat a >& /tmp/x");
+  refused("ls 2>&/tmp/err");
+  allowed("ls >/dev/null 2>&1");
+  allowed("ls 2>&1 >&2");
+  allowed("ls 2>&- 3>&1-");
+  allowed("ls >& /dev/null");
+  allowed("ls >| /dev/null");
+});
+
+test("命令替换 / 进程替换拒绝", () => {
+  refused("echo $(reboot)");
+  refused("echo `reboot`");
+  refused("diff <(ls a) <(ls b)");
+});
+
+test("白名单命令带写参数拒绝", () => {
+  refused("find /tmp -name x -delete");
+  refused("find . -exec rm {} ;");
+  refused("sort -o out.txt in.txt");
+  refused("sort --output=out.txt in.txt");
+  refused("sort -ro out.txt in.txt");
+  refused("sort --out=out.txt in.txt");
+  refused("sort --compress-program=/tmp/evil -S 1 big");
+  refused("sort --compress=/tmp/evil big");
+  refused("tree -o /etc/x /");
+  refused("tree -a -o/etc/x /");
+  refused("file -C -m magic");
+  refused("file -zC -m magic");
+  refused("file --compile -m magic");
+  refused("journalctl --vacuum-size=100M");
+  refused("date -s '2020-01-01'");
+  refused("date --set=2020-01-01");
+  refused("date -us 10:00");
+  refused("hostname evil");
+  refused("hostname -b evil");
+  refused("dmesg -c");
+  refused("dmesg -C");
+  refused("dmesg -D");
+  refused("dmesg -E");
+  refused("dmesg -n 1");
+  refused("dmesg -Tc");
+  refused("dmesg --clear");
+  refused("ss -K dst 10.0.0.1");
+  refused("ss -tK");
+  refused("ss --kill");
+  refused("git log --output=/tmp/x");
+  refused("git diff --output /tmp/x");
+});
+
+test("包装和 sudo 选项剥掉后按真正的命令判断", () => {
+  allowed("sudo -u postgres cat /var/lib/pgsql/data/postgresql.conf");
+  allowed("timeout 5 /usr/bin/tail -n 50 /var/log/syslog");
+  allowed("(cd /srv && git status)");
+  refused("sudo -u root reboot");
+  refused("nohup rm -rf /tmp/x");
+  refused("env hostname evil");
+});
@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderShortcut } from "../dist/shortcut-renderer.js";
+
+const cfg = { command: "head -n {{args.n}} /var/log/syslog", args: [{ name: "n", type: "int" }] };
+const render = (n) => renderShortcut("logs", cfg, { n });
+
+test("int 参数按调用方给的数字原样渲染", () => {
+  assert.match(render("20"), /head -n '?20'? /);
+  assert.match(render("+20"), /head -n '?20'? /);
+  assert.match(render("-5"), /head -n '?-5'? /);
+  assert.match(render("9007199254740991"), /9007199254740991/);
+});
+
+test("int 参数超出安全整数拒绝，不悄悄改成别的数", () => {
+  assert.throws(() => render("99999999999999999999999"), /超出范围/);
+  assert.throws(() => render("9007199254740993"), /超出范围/);
+  assert.throws(() => render("12abc"), /必须是整数/);
+});